@@ -44,48 +44,262 @@ async function sendMessageNormal(message, sessionId) {
     }
 }
 
-// Streaming message sending
+// Controller of the chat stream in progress, used to cancel it
+let currentStreamController = null;
+
+// Streaming message sending (Server-Sent Events)
 async function sendMessageStream(message, sessionId) {
     // Create assistant message container
     const messageId = 'msg_' + Date.now();
     addMessage('assistant', '', messageId);
     
+    const controller = new AbortController();
+    currentStreamController = controller;
+    setStreamingState(true);
+    
+    let assistantMessage = '';
+    let failed = false;
+    
     try {
         const response = await fetch(`${API_BASE}/chat/message`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ message, sessionId, stream: true })
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'text/event-stream'
+            },
+            body: JSON.stringify({ message, sessionId, stream: 'sse' }),
+            signal: controller.signal
         });
         
         if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
         }
         
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let assistantMessage = '';
+        await readEventStream(response, (type, event) => {
+            switch (type) {
+                case 'search_started':
+                    setMessageStatus(messageId, event.rewrittenQuery && event.rewrittenQuery !== event.query
+                        ? `🔍 Searching for "${event.rewrittenQuery}" (${event.strategy})...`
+                        : `🔍 Searching (${event.strategy})...`);
+                    break;
+                case 'sources':
+                    renderMessageSources(messageId, event.sources);
+                    setMessageStatus(messageId, 'Thinking...');
+                    break;
+                case 'token':
+                    assistantMessage += event.content;
+                    updateMessageContent(messageId, assistantMessage);
+                    break;
+                case 'references':
+                    renderMessageReferences(messageId, event.references, event.citations);
+                    break;
+                case 'error':
+                    failed = true;
+                    renderMessageError(messageId, event.message);
+                    break;
+                case 'done':
+                    setMessageStatus(messageId, null);
+                    renderMessageTimings(messageId, event);
+                    break;
+            }
+        });
         
-        while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) break;
+        if (!assistantMessage && !failed) {
+            updateMessageContent(messageId, 'No answer was generated.');
+        }
+        
+    } catch (error) {
+        if (error.name === 'AbortError') {
+            setMessageStatus(messageId, null);
+            renderMessageError(messageId, 'Generation stopped.', 'cancelled');
+        } else {
+            console.error('Streaming response failed:', error);
+            renderMessageError(messageId, 'An error occurred while generating the response. Please try again later.');
+        }
+    } finally {
+        if (currentStreamController === controller) {
+            currentStreamController = null;
+        }
+        setStreamingState(false);
+    }
+}
+
+// Cancel the chat stream in progress
+function cancelStream() {
+    if (currentStreamController) {
+        currentStreamController.abort();
+    }
+}
+
+// Toggle the stop button while a stream is running
+function setStreamingState(streaming) {
+    const stopButton = document.getElementById('stopButton');
+    if (stopButton) {
+        stopButton.style.display = streaming ? 'inline-block' : 'none';
+    }
+}
+
+// Parse a text/event-stream response body and call onEvent(type, data) for each event
+async function readEventStream(response, onEvent) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        buffer += decoder.decode(value, { stream: true });
+        
+        // Events are separated by a blank line
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
             
-            const chunk = decoder.decode(value, { stream: true });
-            assistantMessage += chunk;
+            let type = 'message';
+            const dataLines = [];
+            rawEvent.split('\n').forEach(line => {
+                if (line.startsWith('event:')) {
+                    type = line.slice(6).trim();
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).trim());
+                }
+            });
             
-            // Update message content
-            updateMessageContent(messageId, assistantMessage);
+            if (dataLines.length > 0) {
+                onEvent(type, JSON.parse(dataLines.join('\n')));
+            }
         }
-        
-        // Add reference data formatting
-        if (assistantMessage.includes('Reference data')) {
-            formatReferences(messageId, assistantMessage);
+    }
+}
+
+// Get (or create) a named part of a streamed assistant message
+function getMessagePart(messageId, part) {
+    const messageDiv = document.getElementById(messageId);
+    if (!messageDiv) return null;
+    
+    let element = messageDiv.querySelector(`.message-${part}`);
+    if (!element) {
+        // Parts are rendered in a fixed order: status, sources, answer, references, error, timings
+        const order = ['status', 'sources', 'answer', 'references', 'error', 'timings'];
+        if (!messageDiv.querySelector('.message-answer')) {
+            messageDiv.innerHTML = '';
         }
-        
-    } catch (error) {
-        console.error('Streaming response failed:', error);
-        updateMessageContent(messageId, 'Sorry, an error occurred while generating the response. Please try again later.');
+        element = document.createElement('div');
+        element.className = `message-${part}`;
+        const next = order.slice(order.indexOf(part) + 1)
+            .map(name => messageDiv.querySelector(`.message-${name}`))
+            .find(Boolean);
+        messageDiv.insertBefore(element, next || null);
     }
+    return element;
+}
+
+// Show or clear the progress line of a streamed message
+function setMessageStatus(messageId, text) {
+    const status = getMessagePart(messageId, 'status');
+    if (!status) return;
+    status.className = 'message-status typing-indicator';
+    status.textContent = text || '';
+    status.style.display = text ? 'block' : 'none';
+}
+
+// Render retrieved sources before the answer arrives
+function renderMessageSources(messageId, sources) {
+    const container = getMessagePart(messageId, 'sources');
+    if (!container || !sources || sources.length === 0) return;
+    
+    container.innerHTML = `
+        <details class="sources-section">
+            <summary>📄 ${sources.length} sources</summary>
+            ${sources.map((source, index) => `
+                <div class="source-item">
+                    <strong>${index + 1}. ${escapeHtml(source.source)}</strong>
+                    ${formatChunkLocation(source.metadata) ? `<small>${escapeHtml(formatChunkLocation(source.metadata))}</small>` : ''}
+                    <small>(Relevance: ${(source.score * 100).toFixed(1)}%)</small>
+                    <div>${escapeHtml(source.content.substring(0, 150))}${source.content.length > 150 ? '...' : ''}</div>
+                </div>
+            `).join('')}
+        </details>
+    `;
+}
+
+// Render chunk references cited by the answer, with the cited passage when citations are available
+function renderMessageReferences(messageId, references, citations) {
+    const container = getMessagePart(messageId, 'references');
+    if (!container) return;
+    
+    if (citations && citations.length > 0) {
+        container.innerHTML = `
+            <div class="references-section">
+                <h4>📚 Citations</h4>
+                ${citations.map(renderCitation).join('')}
+            </div>
+        `;
+        return;
+    }
+    
+    if (!references || references.length === 0) return;
+    
+    container.innerHTML = `
+        <div class="references-section">
+            <h4>📚 Reference data</h4>
+            <div class="references-content">${references.map(escapeHtml).join('<br>')}</div>
+        </div>
+    `;
+}
+
+// Render one citation: marker, file and snippet with the cited passage highlighted
+function renderCitation(citation) {
+    const { snippet, highlight } = citation;
+    const before = escapeHtml(snippet.substring(0, highlight.start));
+    const passage = escapeHtml(snippet.substring(highlight.start, highlight.end));
+    const after = escapeHtml(snippet.substring(highlight.end));
+    
+    return `
+        <div class="citation">
+            <div class="citation-header">
+                <strong>[${citation.marker}]</strong> ${escapeHtml(citation.fileName || citation.chunkId)}
+                ${formatChunkLocation(citation) ? `<small>${escapeHtml(formatChunkLocation(citation))}</small>` : ''}
+                <small>chunk ${escapeHtml(citation.chunkId)}</small>
+            </div>
+            <div class="citation-snippet">${before}<mark>${passage}</mark>${after}</div>
+        </div>
+    `;
+}
+
+// Render a failure separately from the answer content
+function renderMessageError(messageId, message, kind = 'error') {
+    const container = getMessagePart(messageId, 'error');
+    if (!container) return;
+    container.className = `message-error stream-${kind}`;
+    container.textContent = kind === 'error' ? `❌ ${message}` : `⏹️ ${message}`;
+}
+
+// Render timings from the done event
+function renderMessageTimings(messageId, event) {
+    const container = getMessagePart(messageId, 'timings');
+    if (!container || !event.timings) return;
+    const { searchTime, generationTime, totalTime } = event.timings;
+    container.innerHTML = `<small>Search ${searchTime}ms · Generation ${generationTime}ms · Total ${totalTime}ms${event.cancelled ? ' · cancelled' : ''}</small>`;
+}
+
+// Escape text before inserting it as HTML
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text == null ? '' : String(text);
+    return div.innerHTML;
+}
+
+// Page, heading path or JSON record of a chunk, e.g. "p. 4 · Leistungen > Reduzieren"
+function formatChunkLocation(location) {
+    if (!location) return '';
+    return [
+        location.page != null ? `p. ${location.page}` : '',
+        location.section || '',
+        location.locator || '',
+    ].filter(Boolean).join(' · ');
 }
 
 // Add message to chat area
@@ -111,46 +325,17 @@ function addMessage(role, content, messageId = null) {
 
 // Update message content
 function updateMessageContent(messageId, content) {
-    const messageDiv = document.getElementById(messageId);
-    if (messageDiv) {
-        messageDiv.innerHTML = content.replace(/\n/g, '<br>');
-        messageDiv.scrollIntoView({ behavior: 'smooth' });
-    }
-}
-
-// Format reference data
-function formatReferences(messageId, content) {
-    const messageDiv = document.getElementById(messageId);
-    if (messageDiv) {
-        // Format reference data in a more beautiful style
-        let formattedContent = content;
-        
-        // Format reference data section
-        formattedContent = formattedContent.replace(
-            /### Reference data\n(.*?)$/s,
-            '<div class="references-section"><h4>📚 Reference data</h4><div class="references-content">$1</div></div>'
-        );
-        
-        // Format code blocks
-        formattedContent = formattedContent.replace(
-            /```([\s\S]*?)```/g,
-            '<pre><code>$1</code></pre>'
-        );
-        
-        // Format bold text
-        formattedContent = formattedContent.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-        
-        // Format italic text
-        formattedContent = formattedContent.replace(/\*(.*?)\*/g, '<em>$1</em>');
-        
-        messageDiv.innerHTML = formattedContent.replace(/\n/g, '<br>');
+    const answer = getMessagePart(messageId, 'answer');
+    if (answer) {
+        answer.innerHTML = content.replace(/\n/g, '<br>');
+        answer.scrollIntoView({ behavior: 'smooth' });
     }
 }
 
 // Check Gemini service status
 async function checkGeminiStatus() {
     try {
-        const response = await fetch(`${API_BASE}/chat/gemini/status`);
+        const response = await fetch(`${API_BASE}/chat/llm/status`);
         const data = await response.json();
         
         if (data.success) {
@@ -169,13 +354,13 @@ function updateGeminiStatus(status) {
     if (statusElement) {
         if (status.isAvailable) {
             statusElement.innerHTML = `
-                <span class="status-indicator available">🟢 Gemini available</span>
-                <small>Model: ${status.modelInfo.name}</small>
+                <span class="status-indicator available">🟢 LLM available</span>
+                <small>Model: ${status.modelInfo.name} (${status.modelInfo.provider})</small>
             `;
         } else {
             statusElement.innerHTML = `
-                <span class="status-indicator unavailable">🔴 Gemini unavailable</span>
-                <small>${status.lastError || 'Please check API key configuration'}</small>
+                <span class="status-indicator unavailable">🔴 LLM unavailable</span>
+                <small>${status.lastError || 'Please check LLM provider configuration'}</small>
             `;
         }
     }
@@ -262,6 +447,7 @@ function displaySearchResults(data) {
                 </div>
                 <div class="result-content">${content}</div>
                 <small style="color: #6c757d;">Source: ${result.source}</small>
+                ${formatChunkLocation(result.metadata) ? `<small style="color: #6c757d;">Location: ${escapeHtml(formatChunkLocation(result.metadata))}</small>` : ''}
                 ${result.metadata?.chunkId ? `<small style="color: #6c757d;">Chunk ID: ${result.metadata.chunkId}</small>` : ''}
             </div>
         `;
@@ -332,6 +518,7 @@ function displayQAResults(data) {
                 ${result.searchResults.map((source, index) => `
                     <div class="source-item">
                         <div class="source-title">Source ${index + 1}: ${source.source}</div>
+                        ${formatChunkLocation(source.metadata) ? `<small style="color: #6c757d;">${escapeHtml(formatChunkLocation(source.metadata))}</small>` : ''}
                         <div class="source-content">${source.content.substring(0, 150)}...</div>
                         <small style="color: #6c757d;">Relevance: ${(source.score * 100).toFixed(1)}%</small>
                     </div>
@@ -1,51 +1,104 @@
-import { AgentMessage, AgentSession, SearchQuery } from '../models/types';
+import { AgentMessage, AgentReply, AgentSession, Citation, SearchQuery } from '../models/types';
 import { UnifiedSearch } from '../search/unified-search';
+import { SessionStore, SessionPage } from '../services/session';
+import { getSessionConfig } from '../config/unified-config';
+import { QueryRewriter, formatConversationHistory } from './query-rewriter';
+import { extractCitations } from '../services/citations';
 
 export abstract class BaseAgent {
   protected unifiedSearch: UnifiedSearch;
-  protected sessions: Map<string, AgentSession> = new Map();
+  protected sessionStore: SessionStore;
+  protected queryRewriter: QueryRewriter;
 
-  constructor() {
+  constructor(sessionStore: SessionStore) {
     this.unifiedSearch = UnifiedSearch.getInstance();
+    this.sessionStore = sessionStore;
+    this.queryRewriter = new QueryRewriter();
   }
 
   /**
    * Process user query
    */
-  async processQuery(sessionId: string, message: string): Promise<string> {
+  async processQuery(
+    sessionId: string,
+    message: string,
+    options: { strategy?: string } = {}
+  ): Promise<AgentReply> {
+    let rewrittenQuery = message;
     try {
       // Get or create session
-      const session = this.getOrCreateSession(sessionId);
+      const session = await this.getOrCreateSession(sessionId);
+      
+      // Resolve follow-up questions against the conversation so far
+      rewrittenQuery = await this.rewriteQuery(session, message);
       
       // Add user message
-      this.addMessage(session, 'user', message);
+      await this.addMessage(session, 'user', message);
       
       // Smart query processing
-      const searchResults = await this.smartSearch(message);
+      const searchResults = await this.smartSearch(rewrittenQuery, options.strategy);
       
       // Generate answer
       const answer = await this.generateAnswer(message, searchResults, session);
+      const citations = extractCitations(answer, searchResults);
       
       // Add assistant message
-      this.addMessage(session, 'assistant', answer);
+      await this.addMessage(session, 'assistant', answer, this.getCitedChunkIds(searchResults, citations));
       
-      return answer;
+      return { answer, rewrittenQuery, citations };
       
     } catch (error) {
       console.error('❌ Query processing failed:', error);
-      return 'Sorry, an error occurred while processing your query. Please try again later.';
+      return {
+        answer: 'Sorry, an error occurred while processing your query. Please try again later.',
+        rewrittenQuery,
+        citations: [],
+      };
+    }
+  }
+
+  /**
+   * Rewrite the message into a standalone search query using the recent session history
+   */
+  async rewriteQuery(session: AgentSession, message: string): Promise<string> {
+    if (!getSessionConfig().rewriteQueries) {
+      return message;
     }
+    return this.queryRewriter.rewrite(message, this.getRecentHistory(session, message));
+  }
+
+  /**
+   * Last messages of the session before `message`, limited to CHAT_HISTORY_MESSAGES
+   */
+  protected getRecentHistory(session: AgentSession, message: string): AgentMessage[] {
+    const messages = [...session.messages];
+
+    // The current turn may already be recorded; it is not part of its own history
+    const last = messages[messages.length - 1];
+    if (last && last.role === 'user' && last.content === message) {
+      messages.pop();
+    }
+
+    const limit = getSessionConfig().historyMessages;
+    return limit > 0 ? messages.slice(-limit) : [];
+  }
+
+  /**
+   * Condensed recent history for the answer prompt, undefined on the first turn
+   */
+  protected getHistoryContext(session: AgentSession, message: string): string | undefined {
+    return formatConversationHistory(this.getRecentHistory(session, message)) || undefined;
   }
 
   /**
    * Smart search - extract keywords and perform multi-round search
    */
-  private async smartSearch(message: string): Promise<any[]> {
+  private async smartSearch(message: string, strategy?: string): Promise<any[]> {
     // 1. First try original query
     let results = await this.unifiedSearch.search({
       query: message,
       limit: 5,
-    });
+    }, { strategy });
 
     // 2. If no results found, extract keywords and retry
     if (results.length === 0) {
@@ -57,7 +110,7 @@ export abstract class BaseAgent {
           const keywordResults = await this.unifiedSearch.search({
             query: keyword,
             limit: 3,
-          });
+          }, { strategy });
           results = results.concat(keywordResults);
         }
       }
@@ -83,7 +136,7 @@ export abstract class BaseAgent {
   /**
    * Smart search with existing results (avoid duplicate search)
    */
-  async smartSearchWithResults(message: string, existingResults?: any[]): Promise<any[]> {
+  async smartSearchWithResults(message: string, existingResults?: any[], strategy?: string): Promise<any[]> {
     // If search results already exist, use them directly
     if (existingResults && existingResults.length > 0) {
       console.log(`📊 Using existing search results: ${existingResults.length} results`);
@@ -91,7 +144,7 @@ export abstract class BaseAgent {
     }
 
     // Otherwise perform new search
-    return this.smartSearch(message);
+    return this.smartSearch(message, strategy);
   }
 
   /**
@@ -142,56 +195,66 @@ export abstract class BaseAgent {
   /**
    * Get or create session
    */
-  public getOrCreateSession(sessionId: string): AgentSession {
-    if (!this.sessions.has(sessionId)) {
-      const session: AgentSession = {
-        id: sessionId,
-        messages: [],
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-      this.sessions.set(sessionId, session);
-    }
-    
-    const session = this.sessions.get(sessionId)!;
-    session.updated_at = new Date();
-    return session;
+  public async getOrCreateSession(sessionId: string): Promise<AgentSession> {
+    return this.sessionStore.getOrCreateSession(sessionId);
   }
 
   /**
-   * Add message to session
+   * Add message to session and persist it
    */
-  protected addMessage(session: AgentSession, role: 'user' | 'assistant', content: string): void {
+  protected async addMessage(
+    session: AgentSession,
+    role: 'user' | 'assistant',
+    content: string,
+    citedChunkIds?: string[]
+  ): Promise<void> {
     const message: AgentMessage = {
       role,
       content,
       timestamp: new Date(),
+      ...(citedChunkIds ? { citedChunkIds } : {}),
     };
     
-    session.messages.push(message);
-    session.updated_at = new Date();
+    await this.sessionStore.appendMessage(session.id, message);
+    if (!session.messages.includes(message)) {
+      session.messages.push(message);
+    }
+    session.updated_at = message.timestamp;
+  }
+
+  /**
+   * Chunk ids an answer was grounded on: the cited chunks, or every search result
+   * when the answer has no citation markers (e.g. fallback answers)
+   */
+  protected getCitedChunkIds(searchResults: any[], citations: Citation[] = []): string[] {
+    const chunkIds = citations.length > 0
+      ? citations.map(citation => citation.chunkId)
+      : searchResults
+        .map(result => result.metadata?.chunkId)
+        .filter((chunkId): chunkId is string => typeof chunkId === 'string');
+    return Array.from(new Set(chunkIds));
   }
 
   /**
    * Get session history
    */
-  getSessionHistory(sessionId: string): AgentMessage[] {
-    const session = this.sessions.get(sessionId);
+  async getSessionHistory(sessionId: string): Promise<AgentMessage[]> {
+    const session = await this.sessionStore.getSession(sessionId);
     return session ? session.messages : [];
   }
 
   /**
    * Clear session
    */
-  clearSession(sessionId: string): boolean {
-    return this.sessions.delete(sessionId);
+  async clearSession(sessionId: string): Promise<boolean> {
+    return this.sessionStore.deleteSession(sessionId);
   }
 
   /**
-   * Get all sessions
+   * List sessions, most recently updated first
    */
-  getAllSessions(): AgentSession[] {
-    return Array.from(this.sessions.values());
+  async listSessions(offset: number = 0, limit: number = 20): Promise<SessionPage> {
+    return this.sessionStore.listSessions(offset, limit);
   }
 }
 
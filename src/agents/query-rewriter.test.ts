@@ -0,0 +1,100 @@
+import { AgentMessage } from '../models/types';
+import { QueryRewriter, formatConversationHistory } from './query-rewriter';
+
+const mockGenerateText = jest.fn();
+const mockIsAvailable = jest.fn(async () => true);
+
+jest.mock('../services/service-manager', () => ({
+  serviceManager: {
+    getLLMService: () => ({
+      isAvailable: mockIsAvailable,
+      generateText: mockGenerateText,
+    }),
+  },
+}));
+
+function message(role: AgentMessage['role'], content: string): AgentMessage {
+  return { role, content, timestamp: new Date() };
+}
+
+const history = [
+  message('user', 'What does Acme Cloud offer?'),
+  message('assistant', 'Acme Cloud offers hosted databases.'),
+];
+
+describe('formatConversationHistory', () => {
+  it('labels speakers, drops system messages and collapses whitespace', () => {
+    const transcript = formatConversationHistory([
+      message('system', 'You are helpful.'),
+      message('user', 'Hello\n\n  there'),
+      message('assistant', 'Hi!'),
+    ]);
+
+    expect(transcript).toBe('User: Hello there\nAssistant: Hi!');
+  });
+
+  it('cuts long messages', () => {
+    const transcript = formatConversationHistory([message('assistant', 'x'.repeat(800))]);
+
+    expect(transcript).toBe(`Assistant: ${'x'.repeat(500)}...`);
+  });
+});
+
+describe('QueryRewriter', () => {
+  const rewriter = new QueryRewriter();
+
+  beforeEach(() => {
+    mockGenerateText.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the first question of a session without calling the model', async () => {
+    expect(await rewriter.rewrite('What does Acme Cloud offer?', [])).toBe('What does Acme Cloud offer?');
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+
+  it('sends the transcript and the question to the model', async () => {
+    mockGenerateText.mockResolvedValue('How much does Acme Cloud cost?');
+
+    expect(await rewriter.rewrite('How much does it cost?', history)).toBe('How much does Acme Cloud cost?');
+
+    const [prompt, options] = mockGenerateText.mock.calls[0];
+    expect(prompt).toContain('User: What does Acme Cloud offer?\nAssistant: Acme Cloud offers hosted databases.');
+    expect(prompt).toContain('How much does it cost?');
+    expect(options).toEqual({ temperature: 0 });
+    expect(mockIsAvailable).not.toHaveBeenCalled();
+  });
+
+  it('inserts the history and question verbatim', async () => {
+    mockGenerateText.mockResolvedValue('Did Acme Cloud prices rise by $&?');
+
+    await rewriter.rewrite("Did they rise by $&?", [message('assistant', "Prices rose by $' overnight.")]);
+
+    const [prompt] = mockGenerateText.mock.calls[0];
+    expect(prompt).toContain("Assistant: Prices rose by $' overnight.");
+    expect(prompt).toContain('Did they rise by $&?');
+  });
+
+  it('strips fences, labels and quotes from the response', async () => {
+    mockGenerateText.mockResolvedValue('```\nRewritten query: "How much does Acme Cloud cost?"\n```');
+
+    expect(await rewriter.rewrite('How much does it cost?', history)).toBe('How much does Acme Cloud cost?');
+  });
+
+  it('keeps the original message when the model answers instead of rewriting', async () => {
+    mockGenerateText.mockResolvedValue('A'.repeat(600));
+
+    expect(await rewriter.rewrite('How much does it cost?', history)).toBe('How much does it cost?');
+  });
+
+  it('keeps the original message when the model fails', async () => {
+    mockGenerateText.mockRejectedValue(new Error('quota exceeded'));
+
+    expect(await rewriter.rewrite('How much does it cost?', history)).toBe('How much does it cost?');
+  });
+});
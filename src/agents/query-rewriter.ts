@@ -0,0 +1,80 @@
+import { QUERY_REWRITE_PROMPT } from '../config/gemini';
+import { AgentMessage } from '../models/types';
+import { serviceManager } from '../services/service-manager';
+
+// Longer messages are cut so a few long answers don't crowd out the rest of the prompt
+const MAX_HISTORY_MESSAGE_LENGTH = 500;
+// A "query" longer than this means the model answered instead of rewriting
+const MAX_REWRITTEN_QUERY_LENGTH = 500;
+
+/**
+ * Condense chat messages into a "User: ... / Assistant: ..." transcript for prompts
+ */
+export function formatConversationHistory(messages: AgentMessage[]): string {
+  return messages
+    .filter(message => message.role !== 'system')
+    .map(message => {
+      const speaker = message.role === 'user' ? 'User' : 'Assistant';
+      const content = message.content.length > MAX_HISTORY_MESSAGE_LENGTH
+        ? message.content.substring(0, MAX_HISTORY_MESSAGE_LENGTH) + '...'
+        : message.content;
+      return `${speaker}: ${content.replace(/\s+/g, ' ').trim()}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Rewrites follow-up questions into standalone search queries using the conversation history
+ */
+export class QueryRewriter {
+  /**
+   * Return a standalone version of `message`; falls back to the message itself
+   * when there is no history or the LLM call fails
+   */
+  async rewrite(message: string, history: AgentMessage[]): Promise<string> {
+    const transcript = formatConversationHistory(history);
+    if (!transcript) {
+      return message;
+    }
+
+    try {
+      const llmService = serviceManager.getLLMService();
+      const prompt = QUERY_REWRITE_PROMPT
+        .replace('{history}', () => transcript)
+        .replace('{question}', () => message);
+      const response = await llmService.generateText(prompt, { temperature: 0 });
+
+      const rewritten = this.parseQuery(response);
+      if (!rewritten || rewritten.length > MAX_REWRITTEN_QUERY_LENGTH) {
+        console.warn('⚠️ Query rewrite returned an unusable query, searching with the original message');
+        return message;
+      }
+
+      if (rewritten !== message) {
+        console.log(`✏️ Rewrote query: "${message}" → "${rewritten}"`);
+      }
+      return rewritten;
+    } catch (error) {
+      console.warn('⚠️ Query rewrite failed, searching with the original message:', error);
+      return message;
+    }
+  }
+
+  /**
+   * Take the first line of the response, without fences, labels or surrounding quotes
+   */
+  private parseQuery(response: string): string {
+    const line = response
+      .replace(/```[a-z]*\n?/gi, '')
+      .split('\n')
+      .map(text => text.trim())
+      .find(text => text.length > 0) || '';
+
+    return line
+      .replace(/^(rewritten query|standalone query|query)\s*:\s*/i, '')
+      .replace(/^["'“”]+|["'“”]+$/g, '')
+      .trim();
+  }
+}
+
+export default QueryRewriter;
@@ -0,0 +1,87 @@
+import { MockProvider } from '../services/llm/mock-provider';
+import LLMService from '../services/llm-service';
+import { AnswerStreamEvent, SearchResult } from '../models/types';
+import { MemorySessionStore } from '../services/session/memory-session-store';
+import { SimpleAgent } from './simple-agent';
+
+const mockProvider = new MockProvider({ defaultResponse: 'Solar panels convert sunlight into electricity [1].' });
+const mockSearch = jest.fn();
+
+jest.mock('../services/service-manager', () => ({
+  serviceManager: { getLLMService: () => new LLMService(mockProvider) },
+}));
+jest.mock('../search/unified-search', () => ({
+  UnifiedSearch: { getInstance: () => ({ search: mockSearch }) },
+}));
+
+const results: SearchResult[] = [
+  { content: 'Solar panels convert sunlight into electricity.', source: 'solar.txt', score: 0.9, metadata: { chunkId: 'c1' } },
+];
+
+async function collect(stream: AsyncGenerator<AnswerStreamEvent>): Promise<AnswerStreamEvent[]> {
+  const events: AnswerStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('SimpleAgent.streamQueryEvents', () => {
+  let store: MemorySessionStore;
+  let agent: SimpleAgent;
+
+  beforeEach(() => {
+    mockSearch.mockReset().mockResolvedValue(results);
+    mockProvider.calls.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    store = new MemorySessionStore(60_000);
+    agent = new SimpleAgent(store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('streams the answer and records both turns', async () => {
+    const isAvailable = jest.spyOn(mockProvider, 'isAvailable');
+
+    const events = await collect(agent.streamQueryEvents('s1', 'How do solar panels work?'));
+
+    const answer = events.flatMap(event => event.type === 'token' ? [event.content] : []).join('');
+    expect(answer).toBe('Solar panels convert sunlight into electricity [1].');
+    expect(events[events.length - 1]).toEqual(expect.objectContaining({ type: 'references', references: ['c1'] }));
+    const session = await store.getSession('s1');
+    expect(session?.messages.map(message => [message.role, message.content])).toEqual([
+      ['user', 'How do solar panels work?'],
+      ['assistant', answer],
+    ]);
+    expect(isAvailable).not.toHaveBeenCalled();
+  });
+
+  it('answers from the search results when the model fails before the first token', async () => {
+    jest.spyOn(mockProvider, 'stream').mockImplementation(async function* () {
+      throw new Error('quota exceeded');
+    });
+
+    const events = await collect(agent.streamQueryEvents('s1', 'How do solar panels work?'));
+
+    const tokens = events.filter(event => event.type === 'token');
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].type === 'token' && tokens[0].content).toContain('**Source**: solar.txt');
+    const session = await store.getSession('s1');
+    expect(session?.messages.map(message => message.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('fails without recording an answer when the model fails mid-stream', async () => {
+    jest.spyOn(mockProvider, 'stream').mockImplementation(async function* () {
+      yield 'Solar ';
+      throw new Error('connection reset');
+    });
+
+    await expect(collect(agent.streamQueryEvents('s1', 'How do solar panels work?'))).rejects.toThrow('connection reset');
+
+    const session = await store.getSession('s1');
+    expect(session?.messages.map(message => message.role)).toEqual(['user']);
+  });
+});
@@ -1,14 +1,18 @@
 import BaseAgent from './base-agent';
-import { AgentSession } from '../models/types';
+import { AgentReply, AgentSession, AnswerStreamEvent } from '../models/types';
 import { serviceManager } from '../services/service-manager';
+import LLMService from '../services/llm-service';
+import { LLMModelInfo } from '../services/llm/llm-provider';
+import { SessionStore } from '../services/session';
+import { extractCitations, getCitedChunkIds } from '../services/citations';
 
 export class SimpleAgent extends BaseAgent {
-  private geminiService: any;
+  private llmService: LLMService;
 
-  constructor() {
-    super();
-    // Use ServiceManager to get GeminiService instance
-    this.geminiService = serviceManager.getGeminiService();
+  constructor(sessionStore: SessionStore) {
+    super(sessionStore);
+    // Use ServiceManager to get the LLMService for the configured provider
+    this.llmService = serviceManager.getLLMService();
   }
 
   /**
@@ -25,23 +29,17 @@ export class SimpleAgent extends BaseAgent {
         return 'Sorry, I could not find information related to your query. Please try using other keywords or provide more details.';
       }
 
-      // Validate Gemini API key
-      const isApiValid = await this.geminiService.validateApiKey();
-      if (!isApiValid) {
-        console.warn('⚠️ Gemini API key invalid, using fallback answer generation');
-        return this.generateFallbackAnswer(query, searchResults);
-      }
-
-      // Use Gemini to generate AI answer
+      // Use the LLM to generate AI answer
       const answerRequest = {
         question: query,
         searchResults: searchResults,
-        responseType: 'concise'
+        responseType: 'concise',
+        history: this.getHistoryContext(session, query)
       };
 
-      const aiResponse = await this.geminiService.generateAnswer(answerRequest);
+      const aiResponse = await this.llmService.generateAnswer(answerRequest);
       
-      console.log(`🤖 Gemini answer generation successful, used ${aiResponse.metadata.tokensUsed} tokens, took ${aiResponse.metadata.processingTime}ms`);
+      console.log(`🤖 LLM answer generation successful, used ${aiResponse.metadata.tokensUsed} tokens, took ${aiResponse.metadata.processingTime}ms`);
       
       return aiResponse.answer;
       
@@ -52,82 +50,101 @@ export class SimpleAgent extends BaseAgent {
   }
 
   /**
-   * Generate streaming AI answer
+   * Answer a message as a stream of events: search, sources, tokens and references.
+   * Both turns are recorded in the session unless the client cancels.
    */
-  async generateStreamAnswer(
-    query: string, 
-    searchResults: any[], 
-    session: AgentSession
-  ): Promise<AsyncGenerator<string>> {
-    try {
-      // If no search results, return default message
-      if (searchResults.length === 0) {
-        const generator = async function* () {
-          yield 'Sorry, I could not find information related to your query. Please try using other keywords or provide more details.';
-        };
-        return generator();
-      }
-
-      // Validate Gemini API key
-      const isApiValid = await this.geminiService.validateApiKey();
-      if (!isApiValid) {
-        console.warn('⚠️ Gemini API key invalid, using fallback answer generation');
-        const self = this;
-        const generator = async function* () {
-          yield self.generateFallbackAnswer(query, searchResults);
-        };
-        return generator();
+  async *streamQueryEvents(
+    sessionId: string,
+    message: string,
+    options: { strategy?: string; signal?: AbortSignal } = {}
+  ): AsyncGenerator<AnswerStreamEvent> {
+    const strategy = options.strategy || 'hybrid-vector-heavy';
+    const session = await this.getOrCreateSession(sessionId);
+    const rewrittenQuery = await this.rewriteQuery(session, message);
+    await this.addMessage(session, 'user', message);
+
+    yield { type: 'search_started', query: message, strategy, rewrittenQuery };
+    const searchResults = await this.unifiedSearch.search({ query: rewrittenQuery, limit: 5 }, { strategy });
+    yield { type: 'sources', sources: searchResults };
+
+    let answer = '';
+    if (searchResults.length === 0) {
+      answer = 'Sorry, I could not find information related to your query. Please try using other keywords or provide more details.';
+      yield { type: 'token', content: answer };
+    } else {
+      try {
+        for await (const content of this.llmService.streamAnswer({
+          question: message,
+          searchResults,
+          responseType: 'concise',
+          history: this.getHistoryContext(session, message)
+        }, { signal: options.signal })) {
+          answer += content;
+          yield { type: 'token', content };
+        }
+      } catch (error) {
+        // Once tokens were sent the answer can't be replaced, so the failure is reported instead
+        if (answer || options.signal?.aborted) throw error;
+        console.warn('⚠️ LLM answer generation failed, using fallback answer generation:', error);
+        answer = this.generateFallbackAnswer(message, searchResults);
+        yield { type: 'token', content: answer };
       }
-
-      // Use Gemini to generate streaming AI answer
-      const answerRequest = {
-        question: query,
-        searchResults: searchResults,
-        responseType: 'concise'
-      };
-
-      return this.geminiService.generateStreamAnswer(answerRequest);
-      
-    } catch (error) {
-      console.error('❌ Streaming AI answer generation failed, using fallback method:', error);
-      const self = this;
-      const generator = async function* () {
-        yield self.generateFallbackAnswer(query, searchResults);
-      };
-      return generator();
     }
+
+    if (options.signal?.aborted) return;
+
+    const cleanAnswer = this.llmService.cleanAnswer(answer);
+    const citations = extractCitations(cleanAnswer, searchResults);
+    yield { type: 'references', references: getCitedChunkIds(citations), citations };
+    await this.addMessage(
+      session,
+      'assistant',
+      cleanAnswer,
+      this.getCitedChunkIds(searchResults, citations)
+    );
   }
 
   /**
    * Process query with existing search results (avoid duplicate search)
    */
-  async processQueryWithResults(sessionId: string, message: string, existingResults?: any[]): Promise<string> {
+  async processQueryWithResults(sessionId: string, message: string, existingResults?: any[]): Promise<AgentReply> {
+    let rewrittenQuery = message;
     try {
       // Get or create session
-      const session = this.getOrCreateSession(sessionId);
+      const session = await this.getOrCreateSession(sessionId);
+      
+      // Existing results were searched by the caller; only a new search needs the rewrite
+      if (!existingResults || existingResults.length === 0) {
+        rewrittenQuery = await this.rewriteQuery(session, message);
+      }
       
       // Add user message
-      this.addMessage(session, 'user', message);
+      await this.addMessage(session, 'user', message);
       
       // Use existing results if available, otherwise perform smart search
-      const searchResults = await this.smartSearchWithResults(message, existingResults);
+      const searchResults = await this.smartSearchWithResults(rewrittenQuery, existingResults);
       
       // Generate answer
       const answer = await this.generateAnswer(message, searchResults, session);
+      const citations = extractCitations(answer, searchResults);
       
       // Add assistant message
-      this.addMessage(session, 'assistant', answer);
+      await this.addMessage(session, 'assistant', answer, this.getCitedChunkIds(searchResults, citations));
       
-      return answer;
+      return { answer, rewrittenQuery, citations };
       
     } catch (error) {
       console.error('❌ Query processing failed:', error);
-      return 'Sorry, an error occurred while processing your query. Please try again later.';
+      return {
+        answer: 'Sorry, an error occurred while processing your query. Please try again later.',
+        rewrittenQuery,
+        citations: [],
+      };
     }
   }
 
   /**
-   * Fallback answer generation method (when Gemini is unavailable)
+   * Fallback answer generation method (when the LLM is unavailable)
    */
   private generateFallbackAnswer(query: string, searchResults: any[]): string {
     let answer = `Based on search results, I found the following relevant information:\n\n`;
@@ -191,16 +208,16 @@ export class SimpleAgent extends BaseAgent {
   }
 
   /**
-   * Get Gemini service status
+   * Get LLM provider status
    */
-  async getGeminiStatus(): Promise<{
+  async getLLMStatus(): Promise<{
     isAvailable: boolean;
-    modelInfo: any;
+    modelInfo: LLMModelInfo | null;
     lastError?: string;
   }> {
     try {
-      const isAvailable = await this.geminiService.validateApiKey();
-      const modelInfo = this.geminiService.getModelInfo();
+      const isAvailable = await this.llmService.isAvailable();
+      const modelInfo = this.llmService.getModelInfo();
       
       return {
         isAvailable,
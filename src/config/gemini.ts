@@ -1,9 +1,3 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { getGeminiConfig } from './unified-config';
-
-// Initialize Gemini client
-export const geminiClient = new GoogleGenerativeAI(getGeminiConfig().apiKey);
-
 // Prompt template
 export const ANSWER_GENERATION_PROMPT = `
 ---Role--- 
@@ -17,23 +11,14 @@ Based on the content of retrieved document fragments, generate a reply of the re
 - For information not found in the retrieved document fragments, directly answer "I don't know."
 - The final reply should remove all irrelevant information from the document fragments and merge relevant information into a comprehensive answer that explains all key points and their meaning, and meets the required length and format.
 - According to the required length and format, divide the reply into appropriate sections and paragraphs, and use markdown syntax to mark the reply style.
-- If the reply references data from document fragments, use the original document fragment's id as the ID.
-- **Do not list more than 5 reference record IDs in one reference**. Instead, list the top 5 most relevant reference record IDs.
+- Every document fragment is numbered like [1]. After each sentence that uses information from fragments, add the numbers of those fragments as inline markers, for example "Acme offers recycling services [1][3]."
+- Only use the numbers of the fragments listed below, and do not cite more than 5 fragments in one sentence.
 - Do not include information without supporting evidence.
 
 ---Reply Length and Format--- 
 - The reply should be concise and clear, with key points highlighted
 - According to the required length and format, divide the reply into appropriate sections and paragraphs, and use markdown syntax to mark the reply style.
-- Output data references at the end of the reply, as a separate paragraph.
-
-Output reference data format:
-
-### Reference Data
-{{'data': {{'Chunks':[comma-separated id list] }} }}
-
-Example:
-### Reference Data
-{{'data': {{'Chunks':['chunk_id_1','chunk_id_2'] }} }}
+- Do not add a separate reference list at the end; the inline markers are the references.
 `;
 
 // Streaming answer prompt template
@@ -49,13 +34,212 @@ Please generate a coherent and accurate answer based on the content of retrieved
 - For unknown information, directly say "I don't know"
 - Integrate relevant information into a coherent answer
 - Use markdown format to organize content
-- Provide reference data at the end of the answer
+- After each sentence that uses information from fragments, add the fragment numbers as inline markers, for example "Acme offers recycling services [1][3]."
+- Only cite the numbered fragments below, and do not add a separate reference list
 
----User Question---
+{history}---User Question---
 {question}
 
 ---Retrieved Document Fragments---
 {context}
 
 Please generate the answer:
-`; 
\ No newline at end of file
+`; 
+// Entity and relationship extraction prompt template
+export const ENTITY_EXTRACTION_PROMPT = `
+---Role---
+You are an information extraction assistant that turns text into a knowledge graph.
+
+---Task Description---
+Identify all entities of the allowed types in the text below, and all relationships between those entities that the text clearly states.
+
+---Extraction Requirements---
+- Allowed entity types: {entity_types}
+- Extract at most {max_entities} entities.
+- Use the entity name as it appears in the text, in its most complete form.
+- Give every entity a short description based only on the text.
+- Only create relationships between entities you extracted.
+- Relationship types must be short verbs or verb phrases in UPPER_SNAKE_CASE, for example OFFERS, LOCATED_IN, PART_OF.
+- Give every relationship a short description and a strength between 1 and 10.
+- Do not invent information that is not in the text.
+
+---Output Format---
+Return only JSON, without markdown fences, in this format:
+{"entities":[{"name":"...","type":"...","description":"..."}],"relationships":[{"source":"...","target":"...","type":"...","description":"...","strength":5}]}
+
+---Text---
+{text}
+`;
+
+// Community report prompt template
+export const COMMUNITY_REPORT_PROMPT = `
+---Role---
+You are an analyst summarizing a community of related entities in a knowledge graph.
+
+---Task Description---
+Write a report about the community described below: what connects its entities, which entities are most important, and what the community is about as a whole.
+
+---Report Requirements---
+- Base the report only on the entities, relationships and sub-community summaries below.
+- The title should be short and name the most important entities or the shared theme.
+- The summary should be one or two paragraphs.
+- The rank is a number between 0 and 10 that rates how important and informative this community is for understanding the whole corpus.
+
+---Output Format---
+Return only JSON, without markdown fences, in this format:
+{"title":"...","summary":"...","rank":5}
+
+---Entities---
+{entities}
+
+---Relationships---
+{relationships}
+
+---Sub-communities---
+{sub_communities}
+`;
+
+// Global search map prompt template
+export const GLOBAL_MAP_PROMPT = `
+---Role---
+You are a helpful assistant answering questions about a whole document collection using community reports.
+
+---Task Description---
+Based on the community reports below, list the key points that help answer the user's question.
+
+---Answer Requirements---
+- Only use information from the community reports.
+- Every key point should be a complete, self-contained statement.
+- Give every key point an importance score between 0 and 100 for answering the question.
+- If the reports contain nothing relevant, return an empty list.
+
+---Output Format---
+Return only JSON, without markdown fences, in this format:
+{"points":[{"description":"...","score":80}]}
+
+---User Question---
+{question}
+
+---Community Reports---
+{reports}
+`;
+
+// Global search reduce prompt template
+export const GLOBAL_REDUCE_PROMPT = `
+---Role---
+You are a helpful assistant answering questions about a whole document collection.
+
+---Task Description---
+Combine the key points below, collected from analysts who each read part of the collection, into one comprehensive answer to the user's question.
+
+---Answer Requirements---
+- Only use information from the key points, which are ordered by importance.
+- Merge overlapping points and remove irrelevant ones.
+- If the key points do not answer the question, directly answer "I don't know."
+- Use markdown sections and paragraphs to organize the answer.
+
+---User Question---
+{question}
+
+---Key Points---
+{points}
+
+Please generate the answer:
+`;
+
+// Follow-up question rewriting prompt template
+export const QUERY_REWRITE_PROMPT = `
+---Role---
+You are a search assistant that turns follow-up questions into standalone search queries.
+
+---Task Description---
+Rewrite the latest user question so that it can be understood without the conversation history.
+
+---Rewrite Requirements---
+- Replace pronouns and vague references ("it", "they", "that service") with the names they refer to in the history.
+- Keep the meaning and language of the latest question, and do not answer it.
+- If the question is already standalone, return it unchanged.
+- Keep the query short: one sentence, no explanations.
+
+---Output Format---
+Return only the rewritten query, without quotes or markdown.
+
+---Conversation History---
+{history}
+
+---Latest Question---
+{question}
+`;
+
+// Answer grounding verification prompt template
+export const GROUNDING_VERIFICATION_PROMPT = `
+---Role---
+You are a strict fact checker verifying that an answer is supported by its source fragments.
+
+---Task Description---
+For every numbered claim below, decide whether the document fragments state or directly imply it.
+
+---Verification Requirements---
+- A claim is supported only if the fragments contain the information; general knowledge does not count.
+- A claim that is only partly supported, or that changes numbers, names or dates, is not supported.
+- List the numbers of the fragments that support each supported claim.
+- Give a short reason for every verdict.
+
+---Output Format---
+Return only JSON, without markdown fences, in this format:
+{"claims":[{"index":1,"supported":true,"fragments":[2],"reason":"..."}]}
+
+---Document Fragments---
+{context}
+
+---Claims---
+{claims}
+`;
+
+// Listwise reranking prompt template
+export const RERANK_PROMPT = `
+---Role---
+You are a search relevance judge ranking document passages for a search query.
+
+---Task Description---
+Order the numbered passages below from most to least useful for answering the query.
+
+---Ranking Requirements---
+- Rank by how directly a passage answers the query, not by how many query words it repeats.
+- Passages that only mention the topic in passing rank below passages that explain it.
+- Include every passage number exactly once.
+
+---Output Format---
+Return only JSON, without markdown fences, in this format:
+{"ranking":[3,1,2]}
+
+---Query---
+{query}
+
+---Passages---
+{passages}
+`;
+
+// Cross-lingual query translation prompt template
+export const QUERY_TRANSLATION_PROMPT = `
+---Role---
+You are a search assistant translating search queries for a multilingual document collection.
+
+---Task Description---
+Translate the search query into each of the target languages listed below.
+
+---Translation Requirements---
+- Translate the meaning, using the terms a document in the target language would use.
+- Keep product names, company names, codes and numbers unchanged.
+- Do not answer the query or add explanations.
+
+---Output Format---
+Return only JSON, without markdown fences, mapping each target language code to its translation:
+{"translations":{"de":"...","en":"..."}}
+
+---Target Languages---
+{languages}
+
+---Query---
+{query}
+`;
@@ -12,11 +12,25 @@ export interface GeminiConfig {
   timeout: number;
 }
 
+// Chat/LLM provider configuration
+export interface LLMConfig {
+  provider: string;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  temperature: number;
+  maxOutputTokens: number;
+  timeout: number;
+  mockScriptPath?: string;
+}
+
 // Embedding configuration
 export interface EmbeddingConfig {
+  provider: string;
   apiKey: string;
   model: string;
   baseURL?: string;
+  dimensions?: number;
   timeout: number;
   retryAttempts: number;
   retryDelay: number;
@@ -48,9 +62,17 @@ export interface DocumentProcessingConfig {
   supportedFormats: string[];
   chunkSize: number;
   overlap: number;
+  chunkSizeUnit: 'characters' | 'tokens';  // Unit of chunkSize and overlap
+  tokenizer: string;                       // Tokenizer for token-sized chunks and stored token counts
+  chunkingMode: 'standard' | 'semantic';   // semantic: split where the topic of consecutive sentences shifts
+  semanticBreakpointPercentile: number;    // Adjacent sentence similarities below this percentile are breakpoints
+  semanticMinChunkSize: number;            // Smallest semantic chunk (0: a quarter of chunkSize)
   maxTextLength: number;
   preserveSentences: boolean;
   multilingualSupport: boolean;
+  markdownChunking: boolean;  // Chunk Markdown along headings, tables and code blocks
+  jsonTextFields: string[];      // JSON keys that form the chunk text (empty: all keys except metadata)
+  jsonMetadataFields: string[];  // JSON keys stored as filterable chunk properties
 }
 
 // Batch processing configuration
@@ -60,6 +82,48 @@ export interface BatchConfig {
   timeout: number;
 }
 
+// Entity extraction configuration
+export interface EntityExtractionConfig {
+  enabled: boolean;
+  entityTypes: string[];
+  maxEntitiesPerChunk: number;
+  concurrency: number;
+}
+
+// Community detection configuration
+export interface CommunityConfig {
+  resolution: number;
+  maxLevels: number;
+  minCommunitySize: number;
+  maxEntitiesInSummary: number;
+  concurrency: number;
+}
+
+// Chat session storage configuration
+export interface SessionConfig {
+  store: string;           // 'memory' or 'neo4j'
+  ttl: number;             // Idle time in ms after which a session expires
+  cleanupInterval: number; // How often expired sessions are purged, in ms
+  historyMessages: number; // Recent messages used for query rewriting and answer context
+  rewriteQueries: boolean; // Rewrite follow-up questions into standalone search queries
+}
+
+// Text retrieval configuration
+export interface SearchConfig {
+  fulltextAnalyzers: string[]; // Lucene analyzers; one FULLTEXT index is created per analyzer
+  crossLingual: boolean;       // Translate queries into the corpus languages by default
+  corpusLanguages: string[];   // Languages to translate into; empty = languages detected on stored chunks
+}
+
+// Answer grounding verification configuration
+export interface GroundingConfig {
+  enabled: boolean;             // Verify QA answers by default
+  method: 'llm' | 'lexical';    // LLM judge, or word overlap with the retrieved chunks
+  supportThreshold: number;     // Minimum lexical overlap (0-1) for a claim to count as supported
+  maxUnsupportedRatio: number;  // Regenerate when a larger share of claims is unsupported
+  regenerate: boolean;          // Regenerate the answer once when too many claims are unsupported
+}
+
 // Service configuration
 export interface ServiceConfig {
   enableGemini: boolean;
@@ -81,11 +145,31 @@ function loadConfig() {
     timeout: parseInt(process.env.GEMINI_TIMEOUT || '30000'),
   };
 
+  // Chat/LLM provider configuration
+  const llmProvider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const llmConfig: LLMConfig = {
+    provider: llmProvider,
+    apiKey: process.env.LLM_API_KEY
+      || (llmProvider === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY)
+      || '',
+    model: process.env.LLM_MODEL || (llmProvider === 'openai' ? 'gpt-4o-mini' : geminiConfig.model),
+    baseURL: process.env.LLM_BASE_URL,
+    temperature: parseFloat(process.env.LLM_TEMPERATURE || String(geminiConfig.temperature)),
+    maxOutputTokens: parseInt(process.env.LLM_MAX_OUTPUT_TOKENS || String(geminiConfig.maxOutputTokens)),
+    timeout: parseInt(process.env.LLM_TIMEOUT || String(geminiConfig.timeout)),
+    mockScriptPath: process.env.LLM_MOCK_SCRIPT,
+  };
+
   // Embedding configuration
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || 'gemini').toLowerCase();
   const embeddingConfig: EmbeddingConfig = {
-    apiKey: process.env.GEMINI_API_KEY || '',
-    model: process.env.EMBEDDING_MODEL || 'embedding-001',
+    provider: embeddingProvider,
+    apiKey: process.env.EMBEDDING_API_KEY
+      || (embeddingProvider === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY)
+      || '',
+    model: process.env.EMBEDDING_MODEL || (embeddingProvider === 'openai' ? 'text-embedding-3-small' : 'embedding-001'),
     baseURL: process.env.EMBEDDING_BASE_URL,
+    dimensions: process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS) : undefined,
     timeout: parseInt(process.env.EMBEDDING_TIMEOUT || '30000'),
     retryAttempts: parseInt(process.env.EMBEDDING_RETRY_ATTEMPTS || '3'),
     retryDelay: parseInt(process.env.EMBEDDING_RETRY_DELAY || '1000'),
@@ -114,12 +198,26 @@ function loadConfig() {
   // Document processing configuration
   const documentProcessingConfig: DocumentProcessingConfig = {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
-    supportedFormats: (process.env.SUPPORTED_FORMATS || 'txt,md,pdf,docx').split(','),
+    supportedFormats: (process.env.SUPPORTED_FORMATS || 'txt,md,json,pdf,docx').split(','),
     chunkSize: parseInt(process.env.CHUNK_SIZE || '1000'),
     overlap: parseInt(process.env.CHUNK_OVERLAP || '200'),
+    chunkSizeUnit: process.env.CHUNK_SIZE_UNIT === 'tokens' ? 'tokens' : 'characters',
+    tokenizer: process.env.TOKENIZER || 'cl100k_base',
+    chunkingMode: process.env.CHUNKING_MODE === 'semantic' ? 'semantic' : 'standard',
+    semanticBreakpointPercentile: parseFloat(process.env.SEMANTIC_BREAKPOINT_PERCENTILE || '10'),
+    semanticMinChunkSize: parseInt(process.env.SEMANTIC_MIN_CHUNK_SIZE || '0'),
     maxTextLength: parseInt(process.env.MAX_TEXT_LENGTH || '1000000'), // 1MB
     preserveSentences: process.env.PRESERVE_SENTENCES !== 'false',
     multilingualSupport: process.env.MULTILINGUAL_SUPPORT === 'true',
+    markdownChunking: process.env.MARKDOWN_CHUNKING !== 'false',
+    jsonTextFields: (process.env.JSON_TEXT_FIELDS || '')
+      .split(',')
+      .map(field => field.trim())
+      .filter(field => field.length > 0),
+    jsonMetadataFields: (process.env.JSON_METADATA_FIELDS || '')
+      .split(',')
+      .map(field => field.trim())
+      .filter(field => field.length > 0),
   };
 
   // Batch processing configuration
@@ -129,6 +227,57 @@ function loadConfig() {
     timeout: parseInt(process.env.BATCH_TIMEOUT || '300000'), // 5 minutes
   };
 
+  // Entity extraction configuration; opt-in because it costs one LLM call per new chunk
+  const entityExtractionConfig: EntityExtractionConfig = {
+    enabled: process.env.ENABLE_ENTITY_EXTRACTION === 'true',
+    entityTypes: (process.env.ENTITY_TYPES || 'organization,person,product,service,technology,location,regulation,metric,concept')
+      .split(',')
+      .map(type => type.trim())
+      .filter(type => type.length > 0),
+    maxEntitiesPerChunk: parseInt(process.env.MAX_ENTITIES_PER_CHUNK || '20'),
+    concurrency: parseInt(process.env.ENTITY_EXTRACTION_CONCURRENCY || '4'),
+  };
+
+  // Community detection configuration
+  const communityConfig: CommunityConfig = {
+    resolution: parseFloat(process.env.COMMUNITY_RESOLUTION || '1.0'),
+    maxLevels: parseInt(process.env.COMMUNITY_MAX_LEVELS || '3'),
+    minCommunitySize: parseInt(process.env.COMMUNITY_MIN_SIZE || '2'),
+    maxEntitiesInSummary: parseInt(process.env.COMMUNITY_MAX_ENTITIES_IN_SUMMARY || '50'),
+    concurrency: parseInt(process.env.COMMUNITY_SUMMARY_CONCURRENCY || '4'),
+  };
+
+  // Chat session storage configuration
+  const sessionConfig: SessionConfig = {
+    store: (process.env.SESSION_STORE || 'neo4j').toLowerCase(),
+    ttl: parseInt(process.env.SESSION_TTL || '604800000'), // 7 days
+    cleanupInterval: parseInt(process.env.SESSION_CLEANUP_INTERVAL || '3600000'), // 1 hour
+    historyMessages: parseInt(process.env.CHAT_HISTORY_MESSAGES || '6'),
+    rewriteQueries: process.env.CHAT_QUERY_REWRITE !== 'false',
+  };
+
+  // Text retrieval configuration
+  const searchConfig: SearchConfig = {
+    fulltextAnalyzers: (process.env.FULLTEXT_ANALYZERS || 'english,german')
+      .split(',')
+      .map(analyzer => analyzer.trim().toLowerCase())
+      .filter(analyzer => analyzer.length > 0),
+    crossLingual: process.env.CROSS_LINGUAL_SEARCH === 'true',
+    corpusLanguages: (process.env.CORPUS_LANGUAGES || '')
+      .split(',')
+      .map(language => language.trim().toLowerCase())
+      .filter(language => language.length > 0),
+  };
+
+  // Answer grounding verification configuration
+  const groundingConfig: GroundingConfig = {
+    enabled: process.env.GROUNDING_VERIFICATION === 'true',
+    method: process.env.GROUNDING_METHOD === 'lexical' ? 'lexical' : 'llm',
+    supportThreshold: parseFloat(process.env.GROUNDING_SUPPORT_THRESHOLD || '0.6'),
+    maxUnsupportedRatio: parseFloat(process.env.GROUNDING_MAX_UNSUPPORTED_RATIO || '0.3'),
+    regenerate: process.env.GROUNDING_REGENERATE === 'true',
+  };
+
   // Service configuration
   const serviceConfig: ServiceConfig = {
     enableGemini: process.env.ENABLE_GEMINI !== 'false',
@@ -139,11 +288,17 @@ function loadConfig() {
 
   return {
     gemini: geminiConfig,
+    llm: llmConfig,
     embedding: embeddingConfig,
     neo4j: neo4jConfig,
     app: appConfig,
     documentProcessing: documentProcessingConfig,
     batch: batchConfig,
+    entityExtraction: entityExtractionConfig,
+    community: communityConfig,
+    session: sessionConfig,
+    search: searchConfig,
+    grounding: groundingConfig,
     service: serviceConfig,
   };
 }
@@ -152,11 +307,17 @@ function loadConfig() {
 export const config = loadConfig();
 
 export const getGeminiConfig = () => config.gemini;
+export const getLLMConfig = () => config.llm;
 export const getEmbeddingConfig = () => config.embedding;
 export const getNeo4jConfig = () => config.neo4j;
 export const getAppConfig = () => config.app;
 export const getDocumentProcessingConfig = () => config.documentProcessing;
 export const getBatchConfig = () => config.batch;
+export const getEntityExtractionConfig = () => config.entityExtraction;
+export const getCommunityConfig = () => config.community;
+export const getSessionConfig = () => config.session;
+export const getSearchConfig = () => config.search;
+export const getGroundingConfig = () => config.grounding;
 export const getServiceConfig = () => config.service;
 
 export default config; 
\ No newline at end of file
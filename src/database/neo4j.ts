@@ -1,5 +1,5 @@
 import neo4j, { Driver, Session, Transaction, QueryResult } from 'neo4j-driver';
-import { getNeo4jConfig } from '../config/unified-config';
+import { getNeo4jConfig, getSearchConfig } from '../config/unified-config';
 
 export interface Neo4jConfig {
   uri: string;
@@ -11,6 +11,17 @@ export interface Neo4jConfig {
   maxTransactionRetryTime: number;
 }
 
+// Vector index names
+export const CHUNK_VECTOR_INDEX = 'chunk_embedding_index';
+export const ENTITY_VECTOR_INDEX = 'entity_embedding_index';
+
+// Full-text indexes over __Chunk__.text and __Document__.title, one per analyzer
+export const FULLTEXT_INDEX_PREFIX = 'text_fulltext_';
+
+export function fulltextIndexName(analyzer: string): string {
+  return FULLTEXT_INDEX_PREFIX + analyzer.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
 export class Neo4jManager {
   private driver: Driver | null = null;
   private config: Neo4jConfig;
@@ -103,6 +114,27 @@ export class Neo4jManager {
     }
   }
 
+  /**
+   * Run several write queries in one transaction; `run` returns `record.toObject()` rows like executeQuery.
+   * Nothing is committed if `work` throws, and transient errors are retried by the driver.
+   */
+  async executeWriteTransaction<T>(
+    work: (run: (query: string, parameters?: any) => Promise<any[]>) => Promise<T>
+  ): Promise<T> {
+    if (!this.driver) {
+      throw new Error('Neo4j driver not initialized');
+    }
+
+    const session = this.driver.session();
+    try {
+      return await session.executeWrite(tx => work(
+        async (query, parameters = {}) => (await tx.run(query, parameters)).records.map(record => record.toObject())
+      ));
+    } finally {
+      await session.close();
+    }
+  }
+
   async createConstraints(): Promise<void> {
     try {
       console.log('⏳ Creating Neo4j constraints...');
@@ -110,7 +142,9 @@ export class Neo4jManager {
       const constraints = [
         'CREATE CONSTRAINT chunk_id_unique IF NOT EXISTS FOR (c:__Chunk__) REQUIRE c.id IS UNIQUE',
         'CREATE CONSTRAINT document_filename_unique IF NOT EXISTS FOR (d:__Document__) REQUIRE d.fileName IS UNIQUE',
-        'CREATE CONSTRAINT chunk_position_unique IF NOT EXISTS FOR (c:__Chunk__) REQUIRE (c.file_name, c.position) IS UNIQUE'
+        'CREATE CONSTRAINT chunk_position_unique IF NOT EXISTS FOR (c:__Chunk__) REQUIRE (c.file_name, c.position) IS UNIQUE',
+        'CREATE CONSTRAINT entity_id_unique IF NOT EXISTS FOR (e:__Entity__) REQUIRE e.id IS UNIQUE',
+        'CREATE CONSTRAINT community_id_unique IF NOT EXISTS FOR (c:__Community__) REQUIRE c.community IS UNIQUE'
       ];
 
       for (const constraint of constraints) {
@@ -129,16 +163,34 @@ export class Neo4jManager {
     }
   }
 
-  async createIndexes(): Promise<void> {
+  async createIndexes(vectorDimensions?: number): Promise<void> {
     try {
       console.log('⏳ Creating Neo4j indexes...');
       
       const indexes = [
         'CREATE INDEX chunk_text_index IF NOT EXISTS FOR (c:__Chunk__) ON (c.text)',
         'CREATE INDEX document_filename_index IF NOT EXISTS FOR (d:__Document__) ON (d.fileName)',
-        'CREATE INDEX chunk_file_position_index IF NOT EXISTS FOR (c:__Chunk__) ON (c.fileName, c.position)'
+        'CREATE INDEX chunk_file_position_index IF NOT EXISTS FOR (c:__Chunk__) ON (c.fileName, c.position)',
+        'CREATE INDEX chunk_language_index IF NOT EXISTS FOR (c:__Chunk__) ON (c.language)',
+        'CREATE INDEX entity_name_index IF NOT EXISTS FOR (e:__Entity__) ON (e.name)',
+        'CREATE INDEX community_level_index IF NOT EXISTS FOR (c:__Community__) ON (c.level)'
       ];
 
+      // Vector indexes need the embedding dimension, which index options cannot take as a parameter
+      if (vectorDimensions && Number.isInteger(vectorDimensions) && vectorDimensions > 0) {
+        indexes.push(
+          this.buildVectorIndexQuery(CHUNK_VECTOR_INDEX, '__Chunk__', vectorDimensions),
+          this.buildVectorIndexQuery(ENTITY_VECTOR_INDEX, '__Entity__', vectorDimensions)
+        );
+      } else {
+        console.warn('⚠️ Embedding dimension unknown, skipping vector index creation');
+      }
+
+      // The analyzer is fixed when an index is created, so mixed-language corpora get one index per language
+      for (const analyzer of getSearchConfig().fulltextAnalyzers) {
+        indexes.push(this.buildFulltextIndexQuery(analyzer));
+      }
+
       for (const index of indexes) {
         try {
           await this.executeWriteQuery(index);
@@ -155,6 +207,44 @@ export class Neo4jManager {
     }
   }
 
+  /**
+   * Check whether a vector index exists and is online
+   */
+  async hasOnlineVectorIndex(indexName: string): Promise<boolean> {
+    const results = await this.executeQuery(`
+      SHOW INDEXES YIELD name, type, state
+      WHERE name = $indexName AND type = 'VECTOR'
+      RETURN state
+    `, { indexName });
+    return results.length > 0 && results[0].state === 'ONLINE';
+  }
+
+  /**
+   * Names of the full-text indexes that are online
+   */
+  async getOnlineFulltextIndexes(): Promise<string[]> {
+    const results = await this.executeQuery(`
+      SHOW INDEXES YIELD name, type, state
+      WHERE type = 'FULLTEXT' AND state = 'ONLINE' AND name STARTS WITH $prefix
+      RETURN name
+      ORDER BY name
+    `, { prefix: FULLTEXT_INDEX_PREFIX });
+    return results.map(result => result.name);
+  }
+
+  private buildFulltextIndexQuery(analyzer: string): string {
+    // Analyzer names come from configuration and are quoted after stripping anything but identifiers
+    const safeAnalyzer = analyzer.replace(/[^a-z0-9_-]/gi, '');
+    return `CREATE FULLTEXT INDEX ${fulltextIndexName(analyzer)} IF NOT EXISTS ` +
+      `FOR (n:__Chunk__|__Document__) ON EACH [n.text, n.title] ` +
+      `OPTIONS { indexConfig: { \`fulltext.analyzer\`: '${safeAnalyzer}' } }`;
+  }
+
+  private buildVectorIndexQuery(indexName: string, label: string, dimensions: number): string {
+    return `CREATE VECTOR INDEX ${indexName} IF NOT EXISTS FOR (n:${label}) ON (n.embedding) ` +
+      `OPTIONS { indexConfig: { \`vector.dimensions\`: ${dimensions}, \`vector.similarity_function\`: 'cosine' } }`;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (!this.driver) {
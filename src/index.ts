@@ -4,7 +4,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { neo4jManager } from './database/neo4j';
-import { getAppConfig, getNeo4jConfig, getGeminiConfig } from './config/unified-config';
+import { getAppConfig, getNeo4jConfig, getLLMConfig } from './config/unified-config';
 import App from './server/app';
 
 // Configuration is automatically loaded from environment variables
@@ -16,12 +16,13 @@ async function main() {
     // Check environment variables
     console.log('🔑 Checking environment variables...');
     const appConfig = getAppConfig();
-    const geminiConfig = getGeminiConfig();
+    const llmConfig = getLLMConfig();
     
-    if (geminiConfig.apiKey) {
-      console.log('✅ Gemini API key configured');
+    console.log(`🤖 LLM provider: ${llmConfig.provider} (${llmConfig.model})`);
+    if (llmConfig.apiKey || llmConfig.provider === 'mock' || llmConfig.baseURL) {
+      console.log('✅ LLM provider configured');
     } else {
-      console.log('⚠️ Gemini API key not configured');
+      console.log(`⚠️ API key for LLM provider "${llmConfig.provider}" not configured`);
     }
     
     // Connect to Neo4j
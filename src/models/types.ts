@@ -29,9 +29,14 @@ export interface ChunkNode extends BaseNode {
                 // Additional metadata fields
     position: number;        // Position of chunk in document
     length: number;          // Length of chunk content
-    content_offset: number;  // Offset of chunk in document
+    content_offset: number | null; // Offset of the chunk in the document text; null when the chunk isn't a verbatim slice of it
     fileName: string;        // File name
     tokens: number;          // Token count
+    language?: string;       // ISO 639-1 code of the chunk text, 'und' when undetermined
+    page?: number;           // 1-based page the chunk is on (paged formats such as PDF)
+    section?: string;        // Heading path of the section the chunk is in, e.g. "Setup > Installation"
+    locator?: string;        // JSON pointer of the record the chunk comes from, e.g. "/products/3"
+    metadata?: Record<string, string | number | boolean>; // Filterable fields, stored as `meta_<field>` properties
     embedding?: number[];    // Vector embedding for similarity search
   };
 }
@@ -47,6 +52,7 @@ export interface EntityNode extends BaseNode {
     embedding?: number[];
     human_readable_id?: string;
     confidence_score?: number;
+    source_chunk_ids?: string[]; // Chunks that mention this entity
   };
 }
 
@@ -77,6 +83,7 @@ export interface ProcessedDocument {
   content: string;
   chunks: ChunkNode[];
   entity_data?: EntityNode[];
+  relationship_data?: Relationship[];
   metadata?: Record<string, any>;
 }
 
@@ -96,11 +103,62 @@ export interface SearchResult {
   metadata?: Record<string, any>;
 }
 
+// Chunk cited by an inline [n] marker in an answer
+export interface Citation {
+  marker: number;                // n of the [n] marker
+  chunkId: string;
+  fileName: string;
+  content_offset: number | null; // Offset of the chunk in its document
+  page?: number;                 // Page of the chunk, for paged formats
+  section?: string;              // Heading path of the chunk's section
+  locator?: string;              // JSON pointer of the chunk's record
+  snippet: string;               // Chunk text around the cited passage
+  snippetOffset: number;         // Offset of the snippet in the chunk text
+  highlight: { start: number; end: number }; // Cited passage, relative to the snippet
+  sentences: string[];           // Answer sentences carrying the marker
+}
+
+// Verdict on one claim of an answer
+export interface ClaimVerification {
+  claim: string;
+  supported: boolean;
+  score: number;        // Support strength between 0 and 1
+  chunkIds: string[];   // Chunks supporting the claim
+  reason?: string;      // Judge's explanation (LLM method)
+}
+
+// Result of checking an answer against the retrieved chunks
+export interface GroundingReport {
+  method: 'llm' | 'lexical';
+  claims: ClaimVerification[];
+  supportedCount: number;
+  unsupportedCount: number;
+  groundedConfidence: number; // Share of claims supported by the chunks
+  regenerated: boolean;       // The answer was regenerated once after failing verification
+}
+
+// Events of a streamed answer, shared by chat and QA streaming
+export type AnswerStreamEvent =
+  | { type: 'search_started'; query: string; strategy: string; rewrittenQuery?: string }
+  | { type: 'sources'; sources: SearchResult[] }
+  | { type: 'token'; content: string }
+  | { type: 'references'; references: string[]; citations?: Citation[]; confidence?: number }
+  | { type: 'grounding'; grounding: GroundingReport }
+  | { type: 'error'; message: string }
+  | { type: 'done'; cancelled: boolean; timings: AnswerStreamTimings };
+
+export interface AnswerStreamTimings {
+  searchTime: number;     // From search_started until sources were available
+  generationTime: number; // From sources until the last token
+  totalTime: number;
+}
+
 // Agent message
 export interface AgentMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  citedChunkIds?: string[]; // Chunks the answer was grounded on (assistant messages)
 }
 
 // Agent session
@@ -109,4 +167,11 @@ export interface AgentSession {
   messages: AgentMessage[];
   created_at: Date;
   updated_at: Date;
+}
+
+// Answer to one chat turn
+export interface AgentReply {
+  answer: string;
+  rewrittenQuery: string; // Standalone query used for retrieval
+  citations: Citation[];
 } 
\ No newline at end of file
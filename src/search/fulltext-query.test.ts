@@ -0,0 +1,94 @@
+import { neo4jManager } from '../database/neo4j';
+import { buildLuceneQuery, queryFulltextIndex } from './fulltext-query';
+
+jest.mock('../database/neo4j', () => ({
+  ...jest.requireActual('../database/neo4j'),
+  neo4jManager: {
+    executeQuery: jest.fn(),
+    getOnlineFulltextIndexes: jest.fn(),
+  },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const getOnlineFulltextIndexes = neo4jManager.getOnlineFulltextIndexes as jest.Mock;
+
+const chunkQuery = { label: '__Chunk__', properties: ['text'], query: 'solar panels', limit: 5, analyzers: ['english', 'german'] };
+
+describe('buildLuceneQuery', () => {
+  it('escapes Lucene syntax in terms', () => {
+    expect(buildLuceneQuery(['c++'])).toBe('c\\+\\+');
+  });
+
+  it('boosts the exact phrase above scattered terms', () => {
+    expect(buildLuceneQuery(['solar', 'panels'])).toBe('"solar panels"^2 solar panels');
+  });
+});
+
+describe('queryFulltextIndex', () => {
+  let now = new Date('2026-01-01T00:00:00Z').getTime();
+
+  beforeEach(() => {
+    // Move past the index status cache so every test checks the indexes again
+    now += 60 * 60 * 1000;
+    jest.useFakeTimers({ now });
+    executeQuery.mockReset();
+    getOnlineFulltextIndexes.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the best score of each node across analyzer indexes', async () => {
+    getOnlineFulltextIndexes.mockResolvedValue(['text_fulltext_english', 'text_fulltext_german']);
+    executeQuery.mockImplementation(async (_query: string, params: any) => (
+      params.indexName === 'text_fulltext_english'
+        ? [{ node: { id: 'a' }, score: 2.5 }, { node: { id: 'b' }, score: 1.0 }]
+        : [{ node: { id: 'b' }, score: 3.0 }]
+    ));
+
+    const matches = await queryFulltextIndex(chunkQuery);
+
+    expect(matches).toEqual([
+      { node: { id: 'b' }, score: 3.0, analyzer: 'german' },
+      { node: { id: 'a' }, score: 2.5, analyzer: 'english' },
+    ]);
+    expect(executeQuery.mock.calls[0][1].luceneQuery).toBe('"solar panels"^2 solar panels');
+  });
+
+  it('queries only the indexes of the requested analyzers', async () => {
+    getOnlineFulltextIndexes.mockResolvedValue(['text_fulltext_english', 'text_fulltext_german']);
+    executeQuery.mockResolvedValue([]);
+
+    await queryFulltextIndex({ ...chunkQuery, analyzers: ['german'] });
+
+    expect(executeQuery.mock.calls.map(([, params]) => params.indexName)).toEqual(['text_fulltext_german']);
+  });
+
+  it('scans for terms when no index is online', async () => {
+    getOnlineFulltextIndexes.mockResolvedValue([]);
+    executeQuery.mockResolvedValue([{ node: { id: 'a' }, score: 2 }]);
+
+    const matches = await queryFulltextIndex({ ...chunkQuery, query: 'Solar AND Panels' });
+
+    expect(matches).toEqual([{ node: { id: 'a' }, score: 2 }]);
+    expect(executeQuery.mock.calls[0][1].terms).toEqual(['solar', 'and', 'panels']);
+  });
+
+  it('scans for terms when the index query fails', async () => {
+    getOnlineFulltextIndexes.mockResolvedValue(['text_fulltext_english']);
+    executeQuery
+      .mockRejectedValueOnce(new Error('index offline'))
+      .mockResolvedValueOnce([]);
+
+    expect(await queryFulltextIndex(chunkQuery)).toEqual([]);
+    expect(executeQuery.mock.calls[1][0]).toContain('MATCH (n:__Chunk__)');
+  });
+
+  it('does not query for text without searchable terms', async () => {
+    expect(await queryFulltextIndex({ ...chunkQuery, query: ' ?* ' })).toEqual([]);
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+});
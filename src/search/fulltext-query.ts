@@ -0,0 +1,150 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager, fulltextIndexName, FULLTEXT_INDEX_PREFIX } from '../database/neo4j';
+import { getSearchConfig } from '../config/unified-config';
+import { MetadataFilter, metadataFilterCondition } from '../services/chunk-metadata';
+
+export interface FulltextQuery {
+  label: string;         // Node label to return (__Chunk__ or __Document__)
+  properties: string[];  // Properties searched by the fallback scan
+  query: string;         // User text; Lucene syntax is escaped
+  limit: number;
+  analyzers?: string[];  // Restrict to the indexes of these analyzers (default: FULLTEXT_ANALYZERS)
+  filters?: MetadataFilter[];  // Only nodes whose metadata matches every filter
+}
+
+export interface FulltextMatch {
+  node: Record<string, any>; // Node properties without the embedding
+  score: number;             // Lucene BM25 score, or occurrence count for the fallback scan
+  analyzer?: string;         // Analyzer of the index that scored the node best
+}
+
+// Index availability is cached briefly so a missing index doesn't cost a SHOW INDEXES per query
+const INDEX_STATUS_TTL = 60 * 1000;
+// Matches of the whole query as a phrase rank above matches of scattered terms
+const PHRASE_BOOST = 2;
+const LUCENE_SPECIAL_CHARACTERS = /[+\-&|!(){}[\]^"~*?:\\/]/g;
+
+let indexStatusCache: { indexes: string[]; checkedAt: number } | null = null;
+
+/**
+ * Query the per-language FULLTEXT indexes and keep each node's best score.
+ * Falls back to a case-insensitive term scan when no index is online.
+ */
+export async function queryFulltextIndex(query: FulltextQuery): Promise<FulltextMatch[]> {
+  const terms = tokenizeQuery(query.query);
+  if (terms.length === 0) return [];
+
+  // Indexes of analyzers removed from the configuration stay in the database but are not queried
+  const analyzers = query.analyzers && query.analyzers.length > 0 ? query.analyzers : getSearchConfig().fulltextAnalyzers;
+  const wanted = new Set(analyzers.map(fulltextIndexName));
+  const indexes = (await getOnlineIndexes()).filter(indexName => wanted.has(indexName));
+
+  if (indexes.length > 0) {
+    try {
+      return await queryNativeIndexes(query, indexes, buildLuceneQuery(terms));
+    } catch (error) {
+      console.warn('⚠️ Full-text index query failed, falling back to term scan:', error);
+      indexStatusCache = null;
+    }
+  } else {
+    console.warn('⚠️ No full-text index available, falling back to term scan');
+  }
+
+  return scanForTerms(query, terms);
+}
+
+/**
+ * Build a Lucene query that ORs the terms and boosts the exact phrase
+ */
+export function buildLuceneQuery(terms: string[]): string {
+  const escaped = terms.map(term => term.replace(LUCENE_SPECIAL_CHARACTERS, '\\$&'));
+  if (terms.length === 1) return escaped[0];
+
+  const phrase = terms.join(' ').replace(/["\\]/g, '\\$&');
+  return `"${phrase}"^${PHRASE_BOOST} ${escaped.join(' ')}`;
+}
+
+function tokenizeQuery(text: string): string[] {
+  return text
+    .split(/\s+/)
+    // Lowercase so AND/OR/NOT are searched as words rather than read as operators
+    .map(term => term.toLowerCase())
+    .filter(term => term.replace(LUCENE_SPECIAL_CHARACTERS, '').length > 0);
+}
+
+async function getOnlineIndexes(): Promise<string[]> {
+  if (indexStatusCache && Date.now() - indexStatusCache.checkedAt < INDEX_STATUS_TTL) {
+    return indexStatusCache.indexes;
+  }
+
+  let indexes: string[] = [];
+  try {
+    indexes = await neo4jManager.getOnlineFulltextIndexes();
+  } catch (error) {
+    console.warn('⚠️ Failed to check full-text indexes:', error);
+  }
+
+  indexStatusCache = { indexes, checkedAt: Date.now() };
+  return indexes;
+}
+
+async function queryNativeIndexes(query: FulltextQuery, indexes: string[], luceneQuery: string): Promise<FulltextMatch[]> {
+  const best = new Map<string, FulltextMatch>();
+
+  // Each index tokenizes with its own analyzer; a node keeps the score of the analyzer that fits it best
+  for (const indexName of indexes) {
+    const results = await neo4jManager.executeQuery(`
+      CALL db.index.fulltext.queryNodes($indexName, $luceneQuery)
+      YIELD node, score
+      WHERE $label IN labels(node) AND ${metadataFilterCondition('node')}
+      RETURN node {.*, embedding: null} AS node, score
+      LIMIT $limit
+    `, {
+      indexName,
+      luceneQuery,
+      label: query.label,
+      limit: neo4j.int(Math.floor(query.limit)),
+      metadataFilters: query.filters || [],
+    });
+
+    for (const result of results) {
+      const key = result.node.id ?? result.node.fileName;
+      const existing = best.get(key);
+      if (!existing || result.score > existing.score) {
+        best.set(key, {
+          node: result.node,
+          score: result.score,
+          analyzer: indexName.substring(FULLTEXT_INDEX_PREFIX.length),
+        });
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.floor(query.limit));
+}
+
+async function scanForTerms(query: FulltextQuery, terms: string[]): Promise<FulltextMatch[]> {
+  // Labels and property names cannot be parameterized; only internal constants are passed here
+  const haystack = query.properties.map(property => `coalesce(toString(n.${property}), '')`).join(` + ' ' + `);
+  const results = await neo4jManager.executeQuery(`
+    MATCH (n:${query.label})
+    WHERE ${metadataFilterCondition('n')}
+    WITH n, toLower(${haystack}) AS haystack
+    WITH n, reduce(total = 0, term IN $terms | total + size(split(haystack, term)) - 1) AS score
+    WHERE score > 0
+    RETURN n {.*, embedding: null} AS node, score
+    ORDER BY score DESC
+    LIMIT $limit
+  `, {
+    terms,
+    limit: neo4j.int(Math.floor(query.limit)),
+    metadataFilters: query.filters || [],
+  });
+
+  return results.map((result: any) => ({
+    node: result.node,
+    score: neo4j.isInt(result.score) ? result.score.toNumber() : Number(result.score),
+  }));
+}
@@ -0,0 +1,90 @@
+import neo4j from 'neo4j-driver';
+import { SearchResult } from '../models/types';
+import { DEFAULT_FUSION, calibrate, fuseResults, toScore } from './fusion';
+
+function result(chunkId: string, score: number, searchMethod = 'vector'): SearchResult {
+  return { content: `content of ${chunkId}`, source: 'doc.txt', score, metadata: { chunkId, searchMethod } };
+}
+
+describe('calibrate', () => {
+  it('maps scores onto [0, 1] with minmax', () => {
+    expect(calibrate([2, 4, 6], 'minmax')).toEqual([0, 0.5, 1]);
+  });
+
+  it('counts equal scores fully with minmax', () => {
+    expect(calibrate([3, 3], 'minmax')).toEqual([1, 1]);
+  });
+
+  it('bounds z-scores to (0, 1) and centres the mean at 0.5', () => {
+    const calibrated = calibrate([1, 2, 3], 'zscore');
+    expect(calibrated[1]).toBeCloseTo(0.5);
+    expect(calibrated[0]).toBeGreaterThan(0);
+    expect(calibrated[2]).toBeLessThan(1);
+    expect(calibrated[0] + calibrated[2]).toBeCloseTo(1);
+  });
+
+  it('clamps raw scores without calibration', () => {
+    expect(calibrate([-1, 0.4, 2], 'none')).toEqual([0, 0.4, 1]);
+  });
+
+  it('returns an empty list for no scores', () => {
+    expect(calibrate([], 'zscore')).toEqual([]);
+  });
+});
+
+describe('toScore', () => {
+  it('converts Neo4j integers and numeric strings', () => {
+    expect(toScore(neo4j.int(7))).toBe(7);
+    expect(toScore('0.25')).toBe(0.25);
+    expect(toScore('n/a')).toBe(0);
+  });
+});
+
+describe('fuseResults', () => {
+  it('scores rank 1 in every retriever as 1 with RRF', () => {
+    const fused = fuseResults({
+      vector: [result('a', 0.9), result('b', 0.8)],
+      text: [result('a', 12, 'text'), result('c', 3, 'text')],
+    }, { method: 'rrf' });
+
+    expect(fused.map(r => r.metadata!.chunkId)).toEqual(['a', 'b', 'c']);
+    expect(fused[0].score).toBeCloseTo(1);
+    expect(fused[0].metadata!.searchMethod).toBe('hybrid');
+    expect(fused[1].metadata!.searchMethod).toBe('vector');
+  });
+
+  it('explains weighted scores by contributions that add up to the fused score', () => {
+    const fused = fuseResults({
+      vector: [result('a', 0.9), result('b', 0.5)],
+      text: [result('b', 10, 'text'), result('a', 2, 'text')],
+    }, { method: 'weighted', weights: { vector: 3, text: 1 } });
+
+    expect(fused.map(r => r.metadata!.chunkId)).toEqual(['a', 'b']);
+    for (const fusedResult of fused) {
+      const { score, contributions, calibration } = fusedResult.metadata!.fusion;
+      expect(calibration).toBe('minmax');
+      expect(score).toBe(fusedResult.score);
+      expect(contributions.reduce((sum: number, entry: any) => sum + entry.contribution, 0)).toBeCloseTo(score);
+    }
+    expect(fused[0].score).toBeCloseTo(0.75);
+    expect(fused[1].score).toBeCloseTo(0.25);
+  });
+
+  it('keeps full-text scores of a single retriever apart by default', () => {
+    const fused = fuseResults({
+      text: [result('a', 7.2, 'text'), result('b', 3.1, 'text'), result('c', 1.4, 'text')],
+    }, DEFAULT_FUSION);
+
+    expect(fused.map(r => r.metadata!.chunkId)).toEqual(['a', 'b', 'c']);
+    expect(fused[0].score).toBe(1);
+    expect(fused[1].score).toBeCloseTo(1.7 / 5.8);
+    expect(fused[2].score).toBe(0);
+  });
+
+  it('keeps the best-ranked duplicate within one retriever', () => {
+    const fused = fuseResults({ vector: [result('a', 0.2), result('a', 0.9), result('b', 0.5)] }, { method: 'rrf' });
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0].metadata!.fusion.contributions[0]).toMatchObject({ rank: 1, rawScore: 0.9 });
+  });
+});
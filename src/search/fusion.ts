@@ -0,0 +1,147 @@
+import neo4j from 'neo4j-driver';
+import { SearchResult } from '../models/types';
+
+export type FusionMethod = 'rrf' | 'weighted';
+export type ScoreCalibration = 'none' | 'minmax' | 'zscore';
+
+export interface FusionOptions {
+  method: FusionMethod;
+  k?: number;                        // RRF rank constant (default 60)
+  weights?: Record<string, number>;  // Weight per retriever, e.g. { vector: 0.7, text: 0.3 } (default 1)
+  calibration?: ScoreCalibration;    // How weighted fusion makes raw scores comparable (default minmax)
+}
+
+// How much one retriever added to a fused result's score
+export interface RetrieverContribution {
+  retriever: string;
+  rank: number;            // 1-based rank in the retriever's own list
+  rawScore: number;
+  calibratedScore: number; // Score after calibration (weighted) or 1 / (k + rank) (RRF)
+  weight: number;
+  contribution: number;    // Share of the fused score; contributions add up to it
+}
+
+// Attached to every fused result as `metadata.fusion`
+export interface FusionExplanation {
+  method: FusionMethod;
+  calibration?: ScoreCalibration;
+  score: number;
+  contributions: RetrieverContribution[];
+}
+
+const DEFAULT_RRF_K = 60;
+
+// Used by strategies without fusion settings; minmax keeps unbounded scores such as BM25 apart
+export const DEFAULT_FUSION: FusionOptions = { method: 'weighted', calibration: 'minmax' };
+
+/**
+ * Merge the ranked lists of several retrievers into one list ordered by fused score.
+ * Results found by several retrievers are merged by chunk id; fused scores are in [0, 1].
+ */
+export function fuseResults(resultsByRetriever: Record<string, SearchResult[]>, options: FusionOptions): SearchResult[] {
+  const retrievers = Object.keys(resultsByRetriever);
+  const weightOf = (retriever: string) => options.weights?.[retriever] ?? 1;
+  const totalWeight = retrievers.reduce((sum, retriever) => sum + weightOf(retriever), 0) || 1;
+  const k = options.k ?? DEFAULT_RRF_K;
+  const calibration = options.calibration || 'minmax';
+
+  // Weighted scores are averaged over all retrievers; RRF is scaled so that rank 1 everywhere scores 1
+  const scale = options.method === 'rrf' ? totalWeight / (k + 1) : totalWeight;
+
+  const fused = new Map<string, { result: SearchResult; contributions: RetrieverContribution[] }>();
+
+  for (const retriever of retrievers) {
+    // Stable sort keeps the retriever's own order for equal scores
+    const list = dedupe([...resultsByRetriever[retriever]].sort((a, b) => toScore(b.score) - toScore(a.score)));
+    const rawScores = list.map(result => toScore(result.score));
+    const calibrated = options.method === 'rrf'
+      ? list.map((_, index) => 1 / (k + index + 1))
+      : calibrate(rawScores, calibration);
+
+    list.forEach((result, index) => {
+      const key = resultKey(result);
+      const entry = fused.get(key) || { result, contributions: [] };
+      entry.contributions.push({
+        retriever,
+        rank: index + 1,
+        rawScore: rawScores[index],
+        calibratedScore: calibrated[index],
+        weight: weightOf(retriever),
+        contribution: (weightOf(retriever) * calibrated[index]) / scale,
+      });
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .map(({ result, contributions }) => {
+      const score = contributions.reduce((sum, entry) => sum + entry.contribution, 0);
+      const fusion: FusionExplanation = {
+        method: options.method,
+        ...(options.method === 'weighted' ? { calibration } : {}),
+        score,
+        contributions,
+      };
+      return {
+        ...result,
+        score,
+        metadata: {
+          ...result.metadata,
+          searchMethod: contributions.length > 1 ? 'hybrid' : result.metadata?.searchMethod,
+          fusion,
+        },
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Map raw scores of one retriever onto [0, 1] so they can be combined with other retrievers
+ */
+export function calibrate(scores: number[], calibration: ScoreCalibration): number[] {
+  if (scores.length === 0) return [];
+
+  switch (calibration) {
+    case 'minmax': {
+      const min = Math.min(...scores);
+      const max = Math.max(...scores);
+      // Equal scores carry no ranking information, so every result counts fully
+      return scores.map(score => (max > min ? (score - min) / (max - min) : 1));
+    }
+    case 'zscore': {
+      const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+      // The logistic function keeps z-scores comparable while bounding them to (0, 1)
+      return scores.map(score => 1 / (1 + Math.exp(-(std > 0 ? (score - mean) / std : 0))));
+    }
+    default:
+      return scores.map(score => Math.max(0, Math.min(1, score)));
+  }
+}
+
+/**
+ * Convert a result score to a number; Neo4j may return integers as Integer objects
+ */
+export function toScore(score: any): number {
+  if (typeof score === 'number') return score;
+  if (neo4j.isInt(score)) return score.toNumber();
+  const value = Number(score);
+  return Number.isFinite(value) ? value : 0;
+}
+
+function resultKey(result: SearchResult): string {
+  return result.metadata?.chunkId || `${result.source}_${result.content.substring(0, 100)}`;
+}
+
+/**
+ * Keep the best-ranked occurrence of every result within one retriever's list
+ */
+function dedupe(results: SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  return results.filter(result => {
+    const key = resultKey(result);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,134 @@
+import { GlobalSearch } from './global-search';
+import { neo4jManager } from '../database/neo4j';
+
+const generateText = jest.fn<Promise<string>, [string]>();
+
+jest.mock('../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+}));
+jest.mock('../services/service-manager', () => ({
+  serviceManager: { getLLMService: () => ({ generateText }) },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+
+function reports(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    community: `c${index}`,
+    level: 1,
+    title: `Community ${index}`,
+    summary: `Summary ${index}`,
+    rank: 10 - index,
+  }));
+}
+
+describe('GlobalSearch.answer', () => {
+  const globalSearch = GlobalSearch.getInstance();
+
+  beforeEach(() => {
+    executeQuery.mockReset();
+    generateText.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps over batches of community reports and reduces the best points', async () => {
+    executeQuery.mockResolvedValue(reports(7));
+    generateText.mockImplementation(async prompt => {
+      if (prompt.includes('(ID: c0,')) {
+        return JSON.stringify({ points: [{ description: 'Solar is growing', score: 80 }, { description: 'Noise', score: 0 }] });
+      }
+      if (prompt.includes('(ID: c5,')) {
+        return '```json\n{"points":[{"description":"Wind is stable","score":40}]}\n```';
+      }
+      return 'Renewables are growing overall.';
+    });
+
+    const answer = await globalSearch.answer('What is the energy trend?', { level: 1, batchSize: 5 });
+
+    const mapPrompts = generateText.mock.calls.map(([prompt]) => prompt).filter(prompt => prompt.includes('(ID: '));
+    expect(mapPrompts).toHaveLength(2);
+    const reducePrompt = generateText.mock.calls[2][0];
+    expect(reducePrompt).toContain('1. (Importance: 80) Solar is growing');
+    expect(reducePrompt).toContain('2. (Importance: 40) Wind is stable');
+    expect(answer).toMatchObject({
+      answer: 'Renewables are growing overall.',
+      confidence: 0.6,
+      level: 1,
+      points: [
+        { description: 'Solar is growing', score: 80 },
+        { description: 'Wind is stable', score: 40 },
+      ],
+    });
+    expect(answer.communities.map(community => community.metadata?.communityId)).toEqual(['c0', 'c1', 'c2', 'c3', 'c4', 'c5', 'c6']);
+  });
+
+  it('inserts the question and reports into the prompts verbatim', async () => {
+    executeQuery.mockResolvedValue([{ ...reports(1)[0], summary: "Costs fell by $& and $'." }]);
+    generateText.mockImplementation(async prompt => prompt.includes('(ID: ')
+      ? JSON.stringify({ points: [{ description: 'Costs fell', score: 50 }] })
+      : 'Answer');
+
+    await globalSearch.answer('Did $& costs fall?', { level: 1 });
+
+    const [mapPrompt, reducePrompt] = generateText.mock.calls.map(([prompt]) => prompt);
+    expect(mapPrompt).toContain("Costs fell by $& and $'.");
+    expect(mapPrompt).toContain('Did $& costs fall?');
+    expect(reducePrompt).toContain('Did $& costs fall?');
+  });
+
+  it('uses the coarsest summarized level when none is given', async () => {
+    executeQuery.mockResolvedValueOnce([{ level: 2 }]).mockResolvedValueOnce([]);
+
+    const answer = await globalSearch.answer('Anything?');
+
+    expect(executeQuery.mock.calls[1][1].level.toNumber()).toBe(2);
+    expect(answer).toMatchObject({ level: 2, confidence: 0, points: [] });
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it("answers that it doesn't know when no report is relevant", async () => {
+    executeQuery.mockResolvedValue(reports(2));
+    generateText.mockResolvedValue('not json');
+
+    const answer = await globalSearch.answer('Unrelated?', { level: 1 });
+
+    expect(answer.answer).toMatch(/^I don't know/);
+    expect(answer.communities).toEqual([]);
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GlobalSearch.search', () => {
+  const globalSearch = GlobalSearch.getInstance();
+
+  beforeEach(() => {
+    executeQuery.mockReset();
+  });
+
+  it('ranks reports by the share of query terms they contain, then by rank', async () => {
+    executeQuery.mockResolvedValue([
+      { community: 'c0', level: 1, title: 'Finance', summary: 'Budgets and audits', rank: 9 },
+      { community: 'c1', level: 1, title: 'Energy', summary: 'Solar output is growing', rank: 4 },
+      { community: 'c2', level: 1, title: 'Solar farms', summary: 'Solar panels and wind turbines', rank: 6 },
+    ]);
+
+    const results = await globalSearch.search('Is solar output growing?', { level: 1 });
+
+    expect(executeQuery.mock.calls[0][1].level.toNumber()).toBe(1);
+    expect(results.map(result => result.metadata?.communityId)).toEqual(['c1', 'c2', 'c0']);
+    expect(results.map(result => result.score)).toEqual([1, 1 / 3, 0]);
+  });
+
+  it('orders by community rank when the query has no content words', async () => {
+    executeQuery.mockResolvedValue(reports(2));
+
+    const results = await globalSearch.search('is it?', { level: 1 });
+
+    expect(results.map(result => result.score)).toEqual([1, 0.9]);
+  });
+});
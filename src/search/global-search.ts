@@ -0,0 +1,244 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../database/neo4j';
+import { SearchResult } from '../models/types';
+import { serviceManager } from '../services/service-manager';
+import { GLOBAL_MAP_PROMPT, GLOBAL_REDUCE_PROMPT } from '../config/gemini';
+import { contentWords, parseJson } from '../services/text-utils';
+
+export interface GlobalSearchOptions {
+  level?: number;          // Community level, defaults to the coarsest level
+  maxCommunities?: number; // Maximum community reports considered
+  batchSize?: number;      // Community reports per map call
+  concurrency?: number;    // Parallel map calls
+  maxPoints?: number;      // Key points passed to the reduce step
+}
+
+export interface GlobalSearchPoint {
+  description: string;
+  score: number;
+  communities: string[];
+}
+
+export interface GlobalSearchAnswer {
+  answer: string;
+  confidence: number;
+  level: number | null;
+  points: GlobalSearchPoint[];
+  communities: SearchResult[];
+}
+
+interface CommunityReport {
+  community: string;
+  level: number;
+  title: string;
+  summary: string;
+  rank: number;
+}
+
+/**
+ * GlobalSearch - Map-reduce question answering over __Community__ summaries
+ */
+export class GlobalSearch {
+  private static instance: GlobalSearch | null = null;
+
+  public static getInstance(): GlobalSearch {
+    if (!GlobalSearch.instance) {
+      GlobalSearch.instance = new GlobalSearch();
+    }
+    return GlobalSearch.instance;
+  }
+
+  /**
+   * Return community reports at the chosen level as search results, ranked by the share of
+   * query terms their title and summary contain, then by community rank
+   */
+  async search(query: string, options: GlobalSearchOptions = {}): Promise<SearchResult[]> {
+    const { reports } = await this.loadReports(options);
+    const queryTerms = Array.from(new Set(contentWords(query)));
+    if (queryTerms.length === 0) {
+      return reports.map(report => this.toSearchResult(report));
+    }
+
+    return reports
+      .map(report => {
+        const reportTerms = new Set(contentWords(`${report.title} ${report.summary}`));
+        const relevance = queryTerms.filter(term => reportTerms.has(term)).length / queryTerms.length;
+        return { report, relevance };
+      })
+      .sort((a, b) => b.relevance - a.relevance || b.report.rank - a.report.rank)
+      .map(({ report, relevance }) => this.toSearchResult(report, relevance));
+  }
+
+  /**
+   * Answer a corpus-wide question: map over community report batches, then reduce the key points
+   */
+  async answer(question: string, options: GlobalSearchOptions = {}): Promise<GlobalSearchAnswer> {
+    const batchSize = Math.max(1, options.batchSize ?? 5);
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    const maxPoints = Math.max(1, options.maxPoints ?? 20);
+
+    console.log(`🌍 Global search: "${question}"`);
+
+    const { level, reports } = await this.loadReports(options);
+    if (reports.length === 0) {
+      console.log('   ⚠️ No community reports available');
+      return {
+        answer: 'Sorry, no community summaries are available yet. Please run community detection first.',
+        confidence: 0,
+        level,
+        points: [],
+        communities: [],
+      };
+    }
+
+    console.log(`   📋 Using ${reports.length} community reports on level ${level}`);
+
+    // Map: collect scored key points from each batch of reports
+    const batches: CommunityReport[][] = [];
+    for (let i = 0; i < reports.length; i += batchSize) {
+      batches.push(reports.slice(i, i + batchSize));
+    }
+
+    const points: GlobalSearchPoint[] = [];
+    for (let i = 0; i < batches.length; i += concurrency) {
+      const results = await Promise.all(
+        batches.slice(i, i + concurrency).map(batch => this.mapBatch(question, batch))
+      );
+      results.forEach(batchPoints => points.push(...batchPoints));
+    }
+
+    const rankedPoints = points
+      .filter(point => point.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxPoints);
+
+    console.log(`   📊 Map step produced ${points.length} key points, ${rankedPoints.length} used for reduce`);
+
+    const usedCommunityIds = new Set(rankedPoints.flatMap(point => point.communities));
+    const communities = reports
+      .filter(report => usedCommunityIds.has(report.community))
+      .map(report => this.toSearchResult(report));
+
+    if (rankedPoints.length === 0) {
+      return {
+        answer: "I don't know. The community summaries do not contain information relevant to this question.",
+        confidence: 0,
+        level,
+        points: [],
+        communities: [],
+      };
+    }
+
+    // Reduce: combine the most important points into one answer
+    const prompt = GLOBAL_REDUCE_PROMPT
+      .replace('{question}', () => question)
+      .replace('{points}', () => rankedPoints
+        .map((point, index) => `${index + 1}. (Importance: ${point.score}) ${point.description}`)
+        .join('\n'));
+
+    const answer = await serviceManager.getLLMService().generateText(prompt);
+    const confidence = rankedPoints.reduce((sum, point) => sum + point.score, 0) / rankedPoints.length / 100;
+
+    return {
+      answer: answer.trim(),
+      confidence: Math.min(1, confidence),
+      level,
+      points: rankedPoints,
+      communities,
+    };
+  }
+
+  /**
+   * Map step for one batch of community reports
+   */
+  private async mapBatch(question: string, batch: CommunityReport[]): Promise<GlobalSearchPoint[]> {
+    try {
+      const reports = batch
+        .map(report => `**${report.title}** (ID: ${report.community}, Rank: ${report.rank})\n${report.summary}\n---`)
+        .join('\n');
+
+      const prompt = GLOBAL_MAP_PROMPT
+        .replace('{question}', () => question)
+        .replace('{reports}', () => reports);
+
+      const response = await serviceManager.getLLMService().generateText(prompt);
+      const parsed = parseJson(response);
+      const rawPoints: any[] = Array.isArray(parsed?.points) ? parsed.points : [];
+      const communityIds = batch.map(report => report.community);
+
+      return rawPoints
+        .filter(point => typeof point?.description === 'string' && point.description.trim())
+        .map(point => {
+          const score = Number(point.score);
+          return {
+            description: point.description.trim(),
+            score: Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0,
+            communities: communityIds,
+          };
+        });
+    } catch (error) {
+      console.warn('   ⚠️ Global search map step failed for a batch:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load summarized communities at the requested level (or the coarsest level)
+   */
+  private async loadReports(options: GlobalSearchOptions): Promise<{ level: number | null; reports: CommunityReport[] }> {
+    let level = options.level ?? null;
+
+    if (level === null) {
+      const levelResult = await neo4jManager.executeQuery(`
+        MATCH (c:__Community__)
+        WHERE c.summary IS NOT NULL
+        RETURN max(c.level) as level
+      `);
+      const maxLevel = levelResult[0]?.level;
+      if (maxLevel === null || maxLevel === undefined) {
+        return { level: null, reports: [] };
+      }
+      level = neo4j.isInt(maxLevel) ? maxLevel.toNumber() : Number(maxLevel);
+    }
+
+    const results = await neo4jManager.executeQuery(`
+      MATCH (c:__Community__)
+      WHERE c.level = $level AND c.summary IS NOT NULL
+      RETURN c.community as community, c.level as level, c.title as title,
+             c.summary as summary, c.rank as rank
+      ORDER BY c.rank DESC
+      LIMIT $limit
+    `, {
+      level: neo4j.int(Math.floor(level as number)),
+      limit: neo4j.int(Math.floor(options.maxCommunities ?? 50)),
+    });
+
+    return {
+      level,
+      reports: results.map((result: any) => ({
+        community: result.community,
+        level: neo4j.isInt(result.level) ? result.level.toNumber() : Number(result.level),
+        title: result.title || `Community ${result.community}`,
+        summary: result.summary,
+        rank: Number(result.rank) || 0,
+      })),
+    };
+  }
+
+  private toSearchResult(report: CommunityReport, score: number = report.rank / 10): SearchResult {
+    return {
+      content: report.summary,
+      source: report.title,
+      score,
+      metadata: {
+        type: 'community',
+        communityId: report.community,
+        level: report.level,
+        rank: report.rank,
+        searchMethod: 'global'
+      }
+    };
+  }
+}
+
+export default GlobalSearch;
@@ -0,0 +1,86 @@
+import neo4j from 'neo4j-driver';
+import { LocalSearch } from './local-search';
+import { neo4jManager } from '../database/neo4j';
+import { queryVectorIndex } from '../services/vector-index/vector-index-query';
+
+jest.mock('../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+}));
+jest.mock('../services/vector-index/vector-index-query', () => ({
+  queryVectorIndex: jest.fn(),
+}));
+jest.mock('../services/embedding-manager', () => ({
+  embeddingManager: { embedQuery: jest.fn(async () => [1, 0]) },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const matchEntities = queryVectorIndex as jest.Mock;
+
+const seeds = [{ id: 'e1', name: 'GreenZero', type: 'organization', description: 'Climate platform', score: 0.8 }];
+const neighbours = [{
+  seedId: 'e1', id: 'e2', name: 'Berlin', type: 'location', description: 'City', hops: neo4j.int(1),
+  pathNames: ['GreenZero', 'Berlin'],
+  pathRelationships: [{ source: 'GreenZero', target: 'Berlin', type: 'LOCATED_IN', description: 'Head office' }],
+}];
+const chunks = [
+  { id: 'k1', text: 'GreenZero has its office in Berlin.', fileName: 'about.md', documentId: 'd1', chunkIndex: 0, entityIds: ['e2', 'e1'] },
+  { id: 'k2', text: 'Berlin is a city.', fileName: 'city.md', documentId: 'd2', chunkIndex: 3, entityIds: ['e2'] },
+];
+const communities = [{ community: 'c1', level: neo4j.int(0), title: 'Climate startups', summary: 'Startups fighting climate change.', rank: 7, entityIds: ['e1'] }];
+
+function mockGraph(entityMatches: Array<{ score: number }>) {
+  matchEntities.mockResolvedValue(entityMatches.map(({ score, ...node }) => ({ node, score })));
+  executeQuery.mockImplementation(async (query: string) => {
+    if (query.includes('MATCH path =')) return neighbours;
+    if (query.includes(':MENTIONS]')) return chunks;
+    if (query.includes(':IN_COMMUNITY]')) return communities;
+    return [];
+  });
+}
+
+describe('LocalSearch', () => {
+  const localSearch = LocalSearch.getInstance();
+
+  beforeEach(() => {
+    executeQuery.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('assembles chunks, entities, relationships and communities with graph paths', async () => {
+    mockGraph(seeds);
+
+    const results = await localSearch.search('Where is GreenZero?');
+
+    const byType = (type: string) => results.filter(result => result.metadata?.type === type);
+    expect(byType('local_chunk').map(result => [result.metadata?.chunkId, result.score])).toEqual([['k1', 0.8], ['k2', 0.4]]);
+    expect(byType('local_chunk')[0].metadata?.graphPath).toEqual(['entity:GreenZero', 'MENTIONED_IN', 'chunk:k1']);
+    expect(byType('local_entity').map(result => [result.source, result.score, result.metadata?.hops])).toEqual([
+      ['GreenZero', 0.8, 0],
+      ['Berlin', 0.4, 1],
+    ]);
+    expect(byType('local_entity')[1].metadata?.graphPath).toEqual(['entity:GreenZero', 'LOCATED_IN', 'entity:Berlin']);
+    expect(byType('local_relationship')[0].content).toBe('GreenZero LOCATED_IN Berlin: Head office');
+    expect(byType('local_community')[0]).toMatchObject({ score: 0.4, metadata: { communityId: 'c1', level: 0 } });
+  });
+
+  it('keeps the context within the token budget', async () => {
+    mockGraph(seeds);
+
+    const results = await localSearch.search('Where is GreenZero?', { maxTokens: 20 });
+
+    const tokens = results.reduce((sum, result) => sum + result.content.split(/\s+/).length, 0);
+    expect(tokens).toBeLessThanOrEqual(20);
+    expect(results.length).toBeGreaterThan(0);
+  });
+
+  it('returns nothing when no entity matches the query', async () => {
+    mockGraph([]);
+
+    expect(await localSearch.search('Unknown topic')).toEqual([]);
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+});
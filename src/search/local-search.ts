@@ -0,0 +1,364 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager, ENTITY_VECTOR_INDEX } from '../database/neo4j';
+import { SearchResult } from '../models/types';
+import { embeddingManager } from '../services/embedding-manager';
+import { queryVectorIndex } from '../services/vector-index/vector-index-query';
+import { getTokenizer } from '../services/tokenizer';
+
+export interface LocalSearchOptions {
+  topKEntities?: number;        // Entities matched directly against the query
+  threshold?: number;           // Minimum entity similarity
+  hops?: number;                // Relationship hops to walk from matched entities
+  maxNeighbours?: number;       // Maximum expanded entities
+  maxTokens?: number;           // Token budget for the assembled context
+  chunkProportion?: number;     // Share of the budget for linked chunks
+  communityProportion?: number; // Share of the budget for community summaries
+}
+
+interface EntityMatch {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  score: number;
+  hops: number;
+  path: string[];
+}
+
+interface RelationshipMatch {
+  key: string;
+  source: string;
+  target: string;
+  type: string;
+  description: string;
+  score: number;
+  path: string[];
+}
+
+/**
+ * LocalSearch - Entity-centric retrieval that expands from matched entities through the graph
+ */
+export class LocalSearch {
+  private static instance: LocalSearch | null = null;
+
+  public static getInstance(): LocalSearch {
+    if (!LocalSearch.instance) {
+      LocalSearch.instance = new LocalSearch();
+    }
+    return LocalSearch.instance;
+  }
+
+  /**
+   * Match entities, walk their relationships and assemble chunk, entity, relationship and community context
+   */
+  async search(query: string, options: LocalSearchOptions = {}): Promise<SearchResult[]> {
+    const topKEntities = Math.floor(options.topKEntities ?? 10);
+    const hops = Math.max(1, Math.floor(options.hops ?? 1));
+    const maxTokens = options.maxTokens ?? 4000;
+    const chunkBudget = Math.floor(maxTokens * (options.chunkProportion ?? 0.5));
+    const communityBudget = Math.floor(maxTokens * (options.communityProportion ?? 0.15));
+    const graphBudget = maxTokens - chunkBudget - communityBudget;
+
+    console.log(`🧭 Local search: "${query}" (entities: ${topKEntities}, hops: ${hops}, budget: ${maxTokens} tokens)`);
+
+    // 1. Match entities by description embedding
+    const queryVector = await embeddingManager.embedQuery(query);
+    const seeds = await this.matchEntities(queryVector, topKEntities, options.threshold ?? 0.5);
+    console.log(`   🎯 Matched ${seeds.length} entities`);
+    if (seeds.length === 0) {
+      return [];
+    }
+
+    // 2. Walk relationships from matched entities
+    const { entities, relationships } = await this.expandEntities(seeds, hops, options.maxNeighbours ?? 30);
+    console.log(`   🕸️ Expanded to ${entities.size} entities and ${relationships.length} relationships`);
+
+    // 3. Collect linked chunks and community summaries
+    const chunkResults = await this.getLinkedChunks(entities);
+    const communityResults = await this.getCommunities(seeds);
+
+    // 4. Assemble context under the token budget
+    const entityResults = Array.from(entities.values())
+      .sort((a, b) => b.score - a.score)
+      .map(entity => this.entityToResult(entity));
+    const relationshipResults = relationships
+      .sort((a, b) => b.score - a.score)
+      .map(relationship => this.relationshipToResult(relationship));
+
+    const selectedChunks = this.takeWithinBudget(chunkResults, chunkBudget);
+    const selectedGraph = this.takeWithinBudget(
+      this.interleave(entityResults, relationshipResults),
+      graphBudget + (chunkBudget - this.countTokens(selectedChunks))
+    );
+    const selectedCommunities = this.takeWithinBudget(communityResults, communityBudget);
+
+    const results = [...selectedChunks, ...selectedGraph, ...selectedCommunities];
+    console.log(`   📊 Local context: ${selectedChunks.length} chunks, ${selectedGraph.length} entities/relationships, ${selectedCommunities.length} communities (${this.countTokens(results)} tokens)`);
+
+    return results;
+  }
+
+  /**
+   * Find entities whose description embedding is similar to the query
+   */
+  private async matchEntities(queryVector: number[], topK: number, threshold: number): Promise<EntityMatch[]> {
+    const matches = await queryVectorIndex({
+      indexName: ENTITY_VECTOR_INDEX,
+      label: '__Entity__',
+      queryVector,
+      topK,
+      threshold,
+    });
+
+    return matches.map(({ node, score }) => ({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      description: node.description || '',
+      score,
+      hops: 0,
+      path: [`entity:${node.name}`],
+    }));
+  }
+
+  /**
+   * Walk entity relationships up to N hops; neighbour scores decay with distance
+   */
+  private async expandEntities(
+    seeds: EntityMatch[],
+    hops: number,
+    maxNeighbours: number
+  ): Promise<{ entities: Map<string, EntityMatch>; relationships: RelationshipMatch[] }> {
+    const entities = new Map<string, EntityMatch>(seeds.map(seed => [seed.id, seed]));
+    const relationships = new Map<string, RelationshipMatch>();
+    const seedScores = new Map(seeds.map(seed => [seed.id, seed.score]));
+
+    // Neo4j does not allow parameters inside variable-length patterns, so the hop count is inlined
+    const results = await neo4jManager.executeQuery(`
+      MATCH path = (seed:__Entity__)-[*1..${hops}]-(neighbour:__Entity__)
+      WHERE seed.id IN $seedIds
+        AND ALL(node IN nodes(path) WHERE node:__Entity__)
+        AND neighbour.id <> seed.id
+      RETURN seed.id as seedId, neighbour.id as id, neighbour.name as name, neighbour.type as type,
+             neighbour.description as description, length(path) as hops,
+             [node IN nodes(path) | node.name] as pathNames,
+             [rel IN relationships(path) | {
+               source: startNode(rel).name, target: endNode(rel).name,
+               type: type(rel), description: rel.description
+             }] as pathRelationships
+      ORDER BY hops ASC
+      LIMIT $limit
+    `, {
+      seedIds: seeds.map(seed => seed.id),
+      limit: neo4j.int(Math.floor(maxNeighbours * hops * 2)),
+    });
+
+    for (const result of results) {
+      const pathHops = neo4j.isInt(result.hops) ? result.hops.toNumber() : Number(result.hops);
+      const score = (seedScores.get(result.seedId) || 0) * Math.pow(0.5, pathHops);
+      const path = this.formatPath(result.pathNames, result.pathRelationships);
+
+      const existing = entities.get(result.id);
+      if (!existing && entities.size < seeds.length + maxNeighbours) {
+        entities.set(result.id, {
+          id: result.id,
+          name: result.name,
+          type: result.type,
+          description: result.description || '',
+          score,
+          hops: pathHops,
+          path,
+        });
+      } else if (existing && existing.score < score) {
+        existing.score = score;
+        existing.path = path;
+      }
+
+      for (const rel of result.pathRelationships as any[]) {
+        const key = `${rel.source}|${rel.type}|${rel.target}`;
+        const current = relationships.get(key);
+        if (!current || current.score < score) {
+          relationships.set(key, {
+            key,
+            source: rel.source,
+            target: rel.target,
+            type: rel.type,
+            description: rel.description || '',
+            score,
+            path,
+          });
+        }
+      }
+    }
+
+    return { entities, relationships: Array.from(relationships.values()) };
+  }
+
+  /**
+   * Get chunks that mention the matched or expanded entities
+   */
+  private async getLinkedChunks(entities: Map<string, EntityMatch>): Promise<SearchResult[]> {
+    const results = await neo4jManager.executeQuery(`
+      MATCH (c:__Chunk__)-[:MENTIONS]->(e:__Entity__)
+      WHERE e.id IN $entityIds
+      WITH c, collect(DISTINCT e.id) as entityIds
+      RETURN c.id as id, c.text as text, c.fileName as fileName, c.document_id as documentId,
+             c.chunk_index as chunkIndex, c.content_offset as contentOffset,
+             c.page as page, c.section as section, entityIds
+      ORDER BY size(entityIds) DESC
+      LIMIT $limit
+    `, {
+      entityIds: Array.from(entities.keys()),
+      limit: neo4j.int(50),
+    });
+
+    return results
+      .map((result: any) => {
+        const mentioned = (result.entityIds as string[])
+          .map(id => entities.get(id))
+          .filter((entity): entity is EntityMatch => entity !== undefined)
+          .sort((a, b) => b.score - a.score);
+        const best = mentioned[0];
+
+        return {
+          content: result.text,
+          source: result.fileName || result.id,
+          score: best ? best.score : 0,
+          metadata: {
+            type: 'local_chunk',
+            chunkId: result.id,
+            documentId: result.documentId,
+            chunkIndex: result.chunkIndex,
+            contentOffset: result.contentOffset,
+            page: result.page,
+            section: result.section,
+            entities: mentioned.map(entity => entity.name),
+            graphPath: best ? [...best.path, 'MENTIONED_IN', `chunk:${result.id}`] : [`chunk:${result.id}`],
+            searchMethod: 'local'
+          }
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Get summaries of communities that contain the matched entities
+   */
+  private async getCommunities(seeds: EntityMatch[]): Promise<SearchResult[]> {
+    const seedScores = new Map(seeds.map(seed => [seed.id, seed]));
+    const results = await neo4jManager.executeQuery(`
+      MATCH (e:__Entity__)-[:IN_COMMUNITY]->(c:__Community__)
+      WHERE e.id IN $seedIds AND c.summary IS NOT NULL
+      WITH c, collect(e.id) as entityIds
+      RETURN c.community as community, c.level as level, c.title as title,
+             c.summary as summary, c.rank as rank, entityIds
+      ORDER BY size(entityIds) DESC, rank DESC
+      LIMIT $limit
+    `, {
+      seedIds: seeds.map(seed => seed.id),
+      limit: neo4j.int(10),
+    });
+
+    return results.map((result: any) => {
+      const seed = (result.entityIds as string[])
+        .map(id => seedScores.get(id))
+        .filter((entity): entity is EntityMatch => entity !== undefined)
+        .sort((a, b) => b.score - a.score)[0];
+
+      return {
+        content: result.summary,
+        source: result.title || `Community ${result.community}`,
+        score: seed ? seed.score * 0.5 : 0,
+        metadata: {
+          type: 'local_community',
+          communityId: result.community,
+          level: neo4j.isInt(result.level) ? result.level.toNumber() : result.level,
+          graphPath: seed ? [...seed.path, 'IN_COMMUNITY', `community:${result.community}`] : [`community:${result.community}`],
+          searchMethod: 'local'
+        }
+      };
+    });
+  }
+
+  private entityToResult(entity: EntityMatch): SearchResult {
+    return {
+      content: `${entity.name} (${entity.type}): ${entity.description}`,
+      source: entity.name,
+      score: entity.score,
+      metadata: {
+        type: 'local_entity',
+        entityId: entity.id,
+        hops: entity.hops,
+        graphPath: entity.path,
+        searchMethod: 'local'
+      }
+    };
+  }
+
+  private relationshipToResult(relationship: RelationshipMatch): SearchResult {
+    return {
+      content: `${relationship.source} ${relationship.type} ${relationship.target}: ${relationship.description}`,
+      source: `${relationship.source} → ${relationship.target}`,
+      score: relationship.score,
+      metadata: {
+        type: 'local_relationship',
+        relationshipType: relationship.type,
+        graphPath: relationship.path,
+        searchMethod: 'local'
+      }
+    };
+  }
+
+  /**
+   * Format a path as alternating entity and relationship labels
+   */
+  private formatPath(names: string[], relationships: Array<{ type: string }>): string[] {
+    const path: string[] = [];
+    names.forEach((name, index) => {
+      path.push(`entity:${name}`);
+      if (index < relationships.length) {
+        path.push(relationships[index].type);
+      }
+    });
+    return path;
+  }
+
+  /**
+   * Interleave entity and relationship results so both fit into the graph budget
+   */
+  private interleave(first: SearchResult[], second: SearchResult[]): SearchResult[] {
+    const results: SearchResult[] = [];
+    for (let i = 0; i < Math.max(first.length, second.length); i++) {
+      if (i < first.length) results.push(first[i]);
+      if (i < second.length) results.push(second[i]);
+    }
+    return results;
+  }
+
+  /**
+   * Take results in order until the token budget is used up
+   */
+  private takeWithinBudget(results: SearchResult[], budget: number): SearchResult[] {
+    const selected: SearchResult[] = [];
+    let used = 0;
+
+    for (const result of results) {
+      const tokens = this.estimateTokens(result.content);
+      if (used + tokens > budget) continue;
+      selected.push(result);
+      used += tokens;
+    }
+
+    return selected;
+  }
+
+  private countTokens(results: SearchResult[]): number {
+    return results.reduce((sum, result) => sum + this.estimateTokens(result.content), 0);
+  }
+
+  private estimateTokens(text: string): number {
+    return getTokenizer().countTokens(text);
+  }
+}
+
+export default LocalSearch;
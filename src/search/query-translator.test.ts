@@ -0,0 +1,54 @@
+import { QueryTranslator } from './query-translator';
+
+const mockGenerateText = jest.fn();
+
+jest.mock('../services/service-manager', () => ({
+  serviceManager: {
+    getLLMService: () => ({
+      generateText: mockGenerateText,
+    }),
+  },
+}));
+
+describe('QueryTranslator', () => {
+  const translator = new QueryTranslator();
+
+  beforeEach(() => {
+    mockGenerateText.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('translates into all target languages with one call', async () => {
+    mockGenerateText.mockResolvedValue('```json\n{"translations": {"de": " Solarenergie ", "fr": "énergie solaire"}}\n```');
+
+    expect(await translator.translate('solar energy', ['de', 'fr'])).toEqual({ de: 'Solarenergie', fr: 'énergie solaire' });
+    expect(mockGenerateText).toHaveBeenCalledTimes(1);
+    expect(mockGenerateText.mock.calls[0][0]).toContain('- de (German)\n- fr (French)');
+  });
+
+  it('inserts the query verbatim', async () => {
+    mockGenerateText.mockResolvedValue('{"translations": {}}');
+
+    await translator.translate("prices up by $& and $'", ['de']);
+
+    expect(mockGenerateText.mock.calls[0][0]).toContain("prices up by $& and $'");
+  });
+
+  it('drops languages the model skipped or answered at length', async () => {
+    mockGenerateText.mockResolvedValue(JSON.stringify({ translations: { de: 'Solarenergie', fr: 'x'.repeat(600) } }));
+
+    expect(await translator.translate('solar energy', ['de', 'fr', 'es'])).toEqual({ de: 'Solarenergie' });
+  });
+
+  it('returns no translations when the model fails or without targets', async () => {
+    mockGenerateText.mockRejectedValue(new Error('quota exceeded'));
+
+    expect(await translator.translate('solar energy', ['de'])).toEqual({});
+    expect(await translator.translate('solar energy', [])).toEqual({});
+    expect(mockGenerateText).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { QUERY_TRANSLATION_PROMPT } from '../config/gemini';
+import { serviceManager } from '../services/service-manager';
+import { getLanguageName } from '../services/language-detector';
+import { parseJson } from '../services/text-utils';
+
+// A "translation" longer than this means the model answered instead of translating
+const MAX_TRANSLATION_LENGTH = 500;
+
+/**
+ * Translates search queries into the languages of the corpus with the LLM
+ */
+export class QueryTranslator {
+  /**
+   * Translate `query` into every target language in one LLM call.
+   * Languages the LLM skipped or that failed are missing from the result.
+   */
+  async translate(query: string, targetLanguages: string[]): Promise<Record<string, string>> {
+    if (targetLanguages.length === 0) {
+      return {};
+    }
+
+    try {
+      const llmService = serviceManager.getLLMService();
+      const languages = targetLanguages
+        .map(language => `- ${language}${getLanguageName(language) ? ` (${getLanguageName(language)})` : ''}`)
+        .join('\n');
+      const prompt = QUERY_TRANSLATION_PROMPT
+        .replace('{languages}', () => languages)
+        .replace('{query}', () => query);
+
+      const parsed = parseJson(await llmService.generateText(prompt, { temperature: 0 }));
+      const translations: Record<string, string> = {};
+      for (const language of targetLanguages) {
+        const translation = parsed?.translations?.[language];
+        if (typeof translation === 'string' && translation.trim() && translation.length <= MAX_TRANSLATION_LENGTH) {
+          translations[language] = translation.trim();
+        }
+      }
+
+      if (Object.keys(translations).length < targetLanguages.length) {
+        console.warn(`⚠️ Query translation returned ${Object.keys(translations).length}/${targetLanguages.length} languages`);
+      }
+      return translations;
+    } catch (error) {
+      console.warn('⚠️ Query translation failed, searching without translations:', error);
+      return {};
+    }
+  }
+}
+
+export default QueryTranslator;
@@ -0,0 +1,91 @@
+import { SearchResult } from '../models/types';
+import { rerankResults } from './rerank';
+
+const mockGenerateText = jest.fn();
+
+jest.mock('../services/service-manager', () => ({
+  serviceManager: {
+    getLLMService: () => ({
+      generateText: mockGenerateText,
+    }),
+  },
+}));
+
+function result(id: string, content: string, score: number): SearchResult {
+  return { content, source: id, score, metadata: { chunkId: id } };
+}
+
+const results = [
+  result('a', 'Wind turbines in the north sea.', 0.9),
+  result('b', 'Panels convert solar energy; storage keeps it for the night.', 0.8),
+  result('c', 'Solar energy storage with home batteries.', 0.7),
+  result('d', 'Hydro power plants in the alps.', 0.6),
+];
+
+const ids = (ranked: SearchResult[]) => ranked.map(entry => entry.metadata?.chunkId);
+
+describe('rerankResults', () => {
+  beforeEach(() => {
+    mockGenerateText.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks candidates with the query phrase above scattered terms', async () => {
+    const ranked = await rerankResults('solar energy storage', results, { provider: 'lexical' });
+
+    expect(ids(ranked)).toEqual(['c', 'b', 'a', 'd']);
+    expect(ranked[0].metadata?.rerank).toEqual({ provider: 'lexical', originalRank: 3, originalScore: 0.7, score: 1 });
+  });
+
+  it('keeps candidates beyond topN after the reranked ones', async () => {
+    const ranked = await rerankResults('hydro power', results, { provider: 'lexical', topN: 2 });
+
+    expect(ids(ranked)).toEqual(['a', 'b', 'c', 'd']);
+    expect(ranked[2].metadata?.rerank).toBeUndefined();
+  });
+
+  it('scores candidates by their position in the LLM ranking', async () => {
+    mockGenerateText.mockResolvedValue('```json\n{"ranking": [3, 9, 1, 3]}\n```');
+
+    const ranked = await rerankResults('solar energy storage', results, { provider: 'llm' });
+
+    // Passages the model left out follow in fused order
+    expect(ids(ranked)).toEqual(['c', 'a', 'b', 'd']);
+    expect(ranked.map(entry => entry.score)).toEqual([1, 0.75, 0.5, 0.25]);
+    expect(ranked[0].metadata?.rerank.provider).toBe('llm');
+  });
+
+  it('inserts the query and passages verbatim', async () => {
+    mockGenerateText.mockResolvedValue('{"ranking": [1, 2]}');
+
+    await rerankResults('prices up by $&?', [
+      result('p', "Prices rose by $& and $' overnight.", 0.9),
+      result('q', 'Prices fell.', 0.8),
+    ], { provider: 'llm' });
+
+    const [prompt] = mockGenerateText.mock.calls[0];
+    expect(prompt).toContain('prices up by $&?');
+    expect(prompt).toContain("[1] Prices rose by $& and $' overnight.");
+  });
+
+  it('falls back to lexical scores when the LLM ranking is unusable', async () => {
+    mockGenerateText.mockResolvedValue('Passage 3 is the best match.');
+
+    const ranked = await rerankResults('solar energy storage', results, { provider: 'llm' });
+
+    expect(ids(ranked)).toEqual(['c', 'b', 'a', 'd']);
+    expect(ranked[0].metadata?.rerank.provider).toBe('lexical');
+  });
+
+  it('leaves a single candidate untouched', async () => {
+    const single = [results[0]];
+
+    expect(await rerankResults('wind', single, { provider: 'llm' })).toBe(single);
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+import { RERANK_PROMPT } from '../config/gemini';
+import { SearchResult } from '../models/types';
+import { serviceManager } from '../services/service-manager';
+import { contentWords, parseJson } from '../services/text-utils';
+import { toScore } from './fusion';
+
+export type RerankProvider = 'llm' | 'lexical';
+
+export interface RerankOptions {
+  provider: RerankProvider;
+  topN?: number;  // Candidates re-scored from the top of the fused list (default 20)
+}
+
+// Attached to every re-scored result as `metadata.rerank`
+export interface RerankExplanation {
+  provider: RerankProvider;  // Provider that produced the score; llm falls back to lexical
+  originalRank: number;      // 1-based rank before reranking
+  originalScore: number;
+  score: number;             // Reranker score in [0, 1]
+}
+
+const DEFAULT_TOP_N = 20;
+// Passage text sent to the LLM is cut to keep the prompt bounded
+const MAX_PASSAGE_LENGTH = 600;
+// Lexical score factor for candidates that contain the query terms but not the query phrase
+const SCATTERED_TERMS_FACTOR = 0.8;
+
+/**
+ * Re-score the top candidates against the query and put them in reranked order.
+ * Candidates beyond topN keep their order after the reranked ones.
+ */
+export async function rerankResults(query: string, results: SearchResult[], options: RerankOptions): Promise<SearchResult[]> {
+  const topN = Math.max(1, Math.floor(options.topN ?? DEFAULT_TOP_N));
+  const candidates = results.slice(0, topN);
+  if (candidates.length < 2) return results;
+
+  let provider = options.provider;
+  let scores: number[] | null = null;
+
+  if (provider === 'llm') {
+    scores = await scoreWithLLM(query, candidates);
+    if (!scores) {
+      console.warn('⚠️ LLM reranker unavailable, falling back to lexical reranking');
+      provider = 'lexical';
+    }
+  }
+  if (!scores) {
+    scores = scoreLexically(query, candidates);
+  }
+
+  const reranked = candidates
+    .map((result, index) => ({ result, index, score: scores![index] }))
+    // Ties keep the fused order
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ result, index, score }) => {
+      const rerank: RerankExplanation = {
+        provider,
+        originalRank: index + 1,
+        originalScore: toScore(result.score),
+        score,
+      };
+      return { ...result, score, metadata: { ...result.metadata, rerank } };
+    });
+
+  console.log(`   🎯 Reranked top ${candidates.length} results with ${provider}`);
+  return [...reranked, ...results.slice(topN)];
+}
+
+/**
+ * Listwise reranking: the LLM orders all candidates in one call and the position becomes the score.
+ * Returns null when the LLM call fails or its ranking can't be parsed.
+ */
+async function scoreWithLLM(query: string, candidates: SearchResult[]): Promise<number[] | null> {
+  try {
+    const llmService = serviceManager.getLLMService();
+    const passages = candidates
+      .map((result, index) => `[${index + 1}] ${result.content.substring(0, MAX_PASSAGE_LENGTH).replace(/\s+/g, ' ')}`)
+      .join('\n\n');
+    const prompt = RERANK_PROMPT
+      .replace('{query}', () => query)
+      .replace('{passages}', () => passages);
+
+    const parsed = parseJson(await llmService.generateText(prompt, { temperature: 0 }));
+    if (!parsed || !Array.isArray(parsed.ranking)) {
+      return null;
+    }
+
+    const order: number[] = [];
+    for (const value of parsed.ranking) {
+      const index = parseInt(value, 10) - 1;
+      if (index >= 0 && index < candidates.length && !order.includes(index)) {
+        order.push(index);
+      }
+    }
+    if (order.length === 0) {
+      return null;
+    }
+
+    // Passages the LLM left out rank after the ranked ones, in fused order
+    candidates.forEach((_, index) => {
+      if (!order.includes(index)) order.push(index);
+    });
+
+    const scores = new Array<number>(candidates.length);
+    order.forEach((index, position) => {
+      scores[index] = 1 - position / candidates.length;
+    });
+    return scores;
+  } catch (error) {
+    console.warn('⚠️ LLM reranking failed:', error);
+    return null;
+  }
+}
+
+/**
+ * IDF-weighted share of the query terms that occur in each candidate, with IDF taken over the
+ * candidates themselves; candidates without the verbatim query phrase are scaled down
+ */
+function scoreLexically(query: string, candidates: SearchResult[]): number[] {
+  const queryTerms = Array.from(new Set(contentWords(query)));
+  if (queryTerms.length === 0) {
+    return candidates.map(() => 0);
+  }
+
+  const candidateTerms = candidates.map(result => new Set(contentWords(result.content)));
+  const idf = new Map(queryTerms.map(term => {
+    const documentFrequency = candidateTerms.filter(terms => terms.has(term)).length;
+    return [term, Math.log(1 + candidates.length / (1 + documentFrequency))];
+  }));
+  const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0) || 1;
+  const phrase = query.toLowerCase().replace(/\s+/g, ' ').trim();
+
+  return candidates.map((result, index) => {
+    const matched = queryTerms
+      .filter(term => candidateTerms[index].has(term))
+      .reduce((sum, term) => sum + idf.get(term)!, 0);
+    const hasPhrase = queryTerms.length > 1 && result.content.toLowerCase().replace(/\s+/g, ' ').includes(phrase);
+    return (matched / totalWeight) * (hasPhrase ? 1 : SCATTERED_TERMS_FACTOR);
+  });
+}
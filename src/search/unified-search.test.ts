@@ -0,0 +1,88 @@
+import { UnifiedSearch } from './unified-search';
+
+const mockGlobalSearch = { search: jest.fn() };
+const mockLocalSearch = { search: jest.fn() };
+
+jest.mock('../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+}));
+jest.mock('../services/service-manager', () => ({
+  serviceManager: {
+    getVectorSearchService: () => ({}),
+    getQAService: () => ({}),
+  },
+}));
+jest.mock('./global-search', () => ({
+  GlobalSearch: { getInstance: () => mockGlobalSearch },
+}));
+jest.mock('./local-search', () => ({
+  LocalSearch: { getInstance: () => mockLocalSearch },
+}));
+
+function searchResults(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    content: `Summary ${index}`,
+    source: `Community ${index}`,
+    score: 1 - index / 10,
+    metadata: { type: 'community', communityId: `c${index}` },
+  }));
+}
+
+describe('UnifiedSearch global strategy', () => {
+  let unifiedSearch: UnifiedSearch;
+
+  beforeEach(() => {
+    mockGlobalSearch.search.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    unifiedSearch = UnifiedSearch.getInstance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes the query and the level override to global search', async () => {
+    mockGlobalSearch.search.mockResolvedValue(searchResults(5));
+
+    const results = await unifiedSearch.search(
+      { query: 'main themes', limit: 3 },
+      { strategy: 'global', qaOptions: { level: 2 } }
+    );
+
+    expect(mockGlobalSearch.search).toHaveBeenCalledWith('main themes', expect.objectContaining({ level: 2, maxCommunities: 50 }));
+    expect(results.map(result => result.metadata?.communityId)).toEqual(['c0', 'c1', 'c2']);
+  });
+
+  it("keeps the strategy's level when none is requested", async () => {
+    mockGlobalSearch.search.mockResolvedValue([]);
+
+    await unifiedSearch.search({ query: 'main themes' }, { strategy: 'global' });
+
+    expect(mockGlobalSearch.search.mock.calls[0][1].level).toBeUndefined();
+  });
+});
+
+describe('UnifiedSearch local strategy', () => {
+  let unifiedSearch: UnifiedSearch;
+
+  beforeEach(() => {
+    mockLocalSearch.search.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    unifiedSearch = UnifiedSearch.getInstance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('limits the assembled results to the requested count', async () => {
+    mockLocalSearch.search.mockResolvedValue(searchResults(12));
+
+    const limited = await unifiedSearch.search({ query: 'GreenZero', limit: 4 }, { strategy: 'local' });
+    const byDefault = await unifiedSearch.search({ query: 'GreenZero' }, { strategy: 'local' });
+
+    expect(mockLocalSearch.search).toHaveBeenCalledWith('GreenZero', expect.objectContaining({ topKEntities: 10 }));
+    expect(limited).toHaveLength(4);
+    expect(byDefault).toHaveLength(10);
+  });
+});
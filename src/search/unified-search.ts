@@ -1,7 +1,19 @@
 import neo4j from 'neo4j-driver';
 import { neo4jManager } from '../database/neo4j';
-import { SearchQuery, SearchResult } from '../models/types';
+import { SearchQuery, SearchResult, AnswerStreamEvent, Citation, GroundingReport } from '../models/types';
 import { serviceManager } from '../services/service-manager';
+import { GlobalSearch, GlobalSearchOptions } from './global-search';
+import { LocalSearch, LocalSearchOptions } from './local-search';
+import { QAService, AnswerVerificationOptions } from '../services/vector-index/qa-service';
+import { SearchResult as VectorSearchResult } from '../services/vector-index/vector-search';
+import { LLMGenerateOptions } from '../services/llm/llm-provider';
+import { DEFAULT_FUSION, fuseResults, FusionOptions, toScore } from './fusion';
+import { queryFulltextIndex } from './fulltext-query';
+import { rerankResults, RerankOptions } from './rerank';
+import { QueryTranslator } from './query-translator';
+import { detectLanguage, getFulltextAnalyzer, UNDETERMINED_LANGUAGE } from '../services/language-detector';
+import { getSearchConfig } from '../config/unified-config';
+import { fromMetadataProperties, toMetadataFilters } from '../services/chunk-metadata';
 
 export interface SearchStrategy {
   name: string;
@@ -14,23 +26,42 @@ export interface SearchStrategy {
   };
   textSearchOptions?: {
     limit?: number;
+    analyzers?: string[];  // Full-text analyzers to query (default: every configured language)
   };
+  useGlobalSearch?: boolean;
+  globalSearchOptions?: GlobalSearchOptions;
+  useLocalSearch?: boolean;
+  localSearchOptions?: LocalSearchOptions;
+  fusion?: FusionOptions;  // How vector and text rankings are combined (default: weighted, minmax-calibrated)
+  rerank?: RerankOptions;  // Re-score the top fused candidates against the query (default: off)
 }
 
+// Cross-lingual search translates into at most this many of the most frequent corpus languages
+const MAX_CORPUS_LANGUAGES = 3;
+const CORPUS_LANGUAGES_TTL = 5 * 60 * 1000;
+
 export interface UnifiedSearchOptions {
   strategy?: string | SearchStrategy;
   fallbackToText?: boolean;
+  rerank?: RerankOptions | false;  // Overrides the strategy's reranker; false disables it
+  crossLingual?: boolean;          // Also search translations of the query (default: CROSS_LINGUAL_SEARCH)
   enableQA?: boolean;
   qaOptions?: {
     topK?: number;
     threshold?: number;
+    level?: number; // Community level for global search
+    verification?: AnswerVerificationOptions;
   };
 }
 
 export class UnifiedSearch {
   private static instance: UnifiedSearch | null = null;
   private vectorSearchService: any;
-  private qaService: any;
+  private qaService: QAService;
+  private globalSearch: GlobalSearch;
+  private localSearch: LocalSearch;
+  private queryTranslator = new QueryTranslator();
+  private corpusLanguages: { languages: string[]; checkedAt: number } | null = null;
   
   // Predefined search strategies
   private readonly searchStrategies: Map<string, SearchStrategy> = new Map([
@@ -57,7 +88,48 @@ export class UnifiedSearch {
         includeAdjacentChunks: true,
         contextWindow: 2
       },
-      textSearchOptions: { limit: 2 }
+      textSearchOptions: { limit: 2 },
+      fusion: {
+        method: 'weighted',
+        calibration: 'minmax',
+        weights: { vector: 0.7, text: 0.3 }
+      }
+    }],
+    ['hybrid-balanced', {
+      name: 'hybrid-balanced',
+      description: 'Vector and text search merged by reciprocal rank fusion, robust when their scores are not comparable',
+      useVectorSearch: true,
+      useTextSearch: true,
+      vectorSearchOptions: { 
+        topK: 8, 
+        threshold: 0.5,
+        includeAdjacentChunks: false,
+        contextWindow: 2
+      },
+      textSearchOptions: { limit: 8 },
+      fusion: { method: 'rrf', k: 60 }
+    }],
+    ['hybrid-reranked', {
+      name: 'hybrid-reranked',
+      description: 'Reciprocal rank fusion followed by LLM listwise reranking of the top 20 candidates, most precise but slowest',
+      useVectorSearch: true,
+      useTextSearch: true,
+      vectorSearchOptions: { 
+        topK: 8, 
+        threshold: 0.5,
+        includeAdjacentChunks: false,
+        contextWindow: 2
+      },
+      textSearchOptions: { limit: 12 },
+      fusion: { method: 'rrf', k: 60 },
+      rerank: { provider: 'llm', topN: 20 }
+    }],
+    ['text-only', {
+      name: 'text-only',
+      description: 'Only use text search, suitable for exact names and phrases',
+      useVectorSearch: false,
+      useTextSearch: true,
+      textSearchOptions: { limit: 8 }
     }],
     ['vector-with-context', {
       name: 'vector-with-context',
@@ -70,6 +142,31 @@ export class UnifiedSearch {
         includeAdjacentChunks: true,
         contextWindow: 2
       }
+    }],
+    ['global', {
+      name: 'global',
+      description: 'Map-reduce over community summaries, suitable for corpus-wide questions about main themes',
+      useVectorSearch: false,
+      useTextSearch: false,
+      useGlobalSearch: true,
+      globalSearchOptions: {
+        maxCommunities: 50,
+        batchSize: 5,
+        maxPoints: 20
+      }
+    }],
+    ['local', {
+      name: 'local',
+      description: 'Entity-centric search that expands from matched entities through the graph, suitable for questions about specific entities',
+      useVectorSearch: false,
+      useTextSearch: false,
+      useLocalSearch: true,
+      localSearchOptions: {
+        topKEntities: 10,
+        threshold: 0.5,
+        hops: 1,
+        maxTokens: 4000
+      }
     }]
   ]);
 
@@ -77,6 +174,8 @@ export class UnifiedSearch {
     // Use ServiceManager to get service instances
     this.vectorSearchService = serviceManager.getVectorSearchService();
     this.qaService = serviceManager.getQAService();
+    this.globalSearch = GlobalSearch.getInstance();
+    this.localSearch = LocalSearch.getInstance();
     
     console.log('🔍 UnifiedSearch initialized with ServiceManager');
   }
@@ -113,78 +212,81 @@ export class UnifiedSearch {
    * Unified search method
    */
   async search(query: SearchQuery, options: UnifiedSearchOptions = {}): Promise<SearchResult[]> {
+    const { results, reranked } = await this.searchRankings(query, options);
+    return reranked || results;
+  }
+
+  /**
+   * Retrieve and fuse once, returning the fused ranking and, when a reranker applies, the reranked one.
+   * Both are filtered and limited the same way, so they can be compared side by side.
+   */
+  async searchRankings(
+    query: SearchQuery,
+    options: UnifiedSearchOptions = {}
+  ): Promise<{ results: SearchResult[]; reranked: SearchResult[] | null }> {
     try {
       console.log(`🔍 Unified search: "${query.query}"`);
       
       const strategy = this.resolveStrategy(options.strategy);
       console.log(`   📋 Using strategy: ${strategy.name} - ${strategy.description}`);
       
-      const results: SearchResult[] = [];
-
-      // 1. Vector search
-      if (strategy.useVectorSearch) {
-        try {
-          const vectorResults = await this.performVectorSearch(query, strategy.vectorSearchOptions);
-          
-          // Add debug information
-          console.log(`   🔍 Vector search result validation: ${vectorResults.length} results`);
-          if (vectorResults.length > 0) {
-            console.log(`   📋 First vector result:`, {
-              hasContent: !!vectorResults[0].content,
-              contentType: typeof vectorResults[0].content,
-              contentLength: vectorResults[0].content?.length || 0,
-              hasSource: !!vectorResults[0].source,
-              hasScore: vectorResults[0].score !== undefined
-            });
-          }
-          
-          results.push(...vectorResults);
-          console.log(`   📊 Vector search found ${vectorResults.length} results`);
-        } catch (error) {
-          console.warn('⚠️ Vector search failed:', error);
-          if (!strategy.useTextSearch && options.fallbackToText !== false) {
-            console.log('   🔄 Fallback to text search');
-            const textResults = await this.performTextSearch(query, { limit: Math.floor(query.limit || 10) });
-            results.push(...textResults);
-          }
-        }
+      // Ranked results of every retriever, fused into one list below
+      const resultsByRetriever: Record<string, SearchResult[]> = {};
+
+      // Global search returns community summaries instead of chunks
+      if (strategy.useGlobalSearch) {
+        const communityResults = await this.globalSearch.search(query.query, {
+          ...strategy.globalSearchOptions,
+          level: options.qaOptions?.level ?? strategy.globalSearchOptions?.level,
+        });
+        console.log(`   📊 Global search found ${communityResults.length} community summaries`);
+        return { results: communityResults.slice(0, Math.floor(query.limit || 10)), reranked: null };
+      }
+
+      // Local search assembles its own context under a token budget, so results are not re-ranked
+      if (strategy.useLocalSearch) {
+        const localResults = await this.localSearch.search(query.query, strategy.localSearchOptions);
+        console.log(`   📊 Local search assembled ${localResults.length} results`);
+        return { results: localResults.slice(0, Math.floor(query.limit || 10)), reranked: null };
       }
 
-      // 2. Text search
-      if (strategy.useTextSearch) {
-        try {
-          const textResults = await this.performTextSearch(query, strategy.textSearchOptions);
-          
-          // Add debug information
-          console.log(`   🔍 Text search result validation: ${textResults.length} results`);
-          if (textResults.length > 0) {
-            console.log(`   📋 First text result:`, {
-              hasContent: !!textResults[0].content,
-              contentType: typeof textResults[0].content,
-              contentLength: textResults[0].content?.length || 0,
-              hasSource: !!textResults[0].source,
-              hasScore: textResults[0].score !== undefined
-            });
+      // 1-2. Vector and text search, for the query and, in cross-lingual mode, its translations
+      const variants = this.isCrossLingual(options) ? await this.getQueryVariants(query.query) : [];
+      let fusion = strategy.fusion || DEFAULT_FUSION;
+      if (variants.length > 1) {
+        for (const variant of variants) {
+          console.log(`   🌐 Searching ${variant.language}: "${variant.query}"`);
+          const variantResults = await this.retrieve({ ...query, query: variant.query }, strategy, options, variant.language);
+          for (const [retriever, results] of Object.entries(variantResults)) {
+            resultsByRetriever[`${retriever}:${variant.language}`] = results;
           }
-          
-          results.push(...textResults);
-          console.log(`   📊 Text search found ${textResults.length} results`);
-        } catch (error) {
-          console.warn('⚠️ Text search failed:', error);
         }
+        fusion = this.getCrossLingualFusion(fusion, Object.keys(resultsByRetriever));
+      } else {
+        Object.assign(resultsByRetriever, await this.retrieve(query, strategy, options));
       }
 
-      // 3. Result optimization
+      // 3. Fuse the retrievers' rankings, then filter and limit
+      const fusedResults = fuseResults(resultsByRetriever, fusion);
+      console.log(`   🔀 Fused ${Object.keys(resultsByRetriever).join(' + ') || 'no'} results with ${fusion.method}${fusion.method === 'weighted' ? ` (${fusion.calibration || 'minmax'})` : ''}`);
+
+      // 4. Optionally rerank the top candidates against the query
+      const rerank = options.rerank === undefined ? strategy.rerank : options.rerank;
+      const rerankedResults = rerank
+        ? await rerankResults(query.query, fusedResults, rerank)
+        : null;
+      
       // Use strategy's topK if available, otherwise fall back to query limit
       const resultLimit = strategy.vectorSearchOptions?.topK || Math.floor(query.limit || 10);
-      const optimizedResults = this.optimizeResults(results, resultLimit);
+      const optimizedResults = this.optimizeResults(fusedResults, resultLimit);
+      const optimizedReranked = rerankedResults && this.optimizeResults(rerankedResults, resultLimit);
       
       console.log(`📊 Unified search completed, final results: ${optimizedResults.length} (limit: ${resultLimit})`);
-      return optimizedResults;
+      return { results: optimizedResults, reranked: optimizedReranked };
 
     } catch (error) {
       console.error('❌ Unified search failed:', error);
-      return [];
+      return { results: [], reranked: null };
     }
   }
 
@@ -195,15 +297,38 @@ export class UnifiedSearch {
     answer: string;
     confidence: number;
     sources: any[];
+    citations: Citation[];
+    grounding?: GroundingReport;
     searchResults: SearchResult[];
   }> {
     try {
       console.log(`🤖 Smart QA: "${question}"`);
+
+      // Corpus-wide questions are answered by map-reduce over community summaries
+      const strategy = this.resolveStrategy(options.strategy || 'hybrid-vector-heavy');
+      if (strategy.useGlobalSearch) {
+        const globalAnswer = await this.globalSearch.answer(question, {
+          ...strategy.globalSearchOptions,
+          level: options.qaOptions?.level ?? strategy.globalSearchOptions?.level,
+        });
+
+        return {
+          answer: globalAnswer.answer,
+          confidence: globalAnswer.confidence,
+          sources: globalAnswer.communities.map(result => ({
+            text: result.content.substring(0, 100) + '...',
+            score: result.score,
+            metadata: result.metadata
+          })),
+          citations: [],
+          searchResults: globalAnswer.communities
+        };
+      }
       
-      // Use hybrid strategy for one-time search, avoid duplicate search
+      // Use hybrid strategy by default for one-time search, avoid duplicate search
       const searchResults = await this.search(
         { query: question, limit: options.qaOptions?.topK || 5 },
-        { strategy: 'hybrid-vector-heavy' }  // Use hybrid strategy, one search to get best results
+        { strategy, crossLingual: options.crossLingual }
       );
 
       if (searchResults.length === 0) {
@@ -211,43 +336,27 @@ export class UnifiedSearch {
           answer: 'Sorry, I could not find relevant information to answer your question.',
           confidence: 0,
           sources: [],
+          citations: [],
           searchResults: []
         };
       }
 
       console.log(`📊 Search completed, found ${searchResults.length} relevant results, starting to generate answer...`);
 
-      // Convert search result format to match QA service expected format
-      const convertedSearchResults = searchResults.map(result => ({
-        id: result.metadata?.chunkId || result.source,
-        text: result.content,
-        score: result.score,
-        metadata: {
-          documentId: result.metadata?.documentId || result.source,
-          chunkIndex: result.metadata?.chunkIndex || 0,
-          fileName: result.source
-        }
-      }));
-
       // Directly use search results to generate answer, avoid duplicate search in QA service
-      const qaResult = await this.qaService.generateAnswerFromResults(question, convertedSearchResults);
+      const qaResult = await this.qaService.generateAnswerFromResults(
+        question,
+        this.toQAResults(searchResults),
+        options.qaOptions?.verification
+      );
 
       return {
         answer: qaResult.answer,
         confidence: qaResult.confidence,
         sources: qaResult.sources,
-        searchResults: qaResult.searchResults.map((result: any) => ({
-          content: result.text,
-          source: result.metadata.fileName || result.id,
-          score: result.score,
-          metadata: {
-            type: 'qa_chunk',
-            chunkId: result.id,
-            documentId: result.metadata.documentId,
-            chunkIndex: result.metadata.chunkIndex,
-            searchMethod: 'hybrid'
-          }
-        }))
+        citations: qaResult.citations,
+        grounding: qaResult.grounding,
+        searchResults: this.fromQAResults(qaResult.searchResults)
       };
 
     } catch (error) {
@@ -256,38 +365,116 @@ export class UnifiedSearch {
         answer: 'Sorry, I cannot answer this question. Please try rephrasing your question.',
         confidence: 0,
         sources: [],
+        citations: [],
         searchResults: []
       };
     }
   }
 
+  /**
+   * Smart QA as a stream of answer events: sources first, then tokens, then references
+   */
+  async *askQuestionStream(
+    question: string,
+    options: UnifiedSearchOptions = {},
+    generateOptions: LLMGenerateOptions = {}
+  ): AsyncGenerator<AnswerStreamEvent> {
+    console.log(`🌊 Streaming smart QA: "${question}"`);
+
+    const strategy = this.resolveStrategy(options.strategy || 'hybrid-vector-heavy');
+    yield { type: 'search_started', query: question, strategy: strategy.name };
+
+    // Global answers come from a single reduce step, so they are emitted in one piece
+    if (strategy.useGlobalSearch) {
+      const globalAnswer = await this.globalSearch.answer(question, {
+        ...strategy.globalSearchOptions,
+        level: options.qaOptions?.level ?? strategy.globalSearchOptions?.level,
+      });
+
+      yield { type: 'sources', sources: globalAnswer.communities };
+      yield { type: 'token', content: globalAnswer.answer };
+      yield {
+        type: 'references',
+        references: globalAnswer.communities.map(result => result.metadata?.communityId),
+        confidence: globalAnswer.confidence
+      };
+      return;
+    }
+
+    const searchResults = await this.search(
+      { query: question, limit: options.qaOptions?.topK || 5 },
+      { strategy, crossLingual: options.crossLingual }
+    );
+    yield { type: 'sources', sources: searchResults };
+
+    yield* this.qaService.streamAnswerFromResults(
+      question,
+      this.toQAResults(searchResults),
+      generateOptions,
+      options.qaOptions?.verification
+    );
+  }
+
+  /**
+   * Convert search results to the format expected by the QA service
+   */
+  private toQAResults(searchResults: SearchResult[]): VectorSearchResult[] {
+    return searchResults.map(result => ({
+      id: result.metadata?.chunkId || result.source,
+      text: result.content,
+      score: result.score,
+      metadata: {
+        documentId: result.metadata?.documentId || result.source,
+        chunkIndex: result.metadata?.chunkIndex || 0,
+        contentOffset: result.metadata?.contentOffset,
+        fileName: result.metadata?.fileName || result.source,
+        page: result.metadata?.page,
+        section: result.metadata?.section
+      }
+    }));
+  }
+
+  /**
+   * Convert QA service results back to unified search results
+   */
+  private fromQAResults(results: VectorSearchResult[]): SearchResult[] {
+    return results.map(result => ({
+      content: result.text,
+      source: result.metadata.fileName || result.id,
+      score: result.score,
+      metadata: {
+        type: 'qa_chunk',
+        chunkId: result.id,
+        documentId: result.metadata.documentId,
+        chunkIndex: result.metadata.chunkIndex,
+        contentOffset: result.metadata.contentOffset,
+        page: result.metadata.page,
+        section: result.metadata.section,
+        searchMethod: 'hybrid'
+      }
+    }));
+  }
+
   /**
    * Document search
    */
   async searchDocuments(query: SearchQuery): Promise<SearchResult[]> {
     try {
-      const limit = Math.floor(query.limit || 5);
-      const cypherQuery = `
-        MATCH (d:__Document__)
-        WHERE d.title CONTAINS $query OR d.filename CONTAINS $query
-        RETURN d.title as content, d.filename as source, 
-               size([x IN split(toLower(d.title), toLower($query)) WHERE x <> '']) as score
-        ORDER BY score DESC
-        LIMIT $limit
-      `;
-
-      const results = await neo4jManager.executeQuery(cypherQuery, {
+      const matches = await queryFulltextIndex({
+        label: '__Document__',
+        properties: ['title', 'fileName'],
         query: query.query,
-        limit: neo4j.int(limit)
+        limit: Math.floor(query.limit || 5),
       });
 
-      return results.map((result: any) => ({
-        content: result.content,
-        source: result.source,
-        score: result.score,
+      return matches.map(match => ({
+        content: match.node.title || match.node.fileName,
+        source: match.node.fileName,
+        score: match.score,
         metadata: {
           type: 'document',
-          filename: result.source,
+          filename: match.node.fileName,
+          analyzer: match.analyzer,
           searchMethod: 'text'
         },
       }));
@@ -302,30 +489,25 @@ export class UnifiedSearch {
    */
   async getContext(query: string, limit: number = 3): Promise<SearchResult[]> {
     try {
-      const limitInt = Math.floor(limit);
-      const cypherQuery = `
-        MATCH (c:__Chunk__)-[:PART_OF]->(d:__Document__)
-        WHERE c.text CONTAINS $query
-        RETURN c.text as content, d.filename as source, 
-               size([x IN split(toLower(c.text), toLower($query)) WHERE x <> '']) as score,
-               c.chunk_index as chunkIndex, d.title as documentTitle
-        ORDER BY score DESC, c.chunk_index ASC
-        LIMIT $limit
-      `;
-
-      const results = await neo4jManager.executeQuery(cypherQuery, {
+      const matches = await queryFulltextIndex({
+        label: '__Chunk__',
+        properties: ['text'],
         query,
-        limit: neo4j.int(limitInt),
+        limit: Math.floor(limit),
       });
 
-      return results.map((result: any) => ({
-        content: result.content,
-        source: result.source,
-        score: result.score,
+      return matches.map(match => ({
+        content: match.node.text,
+        source: match.node.fileName,
+        score: match.score,
         metadata: {
           type: 'context',
-          chunkIndex: result.chunkIndex,
-          documentTitle: result.documentTitle,
+          chunkId: match.node.id,
+          chunkIndex: match.node.chunk_index,
+          contentOffset: match.node.content_offset,
+          page: match.node.page,
+          section: match.node.section,
+          analyzer: match.analyzer,
           searchMethod: 'text'
         },
       }));
@@ -425,7 +607,8 @@ export class UnifiedSearch {
       topK: topK,
       threshold: options.threshold || 0.5,
       includeAdjacentChunks: options.includeAdjacentChunks || false,
-      contextWindow: Math.floor(options.contextWindow || 2)
+      contextWindow: Math.floor(options.contextWindow || 2),
+      filters: toMetadataFilters(query.filters)
     });
 
     // Add safety check, filter out invalid results
@@ -450,37 +633,200 @@ export class UnifiedSearch {
         chunkId: result.id || 'unknown',
         documentId: result.metadata?.documentId || 'unknown',
         chunkIndex: result.metadata?.chunkIndex || 0,
+        contentOffset: result.metadata?.contentOffset,
+        fileName: result.metadata?.fileName,
+        language: result.metadata?.language,
+        page: result.metadata?.page,
+        section: result.metadata?.section,
+        locator: result.metadata?.locator,
+        fields: result.metadata?.fields,
         searchMethod: 'vector'
       }
     }));
   }
 
+  /**
+   * Run the strategy's vector and text retrievers; results are keyed by retriever
+   */
+  private async retrieve(
+    query: SearchQuery,
+    strategy: SearchStrategy,
+    options: UnifiedSearchOptions,
+    language?: string
+  ): Promise<Record<string, SearchResult[]>> {
+    const resultsByRetriever: Record<string, SearchResult[]> = {};
+
+    // 1. Vector search
+    if (strategy.useVectorSearch) {
+      try {
+        const vectorResults = await this.performVectorSearch(query, strategy.vectorSearchOptions);
+        
+        // Add debug information
+        console.log(`   🔍 Vector search result validation: ${vectorResults.length} results`);
+        if (vectorResults.length > 0) {
+          console.log(`   📋 First vector result:`, {
+            hasContent: !!vectorResults[0].content,
+            contentType: typeof vectorResults[0].content,
+            contentLength: vectorResults[0].content?.length || 0,
+            hasSource: !!vectorResults[0].source,
+            hasScore: vectorResults[0].score !== undefined
+          });
+        }
+        
+        resultsByRetriever.vector = vectorResults;
+        console.log(`   📊 Vector search found ${vectorResults.length} results`);
+      } catch (error) {
+        console.warn('⚠️ Vector search failed:', error);
+        if (!strategy.useTextSearch && options.fallbackToText !== false) {
+          console.log('   🔄 Fallback to text search');
+          const textResults = await this.performTextSearch(query, { limit: Math.floor(query.limit || 10) });
+          resultsByRetriever.text = textResults;
+        }
+      }
+    }
+
+    // 2. Text search
+    if (strategy.useTextSearch) {
+      try {
+        // A translated query is only matched by the index whose analyzer fits its language
+        const textResults = await this.performTextSearch(query, {
+          ...strategy.textSearchOptions,
+          ...this.getTextSearchAnalyzers(language),
+        });
+        
+        // Add debug information
+        console.log(`   🔍 Text search result validation: ${textResults.length} results`);
+        if (textResults.length > 0) {
+          console.log(`   📋 First text result:`, {
+            hasContent: !!textResults[0].content,
+            contentType: typeof textResults[0].content,
+            contentLength: textResults[0].content?.length || 0,
+            hasSource: !!textResults[0].source,
+            hasScore: textResults[0].score !== undefined
+          });
+        }
+        
+        resultsByRetriever.text = textResults;
+        console.log(`   📊 Text search found ${textResults.length} results`);
+      } catch (error) {
+        console.warn('⚠️ Text search failed:', error);
+      }
+    }
+
+    return resultsByRetriever;
+  }
+
+  /**
+   * The query in its own language plus its translations into the other corpus languages.
+   * Empty when the corpus has no other language or no translation succeeded.
+   */
+  private async getQueryVariants(query: string): Promise<{ language: string; query: string }[]> {
+    const queryLanguage = detectLanguage(query).language;
+    const targetLanguages = (await this.getCorpusLanguages()).filter(language => language !== queryLanguage);
+    if (targetLanguages.length === 0) {
+      return [];
+    }
+
+    const translations = await this.queryTranslator.translate(query, targetLanguages);
+    if (Object.keys(translations).length === 0) {
+      return [];
+    }
+
+    return [
+      { language: queryLanguage, query },
+      ...Object.entries(translations).map(([language, translation]) => ({ language, query: translation })),
+    ];
+  }
+
+  /**
+   * Languages of the stored chunks, most frequent first; CORPUS_LANGUAGES overrides detection
+   */
+  private async getCorpusLanguages(): Promise<string[]> {
+    const configured = getSearchConfig().corpusLanguages;
+    if (configured.length > 0) {
+      return configured;
+    }
+
+    if (this.corpusLanguages && Date.now() - this.corpusLanguages.checkedAt < CORPUS_LANGUAGES_TTL) {
+      return this.corpusLanguages.languages;
+    }
+
+    try {
+      const results = await neo4jManager.executeQuery(`
+        MATCH (c:__Chunk__)
+        WHERE c.language IS NOT NULL AND c.language <> $undetermined
+        RETURN c.language AS language, count(*) AS chunks
+        ORDER BY chunks DESC
+        LIMIT $limit
+      `, {
+        undetermined: UNDETERMINED_LANGUAGE,
+        limit: neo4j.int(MAX_CORPUS_LANGUAGES),
+      });
+      this.corpusLanguages = { languages: results.map(result => result.language), checkedAt: Date.now() };
+    } catch (error) {
+      console.warn('⚠️ Failed to read corpus languages:', error);
+      return [];
+    }
+
+    return this.corpusLanguages.languages;
+  }
+
+  /**
+   * Rankings of several languages are merged by rank, since scores of translated queries
+   * aren't comparable; each retriever keeps the strategy's weight in every language
+   */
+  private getCrossLingualFusion(fusion: FusionOptions, retrievers: string[]): FusionOptions {
+    return {
+      method: 'rrf',
+      k: fusion.k,
+      weights: Object.fromEntries(
+        retrievers.map(retriever => [retriever, fusion.weights?.[retriever.split(':')[0]] ?? 1])
+      ),
+    };
+  }
+
+  /**
+   * Restrict text search to the configured analyzer of a language, if there is one
+   */
+  private getTextSearchAnalyzers(language?: string): { analyzers?: string[] } {
+    const analyzer = language ? getFulltextAnalyzer(language) : undefined;
+    return analyzer && getSearchConfig().fulltextAnalyzers.includes(analyzer) ? { analyzers: [analyzer] } : {};
+  }
+
+  /**
+   * Whether to search translations of the query; CROSS_LINGUAL_SEARCH sets the default
+   */
+  private isCrossLingual(options: UnifiedSearchOptions): boolean {
+    return options.crossLingual ?? getSearchConfig().crossLingual;
+  }
+
   /**
    * Perform text search
    */
   private async performTextSearch(query: SearchQuery, options: any = {}): Promise<SearchResult[]> {
-    const limit = Math.floor(options.limit || query.limit || 10);
-    const cypherQuery = `
-      MATCH (c:__Chunk__)
-      WHERE c.text CONTAINS $query
-      WITH c, 
-           toLower(c.text) as lowerText,
-           toLower($query) as lowerQuery
-      RETURN c.text as content, 
-             c.id as source, 
-             CASE 
-               WHEN lowerText CONTAINS lowerQuery THEN 0.8
-               ELSE 0.3
-             END as score
-      ORDER BY score DESC, c.chunk_index ASC
-      LIMIT $limit
-    `;
-    
-    const results = await neo4jManager.executeQuery(cypherQuery, {
+    const matches = await queryFulltextIndex({
+      label: '__Chunk__',
+      properties: ['text'],
       query: query.query,
-      limit: neo4j.int(limit)
+      limit: Math.floor(options.limit || query.limit || 10),
+      analyzers: options.analyzers,
+      filters: toMetadataFilters(query.filters),
     });
 
+    const results = matches.map(match => ({
+      content: match.node.text,
+      source: match.node.id,
+      fileName: match.node.fileName,
+      contentOffset: match.node.content_offset,
+      language: match.node.language,
+      page: match.node.page,
+      section: match.node.section,
+      locator: match.node.locator,
+      fields: fromMetadataProperties(match.node),
+      score: match.score,
+      analyzer: match.analyzer,
+    }));
+
     // Add safety check, filter out invalid results
     const validResults = results.filter((result: any) => 
       result && 
@@ -496,17 +842,26 @@ export class UnifiedSearch {
     return validResults.map((result: any) => ({
       content: result.content,
       source: result.source || 'unknown',
-      score: result.score || 0,
+      score: toScore(result.score), // Lucene BM25 score (term occurrences when no index is online)
       metadata: {
         type: 'text_chunk',
         chunkId: result.source || 'unknown',
+        fileName: result.fileName,
+        contentOffset: result.contentOffset,
+        language: result.language,
+        page: result.page,
+        section: result.section,
+        locator: result.locator,
+        fields: result.fields,
+        analyzer: result.analyzer,
         searchMethod: 'text'
       },
     }));
   }
 
   /**
-   * Optimize search results
+   * Optimize search results: drop empty results and near-duplicates, then apply the limit.
+   * Results arrive ordered by fused score.
    */
   private optimizeResults(results: SearchResult[], limit: number): SearchResult[] {
     // 1. Filter out invalid results (ensure content field exists)
@@ -524,27 +879,18 @@ export class UnifiedSearch {
     
     console.log(`   📊 Filter invalid results: ${results.length} → ${validResults.length}`);
     
-    // 2. Normalize scores
-    const normalizedResults = validResults.map(result => ({
-      ...result,
-      normalizedScore: this.normalizeScore(result.score)
-    }));
-    
     // Add score debug information
-    console.log(`   📊 Score distribution:`, normalizedResults.map(r => ({
-      originalScore: r.score,
-      normalizedScore: (r as any).normalizedScore,
+    console.log(`   📊 Score distribution:`, validResults.map(r => ({
+      score: toScore(r.score),
+      retrievers: (r.metadata?.fusion?.contributions || []).map((c: any) => `${c.retriever}#${c.rank}`).join(', '),
       content: r.content.substring(0, 50) + '...'
     })));
     
-    // 3. Sort by normalized score
-    normalizedResults.sort((a, b) => b.normalizedScore - a.normalizedScore);
-    
-    // 4. Deduplication
+    // 2. Deduplication - fusion merges by chunk id, this catches identical text under different ids
     const seen = new Set<string>();
     const uniqueResults: SearchResult[] = [];
     
-    for (const result of normalizedResults) {
+    for (const result of validResults) {
       // Safely create deduplication key
       const contentPreview = result.content ? result.content.substring(0, 100) : '';
       const key = `${result.source || 'unknown'}_${contentPreview}`;
@@ -553,45 +899,15 @@ export class UnifiedSearch {
         seen.add(key);
         uniqueResults.push(result);
       }
-      
-      // Don't break early - let deduplication complete to preserve context
-      // if (uniqueResults.length >= limit) break;
     }
 
-    // 5. Quality filtering - lower threshold because text search scores may be low
-    const qualityThreshold = 0.01; // Reduced from 0.1 to 0.01
-    const filteredResults = uniqueResults.filter(result => 
-      (result as any).normalizedScore >= qualityThreshold
-    );
+    // 3. Apply limit after all processing is complete
+    const finalResults = uniqueResults.slice(0, limit);
 
-    // 6. Apply limit after all processing is complete
-    const finalResults = filteredResults.slice(0, limit);
-
-    console.log(`   📊 Optimization: ${validResults.length} → ${uniqueResults.length} → ${filteredResults.length} → ${finalResults.length}`);
-    console.log(`   🔍 Quality threshold: ${qualityThreshold}, final limit: ${limit}`);
+    console.log(`   📊 Optimization: ${validResults.length} → ${uniqueResults.length} → ${finalResults.length} (limit: ${limit})`);
     
     return finalResults;
   }
-
-  /**
-   * Normalize score
-   */
-  private normalizeScore(score: any): number {
-    if (typeof score === 'number') {
-      return Math.max(0, Math.min(1, score));
-    }
-    
-    if (typeof score === 'object' && score !== null) {
-      if (score.low !== undefined) {
-        return Math.max(0, Math.min(1, score.low / 100));
-      }
-      if (score.high !== undefined) {
-        return Math.max(0, Math.min(1, score.high / 100));
-      }
-    }
-    
-    return 0.5;
-  }
 }
 
 export default UnifiedSearch; 
\ No newline at end of file
@@ -6,6 +6,7 @@ import chatRouter from './routes/chat';
 import unifiedSearchRouter from './routes/unified-search';
 import { graphRouter } from './routes/graph';
 import { uploadRouter } from './routes/upload';
+import { documentsRouter } from './routes/documents';
 
 export class App {
   public app: express.Application;
@@ -60,6 +61,7 @@ export class App {
     this.app.use('/api/search', unifiedSearchRouter);
     this.app.use('/api/graph', graphRouter);
     this.app.use('/api/upload', uploadRouter);
+    this.app.use('/api/documents', documentsRouter);
 
     // Root path returns main page
     this.app.get('/', (req, res) => {
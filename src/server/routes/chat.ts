@@ -1,11 +1,8 @@
 import { Router, Request, Response } from 'express';
-import { SimpleAgent } from '../../agents/simple-agent';
-import { UnifiedSearch } from '../../search/unified-search';
 import { serviceManager } from '../../services/service-manager';
+import { sendAnswerStream, sendTextAnswerStream } from '../sse';
 
 const router = Router();
-const agent = new SimpleAgent();
-const unifiedSearch = UnifiedSearch.getInstance();
 
 // Send message
 router.post('/message', async (req: Request, res: Response) => {
@@ -21,45 +18,30 @@ router.post('/message', async (req: Request, res: Response) => {
 
     console.log(`💬 Received message: ${message} (session: ${sessionId}, stream: ${stream})`);
     
-    if (stream) {
-      // Stream answer
-      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-      res.setHeader('Transfer-Encoding', 'chunked');
-      
-      // Use UnifiedSearch to perform a search once, avoiding duplicate searches
-      const searchResults = await unifiedSearch.search({
-        query: message,
-        limit: 5
-      }, { strategy: 'hybrid-vector-heavy' });
-      
-      const session = (serviceManager.getAgent() as any).getOrCreateSession(sessionId);
-      
-      try {
-        const streamGenerator = await serviceManager.getAgent().generateStreamAnswer(message, searchResults, session);
-        
-        for await (const chunk of streamGenerator) {
-          res.write(chunk);
-        }
-        
-        res.end();
-      } catch (error) {
-        console.error('❌ Stream answer generation failed:', error);
-        res.write(`\n\n**Error occurred while generating answer**: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        res.end();
-      }
+    // SSE mode: typed events instead of raw text, requested via `stream: "sse"` or the Accept header
+    if (stream === 'sse' || (stream && req.accepts(['text/plain', 'text/event-stream']) === 'text/event-stream')) {
+      await sendAnswerStream(res, signal =>
+        serviceManager.getAgent().streamQueryEvents(sessionId, message, { signal })
+      );
+    } else if (stream) {
+      // Plain text answer; the agent records both turns just as for SSE
+      await sendTextAnswerStream(res, signal =>
+        serviceManager.getAgent().streamQueryEvents(sessionId, message, { signal })
+      );
     } else {
-      // Regular answer - using UnifiedSearch results
-      const searchResults = await unifiedSearch.search({
-        query: message,
-        limit: 5
-      }, { strategy: 'hybrid-vector-heavy' });
-      
-      const answer = await serviceManager.getAgent().processQueryWithResults(sessionId, message, searchResults);
+      // Regular answer - the agent rewrites follow-up questions before searching
+      const { answer, rewrittenQuery, citations } = await serviceManager.getAgent().processQuery(
+        sessionId,
+        message,
+        { strategy: 'hybrid-vector-heavy' }
+      );
       
       res.json({
         success: true,
         data: {
           answer,
+          citations,
+          rewrittenQuery,
           sessionId,
           timestamp: new Date().toISOString(),
         },
@@ -74,11 +56,34 @@ router.post('/message', async (req: Request, res: Response) => {
   }
 });
 
+// List sessions with pagination
+router.get('/sessions', async (req: Request, res: Response) => {
+  try {
+    const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+    const page = await serviceManager.getAgent().listSessions(offset, limit);
+    
+    res.json({
+      success: true,
+      data: {
+        ...page,
+        hasMore: offset + page.sessions.length < page.total,
+      },
+    });
+  } catch (error) {
+    console.error('❌ Failed to list sessions:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Error occurred while listing sessions',
+    });
+  }
+});
+
 // Get session history
-router.get('/history/:sessionId', (req: Request, res: Response) => {
+router.get('/history/:sessionId', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const history = serviceManager.getAgent().getSessionHistory(sessionId);
+    const history = await serviceManager.getAgent().getSessionHistory(sessionId);
     
     res.json({
       success: true,
@@ -98,10 +103,10 @@ router.get('/history/:sessionId', (req: Request, res: Response) => {
 });
 
 // Clear session
-router.delete('/session/:sessionId', (req: Request, res: Response) => {
+router.delete('/session/:sessionId', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const success = serviceManager.getAgent().clearSession(sessionId);
+    const success = await serviceManager.getAgent().clearSession(sessionId);
     
     res.json({
       success: true,
@@ -151,20 +156,20 @@ router.post('/suggestions', async (req: Request, res: Response) => {
   }
 });
 
-// Get Gemini service status
-router.get('/gemini/status', async (req: Request, res: Response) => {
+// Get LLM provider status (/gemini/status kept for older clients)
+router.get(['/llm/status', '/gemini/status'], async (req: Request, res: Response) => {
   try {
-    const status = await serviceManager.getAgent().getGeminiStatus();
+    const status = await serviceManager.getAgent().getLLMStatus();
     
     res.json({
       success: true,
       data: status,
     });
   } catch (error) {
-    console.error('❌ Failed to get Gemini status:', error);
+    console.error('❌ Failed to get LLM status:', error);
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Error occurred while getting Gemini status',
+      message: 'Error occurred while getting LLM status',
     });
   }
 });
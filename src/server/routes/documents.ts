@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import GraphService from '../../services/graph-service';
+
+const router = Router();
+const graphService = new GraphService();
+
+// Delete a document and the part of the graph only it contributed
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    console.log(`🗑️ Deleting document: ${id}`);
+
+    const summary = await graphService.deleteDocument(id);
+    if (!summary) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Document not found: ${id}`,
+      });
+    }
+
+    console.log(`✅ Deleted document ${summary.document.fileName}: ${summary.chunksDeleted} chunks, ${summary.entitiesDeleted} entities`);
+    res.json({
+      success: true,
+      data: {
+        ...summary,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Document deletion failed:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Error occurred while deleting the document; nothing was removed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export { router as documentsRouter };
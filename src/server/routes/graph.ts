@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import GraphService from '../../services/graph-service';
+import { CommunityService } from '../../services/community';
 import { neo4jManager } from '../../database/neo4j';
+import { embeddingManager } from '../../services/embedding-manager';
 
 const router = Router();
 const graphService = new GraphService();
+const communityService = new CommunityService();
 
 // Build knowledge graph
 router.post('/build', async (req: Request, res: Response) => {
@@ -19,22 +22,23 @@ router.post('/build', async (req: Request, res: Response) => {
 
     console.log(`🏗️ Starting knowledge graph construction: ${inputPath}`);
     
-    if (rebuild) {
-      await graphService.rebuildKnowledgeGraph(inputPath);
-    } else {
-      await graphService.buildKnowledgeGraph(inputPath);
-    }
+    const report = rebuild
+      ? await graphService.rebuildKnowledgeGraph(inputPath)
+      : await graphService.buildKnowledgeGraph(inputPath);
 
     // Validate build result
     const isValid = await graphService.validateBuild();
     
     res.json({
-      success: true,
+      success: report.success,
       data: {
         inputPath,
         rebuild,
         valid: isValid,
-        message: 'Knowledge graph construction completed',
+        report,
+        message: report.success
+          ? 'Knowledge graph construction completed'
+          : `Knowledge graph construction completed with ${report.failedFiles} failed files`,
         timestamp: new Date().toISOString(),
       },
     });
@@ -48,6 +52,64 @@ router.post('/build', async (req: Request, res: Response) => {
   }
 });
 
+// Detect communities and generate community summaries
+router.post('/communities', async (req: Request, res: Response) => {
+  try {
+    const { resolution, maxLevels, summarize = true } = req.body;
+
+    console.log('🏘️ Starting community detection');
+
+    const result = await communityService.buildCommunities({
+      resolution: resolution !== undefined ? parseFloat(resolution) : undefined,
+      maxLevels: maxLevels !== undefined ? parseInt(maxLevels) : undefined,
+      summarize,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        message: 'Community detection completed',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Community detection failed:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Error occurred during community detection',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Get communities
+router.get('/communities', async (req: Request, res: Response) => {
+  try {
+    const { level, limit = 100 } = req.query;
+
+    const communities = await communityService.getCommunities(
+      level !== undefined ? parseInt(level as string) : undefined,
+      parseInt(limit as string)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        communities,
+        count: communities.length,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Failed to get communities:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Error occurred while getting communities',
+    });
+  }
+});
+
 // Get database statistics
 router.get('/stats', async (req: Request, res: Response) => {
   try {
@@ -244,7 +306,7 @@ router.post('/test-indexes', async (req: Request, res: Response) => {
   try {
     console.log('📊 Testing index creation...');
     
-    await neo4jManager.createIndexes();
+    await neo4jManager.createIndexes(embeddingManager.embeddingSize);
     
     res.json({
       success: true,
@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
 import UnifiedSearch, { SearchStrategy, UnifiedSearchOptions } from '../../search/unified-search';
 import { embeddingManager } from '../../services/embedding-manager';
+import { sendAnswerStream } from '../sse';
+import { getEmbeddingProviderNames } from '../../services/vector-index/embedding-provider-registry';
+import { AnswerVerificationOptions } from '../../services/vector-index/qa-service';
+import { RerankOptions } from '../../search/rerank';
+import { SearchResult } from '../../models/types';
+import { toMetadataFilters } from '../../services/chunk-metadata';
 
 const router = Router();
 // Use singleton instance
@@ -46,12 +52,14 @@ router.get('/embedding/config', (req: Request, res: Response) => {
 
 router.put('/embedding/config', (req: Request, res: Response) => {
   try {
-    const { apiKey, model, baseURL, timeout, retryAttempts, retryDelay } = req.body;
+    const { provider, apiKey, model, baseURL, dimensions, timeout, retryAttempts, retryDelay } = req.body;
     
     embeddingManager.updateConfig({
+      provider,
       apiKey,
       model,
       baseURL,
+      dimensions,
       timeout,
       retryAttempts,
       retryDelay
@@ -63,9 +71,29 @@ router.put('/embedding/config', (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('❌ Update embedding config failed:', error);
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Failed to update embedding configuration'
+    });
+  }
+});
+
+router.get('/embedding/providers', async (req: Request, res: Response) => {
+  try {
+    const dimensionCheck = await embeddingManager.validateStoredDimension();
+    res.json({
+      success: true,
+      data: {
+        providers: getEmbeddingProviderNames(),
+        active: embeddingManager.getConfig().provider,
+        dimensionCheck
+      }
+    });
+  } catch (error) {
+    console.error('❌ Get embedding providers failed:', error);
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to update embedding configuration'
+      message: 'Failed to get embedding providers'
     });
   }
 });
@@ -134,6 +162,7 @@ router.post('/search', async (req: Request, res: Response) => {
       query, 
       limit = 10, 
       strategy = 'hybrid-balanced',
+      filters,
       options = {} 
     } = req.body;
 
@@ -144,6 +173,22 @@ router.post('/search', async (req: Request, res: Response) => {
       });
     }
 
+    const filterError = validateFilters(filters);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: filterError,
+      });
+    }
+
+    const levelError = validateLevel(options.qaOptions?.level);
+    if (levelError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: levelError,
+      });
+    }
+
     console.log(`🔍 Unified search request: "${query}" (strategy: ${strategy})`);
 
     const searchOptions: UnifiedSearchOptions = {
@@ -152,7 +197,7 @@ router.post('/search', async (req: Request, res: Response) => {
       ...options
     };
 
-    const results = await unifiedSearch.search({ query, limit }, searchOptions);
+    const results = await unifiedSearch.search({ query, limit, filters }, searchOptions);
     
     // Get used strategy information
     const strategyInfo = unifiedSearch.getStrategy(strategy);
@@ -201,11 +246,30 @@ router.post('/qa', async (req: Request, res: Response) => {
 
     console.log(`🤖 Smart QA request: "${question}"`);
 
+    if (options.verifyMethod !== undefined && !['llm', 'lexical'].includes(options.verifyMethod)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'verifyMethod must be "llm" or "lexical"',
+      });
+    }
+
+    const levelError = validateLevel(options.level);
+    if (levelError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: levelError,
+      });
+    }
+
     const qaOptions: UnifiedSearchOptions = {
+      strategy: options.strategy,
+      crossLingual: options.crossLingual !== undefined ? Boolean(options.crossLingual) : undefined,
       enableQA: true,
       qaOptions: {
         topK: options.topK || 5,
-        threshold: options.threshold || 0.5
+        threshold: options.threshold || 0.5,
+        level: options.level !== undefined ? Number(options.level) : undefined,
+        verification: getVerificationOptions(options)
       }
     };
 
@@ -218,11 +282,15 @@ router.post('/qa', async (req: Request, res: Response) => {
         answer: result.answer,
         confidence: result.confidence,
         sources: result.sources,
+        citations: result.citations,
+        grounding: result.grounding,
         searchResults: result.searchResults,
         count: result.searchResults.length,
         type: 'smart_qa',
         metadata: {
           processingTime: Date.now(),
+          strategy: options.strategy || 'hybrid-vector-heavy',
+          level: qaOptions.qaOptions?.level,
           searchMethod: 'unified_qa'
         }
       },
@@ -389,7 +457,7 @@ router.get('/chunk/:chunkId', async (req: Request, res: Response) => {
  */
 router.post('/compare', async (req: Request, res: Response) => {
   try {
-    const { query, limit = 10, strategies = ['text-only', 'vector-only', 'hybrid-balanced'] } = req.body;
+    const { query, limit = 10, strategies = ['text-only', 'vector-only', 'hybrid-balanced'], rerank } = req.body;
 
     if (!query) {
       return res.status(400).json({
@@ -398,27 +466,50 @@ router.post('/compare', async (req: Request, res: Response) => {
       });
     }
 
+    if (rerank !== undefined && (!rerank || !['llm', 'lexical'].includes(rerank.provider))) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'rerank.provider must be "llm" or "lexical"',
+      });
+    }
+
     console.log(`🔍 Search comparison request: "${query}"`);
 
     // Execute searches with multiple strategies in parallel
     const comparisonResults = await Promise.all(
       strategies.map(async (strategy: string) => {
         try {
-          const results = await unifiedSearch.search(
+          const strategyInfo = unifiedSearch.getStrategy(strategy);
+          const rerankOptions: RerankOptions | undefined = rerank || strategyInfo?.rerank;
+
+          // The fused ranking and, when a reranker applies, the reranked one side by side
+          const { results, reranked: rerankedResults } = await unifiedSearch.searchRankings(
             { query, limit },
-            { strategy, fallbackToText: false }
+            { strategy, fallbackToText: false, rerank: rerankOptions || false }
           );
           
-          const strategyInfo = unifiedSearch.getStrategy(strategy);
+          // Cross-lingual retrievers are named per language, e.g. "vector:de"
+          const retrieversOf = (result: any): string[] => Array.from(new Set(
+            (result.metadata?.fusion?.contributions || []).map((entry: any) => entry.retriever.split(':')[0])
+          ));
           
           return {
             strategy: strategyInfo?.name || strategy,
             description: strategyInfo?.description || 'Custom strategy',
+            fusion: strategyInfo?.fusion || null,
+            rerank: rerankOptions || null,
             results,
+            ranking: getFusionRanking(results),
+            reranked: rerankedResults && {
+              results: rerankedResults,
+              ranking: getRerankRanking(rerankedResults),
+              count: rerankedResults.length,
+            },
             count: results.length,
             metadata: {
-              vectorResults: results.filter(r => r.metadata?.searchMethod === 'vector').length,
-              textResults: results.filter(r => r.metadata?.searchMethod === 'text').length
+              vectorResults: results.filter(r => retrieversOf(r).includes('vector')).length,
+              textResults: results.filter(r => retrieversOf(r).includes('text')).length,
+              sharedResults: results.filter(r => retrieversOf(r).length > 1).length
             }
           };
         } catch (error) {
@@ -456,76 +547,132 @@ router.post('/compare', async (req: Request, res: Response) => {
 
 /**
  * Streaming QA interface
+ *
+ * Responds with Server-Sent Events: `search_started`, `sources`, `token`, `references`,
+ * `error` and a final `done` event with timings. Closing the connection cancels generation.
  */
 router.post('/qa/stream', async (req: Request, res: Response) => {
-  try {
-    const { question, options = {} } = req.body;
+  const { question, options = {} } = req.body;
 
-    if (!question) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Question content cannot be empty',
-      });
-    }
+  if (!question) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'Question content cannot be empty',
+    });
+  }
 
-    console.log(`🌊 Streaming QA request: "${question}"`);
+  const strategy = options.strategy || 'hybrid-vector-heavy';
+  if (!unifiedSearch.getStrategy(strategy)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: `Unknown search strategy: ${strategy}`,
+    });
+  }
 
-    // Set streaming response headers
-    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-    res.setHeader('Transfer-Encoding', 'chunked');
+  if (options.verifyMethod !== undefined && !['llm', 'lexical'].includes(options.verifyMethod)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'verifyMethod must be "llm" or "lexical"',
+    });
+  }
 
-    // First perform search
-    const searchResults = await unifiedSearch.search(
-      { query: question, limit: options.topK || 5 },
-      { strategy: 'hybrid-balanced' }
-    );
+  const levelError = validateLevel(options.level);
+  if (levelError) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: levelError,
+    });
+  }
 
-    if (searchResults.length === 0) {
-      res.write('Sorry, I could not find relevant information to answer your question.');
-      res.end();
-      return;
+  console.log(`🌊 Streaming QA request: "${question}" (strategy: ${strategy})`);
+
+  const qaOptions: UnifiedSearchOptions = {
+    strategy,
+    crossLingual: options.crossLingual !== undefined ? Boolean(options.crossLingual) : undefined,
+    enableQA: true,
+    qaOptions: {
+      topK: options.topK || 5,
+      threshold: options.threshold || 0.5,
+      level: options.level !== undefined ? Number(options.level) : undefined,
+      verification: getVerificationOptions(options)
     }
+  };
 
-    // Build context
-    const context = searchResults.map((result, index) => 
-      `**Fragment ${index + 1}** (Source: ${result.source})\n${result.content}\n---`
-    ).join('\n');
-
-    // Build prompt
-    const prompt = `Answer the user's question based on the following search results:
-
-Search results:
-${context}
-
-User question: ${question}
-
-Please provide accurate and detailed answers based on the search results:`;
+  await sendAnswerStream(res, signal => unifiedSearch.askQuestionStream(question, qaOptions, { signal }));
+});
 
-    // Here you can integrate streaming AI generation
-    // For now, use simple streaming response
-    res.write('Generating answer...\n\n');
-    
-    // Simulate streaming generation
-    const answer = `Based on the search results, I'll answer your question: ${question}\n\n`;
-    for (let i = 0; i < answer.length; i++) {
-      res.write(answer[i]);
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
+/**
+ * Why results are in this order: each retriever's share of the fused score
+ */
+function getFusionRanking(results: SearchResult[]) {
+  return results.map((result, index) => ({
+    rank: index + 1,
+    chunkId: result.metadata?.chunkId,
+    score: result.score,
+    contributions: Object.fromEntries(
+      (result.metadata?.fusion?.contributions || []).map((entry: any) => [
+        entry.retriever,
+        { rank: entry.rank, rawScore: entry.rawScore, contribution: entry.contribution }
+      ])
+    )
+  }));
+}
 
-    res.write('\n\nReference sources:\n');
-    searchResults.forEach((result, index) => {
-      res.write(`${index + 1}. ${result.source}\n`);
-    });
+/**
+ * How far the reranker moved each result from its fused rank
+ */
+function getRerankRanking(results: SearchResult[]) {
+  return results.map((result, index) => {
+    const rerank = result.metadata?.rerank;
+    return {
+      rank: index + 1,
+      chunkId: result.metadata?.chunkId,
+      score: result.score,
+      provider: rerank?.provider || null,
+      originalRank: rerank?.originalRank ?? null,
+      originalScore: rerank?.originalScore ?? null,
+      rankChange: rerank ? rerank.originalRank - (index + 1) : null,
+    };
+  });
+}
 
-    res.end();
+/**
+ * Grounding verification options from a QA request: `verify`, `verifyMethod` and `regenerate`
+ */
+function getVerificationOptions(options: any): AnswerVerificationOptions {
+  return {
+    verify: options.verify !== undefined ? Boolean(options.verify) : undefined,
+    method: options.verifyMethod,
+    regenerate: options.regenerate !== undefined ? Boolean(options.regenerate) : undefined,
+  };
+}
 
+/**
+ * Error message for invalid metadata `filters`, or null when they are valid or absent
+ */
+function validateFilters(filters: any): string | null {
+  if (filters === undefined) return null;
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return 'filters must be an object of metadata field values';
+  }
+  try {
+    toMetadataFilters(filters);
+    return null;
   } catch (error) {
-    console.error('❌ Streaming QA failed:', error);
-    res.status(500).json({
-      error: 'Internal Server Error',
-      message: 'Error occurred during streaming QA'
-    });
+    return error instanceof Error ? error.message : String(error);
   }
-});
+}
+
+/**
+ * Error message for an invalid community `level`, or null when it is valid or absent
+ */
+function validateLevel(level: any): string | null {
+  if (level === undefined) return null;
+  const value = typeof level === 'string' && level.trim() !== '' ? Number(level) : level;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    return 'level must be a non-negative integer';
+  }
+  return null;
+}
 
 export default router; 
\ No newline at end of file
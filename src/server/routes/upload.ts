@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
+import path from 'path';
 import FileUploadService from '../../services/file-upload-service';
+import { getDocumentExtractor, getSupportedExtensions } from '../../services/extraction';
 
 const router = Router();
 const fileUploadService = new FileUploadService();
@@ -13,14 +15,12 @@ const upload = multer({
     files: 10, // Max 10 files
   },
   fileFilter: (req, file, cb) => {
-    // Check file type
-    const allowedTypes = ['.txt', '.md', '.json'];
-    const ext = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'));
-    
-    if (allowedTypes.includes(ext)) {
+    // Check file type against the registered extractors, by extension or, without one, by MIME type
+    if (getDocumentExtractor(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error(`Unsupported file type: ${ext}. Supported types: ${allowedTypes.join(', ')}`));
+      const ext = path.extname(file.originalname).toLowerCase() || file.mimetype;
+      cb(new Error(`Unsupported file type: ${ext}. Supported types: ${getSupportedExtensions().join(', ')}`));
     }
   },
 });
@@ -47,6 +47,7 @@ router.post('/files', upload.array('files', 10), async (req: Request, res: Respo
         message: result.message,
         data: {
           processedCount: result.processedCount,
+          unchangedCount: result.unchangedCount,
           totalCount: result.totalCount,
           files: files.map(f => ({
             originalName: f.originalname,
@@ -61,6 +62,7 @@ router.post('/files', upload.array('files', 10), async (req: Request, res: Respo
         message: result.message,
         data: {
           processedCount: result.processedCount,
+          unchangedCount: result.unchangedCount,
           totalCount: result.totalCount,
         },
       });
@@ -0,0 +1,182 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { AnswerStreamEvent } from '../models/types';
+import { sendAnswerStream, sendTextAnswerStream } from './sse';
+
+// Minimal Express response that records what was written and can simulate a client disconnect
+class FakeResponse extends EventEmitter {
+  statusCode = 0;
+  headers: Record<string, string> = {};
+  trailers: Record<string, string> = {};
+  chunks: string[] = [];
+  writableEnded = false;
+
+  get headersSent(): boolean {
+    return this.chunks.length > 0 || this.writableEnded;
+  }
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+
+  flushHeaders(): void {}
+
+  addTrailers(trailers: Record<string, string>): void {
+    Object.assign(this.trailers, trailers);
+  }
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  end(): void {
+    this.writableEnded = true;
+    this.emit('close');
+  }
+
+  disconnect(): void {
+    this.emit('close');
+  }
+
+  events(): AnswerStreamEvent[] {
+    return this.chunks.map(chunk => JSON.parse(chunk.split('\ndata: ')[1]));
+  }
+}
+
+describe('sendAnswerStream', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes typed events and finishes with a done event', async () => {
+    const res = new FakeResponse();
+
+    await sendAnswerStream(res as unknown as Response, async function* () {
+      yield { type: 'search_started', query: 'solar', strategy: 'local' };
+      yield { type: 'sources', sources: [] };
+      yield { type: 'token', content: 'Sunny' };
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('text/event-stream; charset=utf-8');
+    expect(res.chunks[2]).toBe('event: token\ndata: {"type":"token","content":"Sunny"}\n\n');
+
+    const events = res.events();
+    expect(events.map(event => event.type)).toEqual(['search_started', 'sources', 'token', 'done']);
+    const done = events[3];
+    expect(done.type === 'done' && done.cancelled).toBe(false);
+    expect(res.writableEnded).toBe(true);
+  });
+
+  it('reports failures as error events instead of answer content', async () => {
+    const res = new FakeResponse();
+
+    await sendAnswerStream(res as unknown as Response, async function* () {
+      yield { type: 'token', content: 'Partial' };
+      throw new Error('model unavailable');
+    });
+
+    expect(res.events()).toEqual([
+      { type: 'token', content: 'Partial' },
+      { type: 'error', message: 'model unavailable' },
+      expect.objectContaining({ type: 'done', cancelled: false }),
+    ]);
+  });
+
+  it('aborts the signal and stops writing when the client disconnects', async () => {
+    const res = new FakeResponse();
+    let seenSignal: AbortSignal | undefined;
+
+    await sendAnswerStream(res as unknown as Response, async function* (signal) {
+      seenSignal = signal;
+      yield { type: 'token', content: 'First' };
+      res.disconnect();
+      yield { type: 'token', content: 'Second' };
+    });
+
+    expect(seenSignal?.aborted).toBe(true);
+    expect(res.events()).toEqual([{ type: 'token', content: 'First' }]);
+    expect(res.writableEnded).toBe(true);
+  });
+});
+
+describe('sendTextAnswerStream', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the tokens as plain text with the rewritten query in a header', async () => {
+    const res = new FakeResponse();
+
+    await sendTextAnswerStream(res as unknown as Response, async function* () {
+      yield { type: 'search_started', query: 'and its price?', strategy: 'local', rewrittenQuery: 'solar panel price' };
+      yield { type: 'sources', sources: [] };
+      yield { type: 'token', content: 'About ' };
+      yield { type: 'token', content: '200 EUR [1]' };
+      yield { type: 'references', references: ['c1'] };
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('text/plain; charset=utf-8');
+    expect(res.headers['X-Rewritten-Query']).toBe('solar%20panel%20price');
+    expect(res.chunks.join('')).toBe('About 200 EUR [1]');
+    expect(res.writableEnded).toBe(true);
+  });
+
+  it('reports a failure after the first token in a trailer instead of the answer', async () => {
+    const res = new FakeResponse();
+
+    await sendTextAnswerStream(res as unknown as Response, async function* () {
+      yield { type: 'token', content: 'Partial' };
+      throw new Error('model unavailable');
+    });
+
+    expect(res.chunks).toEqual(['Partial']);
+    expect(res.trailers).toEqual({ 'X-Stream-Error': 'model%20unavailable' });
+    expect(res.writableEnded).toBe(true);
+  });
+
+  it('rethrows a failure before any output so the caller can respond with an error', async () => {
+    const res = new FakeResponse();
+
+    await expect(sendTextAnswerStream(res as unknown as Response, async function* () {
+      yield { type: 'search_started', query: 'solar', strategy: 'local' };
+      throw new Error('search failed');
+    })).rejects.toThrow('search failed');
+
+    expect(res.chunks).toEqual([]);
+    expect(res.writableEnded).toBe(false);
+  });
+
+  it('aborts the signal and stops writing when the client disconnects', async () => {
+    const res = new FakeResponse();
+    let seenSignal: AbortSignal | undefined;
+
+    await sendTextAnswerStream(res as unknown as Response, async function* (signal) {
+      seenSignal = signal;
+      yield { type: 'token', content: 'First' };
+      res.disconnect();
+      yield { type: 'token', content: 'Second' };
+    });
+
+    expect(seenSignal?.aborted).toBe(true);
+    expect(res.chunks).toEqual(['First']);
+    expect(res.writableEnded).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { Response } from 'express';
+import { AnswerStreamEvent } from '../models/types';
+
+/**
+ * Server-Sent Events writer that aborts its signal when the client disconnects
+ */
+export class SSEStream {
+  private res: Response;
+  private controller = new AbortController();
+
+  constructor(res: Response) {
+    this.res = res;
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+    res.flushHeaders();
+
+    // A close before we end the response means the client cancelled
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        this.controller.abort();
+      }
+    });
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  send(event: AnswerStreamEvent): void {
+    if (this.cancelled) return;
+    this.res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  close(): void {
+    if (!this.res.writableEnded) {
+      this.res.end();
+    }
+  }
+}
+
+/**
+ * Forward answer events to an SSE client, then finish with a `done` event carrying timings.
+ * Failures become `error` events so clients can tell them apart from answer content.
+ */
+export async function sendAnswerStream(
+  res: Response,
+  createEvents: (signal: AbortSignal) => AsyncGenerator<AnswerStreamEvent>
+): Promise<void> {
+  const stream = new SSEStream(res);
+  const startTime = Date.now();
+  let sourcesTime: number | null = null;
+  let lastTokenTime: number | null = null;
+
+  try {
+    for await (const event of createEvents(stream.signal)) {
+      if (stream.cancelled) break;
+
+      if (event.type === 'sources') {
+        sourcesTime = Date.now();
+      } else if (event.type === 'token') {
+        lastTokenTime = Date.now();
+      }
+      stream.send(event);
+    }
+  } catch (error) {
+    if (!stream.cancelled) {
+      console.error('❌ Answer stream failed:', error);
+      stream.send({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const endTime = Date.now();
+  const searchDone = sourcesTime ?? endTime;
+
+  if (stream.cancelled) {
+    console.log(`🛑 Answer stream cancelled by client after ${endTime - startTime}ms`);
+  }
+
+  stream.send({
+    type: 'done',
+    cancelled: stream.cancelled,
+    timings: {
+      searchTime: searchDone - startTime,
+      generationTime: (lastTokenTime ?? endTime) - searchDone,
+      totalTime: endTime - startTime,
+    }
+  });
+  stream.close();
+}
+
+/**
+ * Forward answer tokens to a client as plain text, with the rewritten query URL-encoded in the
+ * `X-Rewritten-Query` header. A failure after the first byte ends the response early and is
+ * reported in the `X-Stream-Error` trailer; a failure before it is rethrown to the caller.
+ */
+export async function sendTextAnswerStream(
+  res: Response,
+  createEvents: (signal: AbortSignal) => AsyncGenerator<AnswerStreamEvent>
+): Promise<void> {
+  const controller = new AbortController();
+  let rewrittenQuery: string | undefined;
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const writeHeaders = () => {
+    if (res.headersSent) return;
+    res.status(200);
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Transfer-Encoding', 'chunked');
+    res.setHeader('Trailer', 'X-Stream-Error');
+    if (rewrittenQuery !== undefined) {
+      res.setHeader('X-Rewritten-Query', encodeURIComponent(rewrittenQuery));
+    }
+  };
+
+  try {
+    for await (const event of createEvents(controller.signal)) {
+      if (controller.signal.aborted) break;
+
+      if (event.type === 'search_started') {
+        rewrittenQuery = event.rewrittenQuery ?? event.query;
+      } else if (event.type === 'token') {
+        writeHeaders();
+        res.write(event.content);
+      }
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    if (!res.headersSent) throw error;
+
+    console.error('❌ Answer stream failed:', error);
+    res.addTrailers({ 'X-Stream-Error': encodeURIComponent(error instanceof Error ? error.message : 'Unknown error') });
+  }
+
+  if (controller.signal.aborted) {
+    console.log('🛑 Answer stream cancelled by client');
+    return;
+  }
+  writeHeaders();
+  res.end();
+}
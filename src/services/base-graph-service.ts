@@ -1,7 +1,18 @@
+import path from 'path';
 import neo4j from 'neo4j-driver';
 import { neo4jManager } from '../database/neo4j';
-import { ProcessedDocument, DocumentNode, ChunkNode } from '../models/types';
+import { ProcessedDocument, DocumentNode, ChunkNode, EntityNode, Relationship } from '../models/types';
 import { getBatchConfig } from '../config/unified-config';
+import { embeddingManager } from './embedding-manager';
+import { IngestionState } from './document-processor';
+import { METADATA_PROPERTY_PREFIX } from './chunk-metadata';
+
+export interface DocumentWriteResult {
+  fileName: string;
+  success: boolean;
+  writeTime: number;
+  error?: string;
+}
 
 /**
  * Graph service base class - all graph operation services
@@ -47,14 +58,20 @@ export abstract class BaseGraphService {
   ): Promise<any> {
     const query = `
       MERGE (d:__Document__ {fileName: $fileName})
-      SET d.type = $type,
+      SET d.id = $id,
+          d.type = $type,
           d.uri = $uri,
-          d.domain = $domain
+          d.domain = $domain,
+          d.title = $title
       RETURN d
     `;
     
     const doc = await neo4jManager.executeWriteQuery(query, {
       fileName,
+      // Same id as the document_id of its chunks
+      id: this.generateHash(fileName),
+      // Searchable title: the file name without extension and separators
+      title: path.parse(fileName).name.replace(/[_-]+/g, ' ').trim(),
       type,
       uri,
       domain
@@ -72,8 +89,17 @@ export abstract class BaseGraphService {
       await neo4jManager.createConstraints();
       console.log('✅ Constraints created successfully');
       
+      // Mixing dimensions would break the vector index, so refuse to write with a mismatched provider
+      const dimensionCheck = await embeddingManager.validateStoredDimension();
+      if (!dimensionCheck.compatible) {
+        throw new Error(
+          `Embedding provider "${dimensionCheck.provider}" produces ${dimensionCheck.expected}-dimensional vectors, ` +
+          `but stored chunks use ${dimensionCheck.stored.join(', ')}. Clear the graph or switch providers.`
+        );
+      }
+
       console.log('⏳ Creating indexes...');
-      await neo4jManager.createIndexes();
+      await neo4jManager.createIndexes(embeddingManager.embeddingSize);
       console.log('✅ Indexes created successfully');
     } catch (error) {
       console.error('❌ Failed to create constraints and indexes:', error);
@@ -93,6 +119,8 @@ export abstract class BaseGraphService {
     if (batchData.length === 0) return;
 
     try {
+      batchData = await this.clearStaleMetadata(batchData);
+
       // Create Chunk nodes and PART_OF relationships
       const queryChunksAndPartOf = `
         UNWIND $batchData AS data
@@ -104,10 +132,15 @@ export abstract class BaseGraphService {
             c.content_offset = data.content_offset,
             c.tokens = data.tokens,
             c.chunk_index = data.position,
+            c.language = data.language,
+            c.page = data.page,
+            c.section = data.section,
+            c.locator = data.locator,
             c.embedding = CASE 
               WHEN data.embedding IS NOT NULL THEN data.embedding 
-              ELSE null 
+              ELSE c.embedding 
             END
+        SET c += data.metadata
         WITH c, data, data.f_name AS fileName
         MATCH (d:__Document__ {fileName: fileName})
         MERGE (c)-[:PART_OF]->(d)
@@ -149,6 +182,209 @@ export abstract class BaseGraphService {
     }
   }
 
+  /**
+   * Add a null for every stored metadata property that a chunk no longer has, so that
+   * `SET c += data.metadata` removes it instead of keeping a stale value
+   */
+  private async clearStaleMetadata(batchData: any[]): Promise<any[]> {
+    const stored = await neo4jManager.executeQuery(`
+      UNWIND $ids AS id
+      MATCH (c:__Chunk__ {id: id})
+      RETURN c.id AS id, [key IN keys(c) WHERE key STARTS WITH $prefix] AS metadataKeys
+    `, { ids: batchData.map(data => data.id), prefix: METADATA_PROPERTY_PREFIX });
+
+    const storedKeys = new Map<string, string[]>(stored.map((row: any) => [row.id, row.metadataKeys]));
+    return batchData.map(data => {
+      const staleKeys = (storedKeys.get(data.id) || []).filter(key => !(key in data.metadata));
+      if (staleKeys.length === 0) return data;
+      return { ...data, metadata: { ...Object.fromEntries(staleKeys.map(key => [key, null])), ...data.metadata } };
+    });
+  }
+
+  /**
+   * Delete the document's chunks that are not in `chunkIds`, with their edges, and the entities
+   * only they mentioned. Chunks with identical text in another document only lose their PART_OF.
+   */
+  protected async removeStaleChunks(fileName: string, chunkIds: string[]): Promise<{ chunks: number; entities: number }> {
+    try {
+      const mentioned = await neo4jManager.executeQuery(`
+        MATCH (c:__Chunk__)-[:PART_OF]->(:__Document__ {fileName: $fileName})
+        WHERE NOT c.id IN $chunkIds
+        MATCH (c)-[:MENTIONS]->(e:__Entity__)
+        RETURN collect(DISTINCT e.id) AS entityIds
+      `, { fileName, chunkIds });
+
+      const deletedChunks = await neo4jManager.executeWriteQuery(`
+        MATCH (c:__Chunk__)-[p:PART_OF]->(:__Document__ {fileName: $fileName})
+        WHERE NOT c.id IN $chunkIds
+        DELETE p
+        WITH c
+        WHERE NOT (c)-[:PART_OF]->(:__Document__)
+        DETACH DELETE c
+        RETURN count(*) AS deleted
+      `, { fileName, chunkIds });
+
+      const deletedEntities = await this.removeOrphanedEntities(mentioned[0]?.entityIds || []);
+
+      return { chunks: this.toCount(deletedChunks[0]?.deleted), entities: deletedEntities };
+    } catch (error) {
+      console.error('❌ Failed to remove stale chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the given entities if no chunk mentions them anymore
+   */
+  protected async removeOrphanedEntities(entityIds: string[]): Promise<number> {
+    if (entityIds.length === 0) return 0;
+
+    const results = await neo4jManager.executeWriteQuery(`
+      MATCH (e:__Entity__)
+      WHERE e.id IN $entityIds AND NOT (:__Chunk__)-[:MENTIONS]->(e)
+      DETACH DELETE e
+      RETURN count(*) AS deleted
+    `, { entityIds });
+    return this.toCount(results[0]?.deleted);
+  }
+
+  /**
+   * Remove FIRST_CHUNK and NEXT_CHUNK relationships of a document before its chunks are relinked.
+   * Only links between two chunks of the document are removed, and not those whose chunks are
+   * both shared with another document, since that document's chain still needs them.
+   */
+  protected async unlinkChunkChain(fileName: string): Promise<void> {
+    await neo4jManager.executeWriteQuery(`
+      MATCH (d:__Document__ {fileName: $fileName})-[first:FIRST_CHUNK]->()
+      DELETE first
+    `, { fileName });
+    await neo4jManager.executeWriteQuery(`
+      MATCH (d:__Document__ {fileName: $fileName})<-[:PART_OF]-(c:__Chunk__)-[next:NEXT_CHUNK]->(n:__Chunk__)-[:PART_OF]->(d)
+      WHERE NOT EXISTS {
+        MATCH (c)-[:PART_OF]->(other:__Document__)<-[:PART_OF]-(n)
+        WHERE other <> d
+      }
+      DELETE next
+    `, { fileName });
+  }
+
+  /**
+   * Store the content hash and fingerprints that later ingestions compare against
+   */
+  protected async markDocumentIngested(fileName: string, ingestion: IngestionState, chunkCount: number): Promise<void> {
+    await neo4jManager.executeWriteQuery(`
+      MATCH (d:__Document__ {fileName: $fileName})
+      SET d.content_hash = $contentHash,
+          d.chunking_fingerprint = $chunkingFingerprint,
+          d.embedding_fingerprint = $embeddingFingerprint,
+          d.chunk_count = $chunkCount,
+          d.ingested_at = $now
+    `, {
+      fileName,
+      contentHash: ingestion.contentHash,
+      chunkingFingerprint: ingestion.chunkingFingerprint,
+      embeddingFingerprint: ingestion.embeddingFingerprint,
+      chunkCount: neo4j.int(chunkCount),
+      now: Date.now(),
+    });
+  }
+
+  /**
+   * Create entity nodes, MENTIONS relationships from chunks and typed relationships between entities
+   */
+  protected async createEntitiesAndRelationships(
+    entities: EntityNode[],
+    relationships: Relationship[]
+  ): Promise<void> {
+    if (entities.length === 0) return;
+
+    try {
+      const entityData = entities.map(entity => ({
+        id: entity.id,
+        name: entity.properties.name,
+        type: entity.properties.type,
+        description: entity.properties.description || '',
+        embedding: entity.properties.embedding || null,
+        source_chunk_ids: entity.properties.source_chunk_ids || [],
+      }));
+
+      for (let i = 0; i < entityData.length; i += this.batchSize) {
+        const batch = entityData.slice(i, i + this.batchSize);
+
+        // Merge entities, appending new descriptions to existing ones
+        const queryEntities = `
+          UNWIND $entities AS data
+          MERGE (e:__Entity__ {id: data.id})
+          SET e.name = data.name,
+              e.type = data.type,
+              e.description = CASE
+                WHEN e.description IS NULL OR e.description = '' THEN data.description
+                WHEN data.description = '' OR e.description CONTAINS data.description THEN e.description
+                ELSE e.description + '\\n' + data.description
+              END,
+              e.embedding = CASE
+                WHEN data.embedding IS NOT NULL THEN data.embedding
+                ELSE e.embedding
+              END
+          WITH e, data
+          UNWIND data.source_chunk_ids AS chunkId
+          MATCH (c:__Chunk__ {id: chunkId})
+          MERGE (c)-[:MENTIONS]->(e)
+        `;
+        await neo4jManager.executeWriteQuery(queryEntities, { entities: batch });
+      }
+      console.log(`✅ ${entityData.length} entity nodes and MENTIONS relationships created`);
+
+      // Labels cannot be parameterized, so add type labels per sanitized type
+      const entityIdsByLabel = new Map<string, string[]>();
+      for (const entity of entities) {
+        for (const label of entity.labels.slice(1)) {
+          if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(label)) continue;
+          entityIdsByLabel.set(label, [...(entityIdsByLabel.get(label) || []), entity.id]);
+        }
+      }
+      for (const [label, ids] of entityIdsByLabel) {
+        await neo4jManager.executeWriteQuery(
+          `MATCH (e:__Entity__) WHERE e.id IN $ids SET e:\`${label}\``,
+          { ids }
+        );
+      }
+
+      // Relationship types cannot be parameterized either, so write one batch per sanitized type
+      const relationshipsByType = new Map<string, any[]>();
+      for (const relationship of relationships) {
+        if (!/^[A-Z][A-Z0-9_]*$/.test(relationship.type)) continue;
+        relationshipsByType.set(relationship.type, [
+          ...(relationshipsByType.get(relationship.type) || []),
+          {
+            id: relationship.id,
+            source: relationship.source,
+            target: relationship.target,
+            description: relationship.properties.description || '',
+            weight: relationship.properties.weight ?? 1,
+            source_chunk_ids: relationship.properties.source_chunk_ids || [],
+          },
+        ]);
+      }
+      for (const [type, batch] of relationshipsByType) {
+        const queryRelationships = `
+          UNWIND $relationships AS data
+          MATCH (s:__Entity__ {id: data.source})
+          MATCH (t:__Entity__ {id: data.target})
+          MERGE (s)-[r:\`${type}\` {id: data.id}]->(t)
+          SET r.description = data.description,
+              r.weight = data.weight,
+              r.source_chunk_ids = data.source_chunk_ids
+        `;
+        await neo4jManager.executeWriteQuery(queryRelationships, { relationships: batch });
+      }
+      console.log(`✅ ${relationships.length} entity relationships created`);
+    } catch (error) {
+      console.error('❌ Failed to create entities and relationships:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get database statistics
    */
@@ -180,23 +416,50 @@ export abstract class BaseGraphService {
   }
 
   /**
-   * Batch process documents
+   * Batch process documents, returning a per-document write result
    */
   protected async processDocumentsInBatches(
     documents: ProcessedDocument[],
     processSingleDocument: (doc: ProcessedDocument) => Promise<void>
-  ): Promise<void> {
+  ): Promise<DocumentWriteResult[]> {
     console.log(`📦 Processing ${documents.length} documents in batches...`);
+    const results: DocumentWriteResult[] = [];
     
     for (let i = 0; i < documents.length; i += this.batchSize) {
       const batch = documents.slice(i, i + this.batchSize);
       console.log(`📦 Processing batch ${Math.floor(i / this.batchSize) + 1}/${Math.ceil(documents.length / this.batchSize)}`);
       
-      const promises = batch.map(doc => processSingleDocument(doc));
-      await Promise.all(promises);
+      const batchResults = await Promise.all(batch.map(async doc => {
+        const startTime = Date.now();
+        try {
+          await processSingleDocument(doc);
+          return { fileName: doc.filename, success: true, writeTime: Date.now() - startTime };
+        } catch (error) {
+          return {
+            fileName: doc.filename,
+            success: false,
+            writeTime: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }));
+      results.push(...batchResults);
     }
     
-    console.log('✅ All documents processed successfully');
+    const failedCount = results.filter(result => !result.success).length;
+    if (failedCount > 0) {
+      console.warn(`⚠️ ${failedCount}/${documents.length} documents failed to process`);
+    } else {
+      console.log('✅ All documents processed successfully');
+    }
+    return results;
+  }
+
+  /**
+   * Read a Neo4j count as a number
+   */
+  protected toCount(value: any): number {
+    return neo4j.isInt(value) ? value.toNumber() : Number(value || 0);
   }
 
   /**
@@ -0,0 +1,55 @@
+export type ChunkMetadataValue = string | number | boolean;
+
+// Metadata fields are stored on __Chunk__ nodes as `meta_<field>` properties so queries can filter on them
+export const METADATA_PROPERTY_PREFIX = 'meta_';
+
+// One filter condition: the chunk property must equal one of the values
+export interface MetadataFilter {
+  property: string;
+  values: ChunkMetadataValue[];
+}
+
+/**
+ * Cypher condition that holds when `variable` matches every filter passed as $metadataFilters
+ */
+export function metadataFilterCondition(variable: string): string {
+  return `all(filter IN $metadataFilters WHERE ${variable}[filter.property] IN filter.values)`;
+}
+
+/**
+ * Node properties for a chunk's metadata fields
+ */
+export function toMetadataProperties(metadata: Record<string, ChunkMetadataValue> = {}): Record<string, ChunkMetadataValue> {
+  return Object.fromEntries(
+    Object.entries(metadata).map(([field, value]) => [`${METADATA_PROPERTY_PREFIX}${field}`, value])
+  );
+}
+
+/**
+ * Metadata fields of a chunk node, keyed by their original field names
+ */
+export function fromMetadataProperties(node: Record<string, any>): Record<string, ChunkMetadataValue> {
+  return Object.fromEntries(
+    Object.entries(node)
+      .filter(([property]) => property.startsWith(METADATA_PROPERTY_PREFIX))
+      .map(([property, value]) => [property.substring(METADATA_PROPERTY_PREFIX.length), value])
+  );
+}
+
+/**
+ * Turn request filters such as { category: 'energy', year: [2023, 2024] } into metadata filters.
+ * Throws when a value is not a scalar or a list of scalars.
+ */
+export function toMetadataFilters(filters: Record<string, any> = {}): MetadataFilter[] {
+  return Object.entries(filters).map(([field, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || !values.every(isMetadataValue)) {
+      throw new Error(`Filter "${field}" must be a string, number or boolean, or a non-empty list of them`);
+    }
+    return { property: `${METADATA_PROPERTY_PREFIX}${field}`, values };
+  });
+}
+
+export function isMetadataValue(value: any): value is ChunkMetadataValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
@@ -0,0 +1,73 @@
+import neo4j from 'neo4j-driver';
+import { SearchResult } from '../models/types';
+import { createCitationSources, extractCitations, formatCitationLocation, getCitedChunkIds } from './citations';
+
+const results: SearchResult[] = [
+  {
+    content: 'Acme was founded in 2010. The company builds solar inverters in Berlin.',
+    source: 'acme.txt',
+    score: 0.9,
+    metadata: { chunkId: 'chunk-1', fileName: 'acme.txt', contentOffset: neo4j.int(120) },
+  },
+  {
+    content: 'Wind farms produce most of the power in the north.',
+    source: 'chunk-2',
+    score: 0.7,
+  },
+];
+
+describe('createCitationSources', () => {
+  it('numbers results from 1 and converts Neo4j integers', () => {
+    expect(createCitationSources(results)).toEqual([
+      { marker: 1, chunkId: 'chunk-1', fileName: 'acme.txt', content_offset: 120, text: results[0].content },
+      { marker: 2, chunkId: 'chunk-2', fileName: '', content_offset: null, text: results[1].content },
+    ]);
+  });
+});
+
+describe('extractCitations', () => {
+  it('maps markers to chunks in order of first appearance', () => {
+    const citations = extractCitations(
+      'Most northern power comes from wind [2]. Acme builds solar inverters in Berlin [1]. It started in 2010 [1].',
+      results
+    );
+
+    expect(citations.map(citation => [citation.marker, citation.chunkId])).toEqual([[2, 'chunk-2'], [1, 'chunk-1']]);
+    expect(citations[1].sentences).toEqual(['Acme builds solar inverters in Berlin.', 'It started in 2010.']);
+    expect(getCitedChunkIds(citations)).toEqual(['chunk-2', 'chunk-1']);
+  });
+
+  it('reads grouped and adjacent markers', () => {
+    expect(extractCitations('Both sources agree [1, 2].', results).map(c => c.marker)).toEqual([1, 2]);
+    expect(extractCitations('Both sources agree [2][1].', results).map(c => c.marker)).toEqual([2, 1]);
+  });
+
+  it('ignores markers without a matching search result', () => {
+    expect(extractCitations('Nothing supports this [0] or this [7].', results)).toEqual([]);
+  });
+
+  it('highlights the chunk sentence that best matches the citing sentence', () => {
+    const [citation] = extractCitations('Acme builds solar inverters in Berlin [1].', results);
+
+    const highlighted = citation.snippet.substring(citation.highlight.start, citation.highlight.end);
+    expect(highlighted).toBe('The company builds solar inverters in Berlin.');
+    expect(results[0].content.substring(citation.snippetOffset)).toBe(citation.snippet);
+  });
+});
+
+describe('formatCitationLocation', () => {
+  it('adds the page and section when known', () => {
+    expect(formatCitationLocation({ fileName: 'report.pdf', chunkId: 'c1', page: 4 })).toBe('report.pdf, p. 4');
+    expect(formatCitationLocation({ fileName: 'guide.docx', chunkId: 'c2', section: 'Setup > Installation' }))
+      .toBe('guide.docx, Setup > Installation');
+  });
+
+  it('appends the record locator to the file name', () => {
+    expect(formatCitationLocation({ fileName: 'products.json', chunkId: 'c4', locator: '/products/3' }))
+      .toBe('products.json#/products/3');
+  });
+
+  it('falls back to the chunk id without a file name', () => {
+    expect(formatCitationLocation({ fileName: '', chunkId: 'c3' })).toBe('c3');
+  });
+});
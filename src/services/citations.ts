@@ -0,0 +1,159 @@
+import neo4j from 'neo4j-driver';
+import { Citation, SearchResult } from '../models/types';
+
+/**
+ * A retrieved chunk as presented to the LLM, numbered by its position in the search results
+ */
+export interface CitationSource {
+  marker: number;
+  chunkId: string;
+  fileName: string;
+  content_offset: number | null;
+  page?: number;
+  section?: string;
+  locator?: string;
+  text: string;
+}
+
+// Matches [1], [2, 3] and [2][3]; the last form is two separate matches
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// Characters of chunk text kept on each side of the highlighted passage
+const SNIPPET_CONTEXT = 80;
+
+/**
+ * Give every search result a citation key: marker `n` refers to the n-th result (1-based)
+ */
+export function createCitationSources(searchResults: SearchResult[]): CitationSource[] {
+  return searchResults.map((result, index) => {
+    const chunkId = result.metadata?.chunkId || result.source;
+    const offset = result.metadata?.contentOffset;
+    const page = result.metadata?.page;
+
+    return {
+      marker: index + 1,
+      chunkId,
+      // Text search results use the chunk id as their source
+      fileName: result.metadata?.fileName || (result.source !== chunkId ? result.source : ''),
+      content_offset: offset === undefined || offset === null
+        ? null
+        : (neo4j.isInt(offset) ? offset.toNumber() : Number(offset)),
+      page: page === undefined || page === null ? undefined : (neo4j.isInt(page) ? page.toNumber() : Number(page)),
+      section: result.metadata?.section || undefined,
+      locator: result.metadata?.locator ?? undefined,
+      text: result.content,
+    };
+  });
+}
+
+/**
+ * Map the [n] markers in an answer to the cited chunks, in order of first appearance.
+ * Markers that don't match a search result are ignored.
+ */
+export function extractCitations(answer: string, searchResults: SearchResult[]): Citation[] {
+  const sources = createCitationSources(searchResults);
+  const sentencesByMarker = new Map<number, string[]>();
+
+  for (const sentence of splitSentences(answer)) {
+    for (const marker of findMarkers(sentence)) {
+      if (marker < 1 || marker > sources.length) continue;
+
+      const sentences = sentencesByMarker.get(marker) || [];
+      const text = sentence.replace(/\s*\[[\d,\s]+\]/g, '').replace(/\s+/g, ' ').trim();
+      if (!sentences.includes(text)) {
+        sentences.push(text);
+      }
+      sentencesByMarker.set(marker, sentences);
+    }
+  }
+
+  return Array.from(sentencesByMarker.entries()).map(([marker, sentences]) => {
+    const source = sources[marker - 1];
+    const passage = findCitedPassage(source.text, sentences);
+    const snippetStart = Math.max(0, passage.start - SNIPPET_CONTEXT);
+    const snippetEnd = Math.min(source.text.length, passage.end + SNIPPET_CONTEXT);
+
+    return {
+      marker,
+      chunkId: source.chunkId,
+      fileName: source.fileName,
+      content_offset: source.content_offset,
+      page: source.page,
+      section: source.section,
+      locator: source.locator,
+      snippet: source.text.substring(snippetStart, snippetEnd),
+      snippetOffset: snippetStart,
+      highlight: { start: passage.start - snippetStart, end: passage.end - snippetStart },
+      sentences,
+    };
+  });
+}
+
+/**
+ * Human-readable location of a cited chunk, e.g. `report.pdf, p. 4`, `guide.docx, Setup > Installation`
+ * or `products.json#/products/3`
+ */
+export function formatCitationLocation(
+  source: { fileName: string; chunkId: string; page?: number; section?: string; locator?: string }
+): string {
+  const file = source.fileName || source.chunkId;
+  return [
+    source.locator ? `${file}#${source.locator}` : file,
+    source.page !== undefined ? `p. ${source.page}` : '',
+    source.section || '',
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Chunk ids cited by an answer, in order of first appearance
+ */
+export function getCitedChunkIds(citations: Citation[]): string[] {
+  return Array.from(new Set(citations.map(citation => citation.chunkId)));
+}
+
+function findMarkers(text: string): number[] {
+  const markers: number[] = [];
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    for (const value of match[1].split(',')) {
+      markers.push(parseInt(value.trim(), 10));
+    }
+  }
+  return markers;
+}
+
+/**
+ * Split text into sentences; markers stay with the sentence they follow
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？](?:\s*\[[\d,\s]+\])*)\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Locate the sentence of the chunk that shares the most words with the citing sentences
+ */
+function findCitedPassage(text: string, sentences: string[]): { start: number; end: number } {
+  const citedWords = new Set(sentences.flatMap(tokenize));
+  const pattern = /[^.!?。！？\n]+[.!?。！？]*/g;
+
+  let best = { start: 0, end: Math.min(text.length, SNIPPET_CONTEXT * 2), overlap: 0 };
+  for (const match of text.matchAll(pattern)) {
+    const overlap = tokenize(match[0]).filter(word => citedWords.has(word)).length;
+    if (overlap > best.overlap) {
+      // Trim surrounding whitespace so the highlight starts and ends on text
+      const leading = match[0].length - match[0].trimStart().length;
+      const start = (match.index || 0) + leading;
+      best = { start, end: start + match[0].trim().length, overlap };
+    }
+  }
+
+  return { start: best.start, end: best.end };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 2);
+}
@@ -0,0 +1,403 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import { BaseGraphService } from '../base-graph-service';
+import { serviceManager } from '../service-manager';
+import { COMMUNITY_REPORT_PROMPT } from '../../config/gemini';
+import { getCommunityConfig, CommunityConfig } from '../../config/unified-config';
+import { detectLouvainCommunities, WeightedEdge } from './louvain';
+import { parseJson } from '../text-utils';
+
+export interface CommunityBuildOptions {
+  resolution?: number;
+  maxLevels?: number;
+  summarize?: boolean;
+}
+
+export interface CommunityBuildResult {
+  entityCount: number;
+  relationshipCount: number;
+  levels: Array<{ level: number; communityCount: number }>;
+  summarizedCount: number;
+  failedSummaries: number;
+  processingTime: number;
+}
+
+interface EntityRecord {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  degree: number;
+}
+
+interface RelationshipRecord extends WeightedEdge {
+  type: string;
+  description: string;
+}
+
+interface CommunityRecord {
+  id: string;
+  level: number;
+  entityIds: string[];
+  parentId?: string;
+  title?: string;
+  summary?: string;
+  rank?: number;
+}
+
+/**
+ * CommunityService - Hierarchical community detection and summarization over the entity graph
+ */
+export class CommunityService extends BaseGraphService {
+  private config: CommunityConfig;
+
+  constructor(config: Partial<CommunityConfig> = {}) {
+    super();
+    this.config = { ...getCommunityConfig(), ...config };
+  }
+
+  /**
+   * Detect communities, replace existing __Community__ nodes and generate community reports
+   */
+  async buildCommunities(options: CommunityBuildOptions = {}): Promise<CommunityBuildResult> {
+    const startTime = Date.now();
+
+    try {
+      console.log('🏘️ Starting community detection...');
+
+      // Step 1: Load entity graph
+      const { entities, relationships } = await this.loadEntityGraph();
+      console.log(`   📊 Loaded ${entities.size} entities and ${relationships.length} relationships`);
+
+      // Step 2: Run hierarchical Louvain
+      const levels = detectLouvainCommunities(Array.from(entities.keys()), relationships, {
+        resolution: options.resolution ?? this.config.resolution,
+        maxLevels: options.maxLevels ?? this.config.maxLevels,
+      });
+      const communities = this.createCommunityRecords(levels);
+      console.log(`   🧩 Detected ${levels.length} levels, ${communities.length} communities`);
+
+      // Step 3: Write communities
+      await this.clearCommunities();
+      await this.writeCommunities(communities);
+
+      // Step 4: Summarize communities, finest level first so parents can use child summaries
+      let summarizedCount = 0;
+      let failedSummaries = 0;
+      if (options.summarize !== false) {
+        const result = await this.summarizeCommunities(communities, entities, relationships);
+        summarizedCount = result.summarizedCount;
+        failedSummaries = result.failedSummaries;
+      }
+
+      const processingTime = Date.now() - startTime;
+      console.log(`✅ Community detection completed in ${(processingTime / 1000).toFixed(2)} seconds`);
+
+      return {
+        entityCount: entities.size,
+        relationshipCount: relationships.length,
+        levels: levels.map((_, level) => ({
+          level,
+          communityCount: communities.filter(community => community.level === level).length,
+        })),
+        summarizedCount,
+        failedSummaries,
+        processingTime,
+      };
+    } catch (error) {
+      console.error('❌ Community detection failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List communities, optionally filtered by level
+   */
+  async getCommunities(level?: number, limit: number = 100): Promise<any[]> {
+    const query = `
+      MATCH (c:__Community__)
+      WHERE $level IS NULL OR c.level = $level
+      RETURN c.community as community, c.level as level, c.title as title,
+             c.summary as summary, c.rank as rank, c.size as size
+      ORDER BY c.rank DESC, c.size DESC
+      LIMIT $limit
+    `;
+
+    return neo4jManager.executeQuery(query, {
+      level: level === undefined ? null : neo4j.int(level),
+      limit: neo4j.int(Math.floor(limit)),
+    });
+  }
+
+  /**
+   * Load entities and entity-to-entity relationships
+   */
+  private async loadEntityGraph(): Promise<{
+    entities: Map<string, EntityRecord>;
+    relationships: RelationshipRecord[];
+  }> {
+    const entityRows = await neo4jManager.executeQuery(`
+      MATCH (e:__Entity__)
+      RETURN e.id as id, e.name as name, e.type as type, e.description as description
+    `);
+
+    const entities = new Map<string, EntityRecord>();
+    for (const row of entityRows) {
+      entities.set(row.id, {
+        id: row.id,
+        name: row.name || row.id,
+        type: row.type || 'concept',
+        description: row.description || '',
+        degree: 0,
+      });
+    }
+
+    const relationshipRows = await neo4jManager.executeQuery(`
+      MATCH (s:__Entity__)-[r]->(t:__Entity__)
+      RETURN s.id as source, t.id as target, type(r) as type,
+             r.description as description, r.weight as weight
+    `);
+
+    const relationships: RelationshipRecord[] = relationshipRows.map((row: any) => ({
+      source: row.source,
+      target: row.target,
+      type: row.type,
+      description: row.description || '',
+      weight: this.toNumber(row.weight, 1),
+    }));
+
+    for (const relationship of relationships) {
+      const source = entities.get(relationship.source);
+      const target = entities.get(relationship.target);
+      if (source) source.degree++;
+      if (target) target.degree++;
+    }
+
+    return { entities, relationships };
+  }
+
+  /**
+   * Turn Louvain levels into community records with parent links
+   */
+  private createCommunityRecords(levels: Map<string, number>[]): CommunityRecord[] {
+    const communities: CommunityRecord[] = [];
+
+    levels.forEach((partition, level) => {
+      const members = new Map<number, string[]>();
+      for (const [entityId, community] of partition) {
+        members.set(community, [...(members.get(community) || []), entityId]);
+      }
+
+      for (const [community, entityIds] of members) {
+        if (entityIds.length < this.config.minCommunitySize) continue;
+
+        const parentPartition = levels[level + 1];
+        const parentCommunity = parentPartition?.get(entityIds[0]);
+        communities.push({
+          id: `${level}-${community}`,
+          level,
+          entityIds,
+          parentId: parentCommunity !== undefined ? `${level + 1}-${parentCommunity}` : undefined,
+        });
+      }
+    });
+
+    return communities;
+  }
+
+  /**
+   * Remove all existing community nodes
+   */
+  private async clearCommunities(): Promise<void> {
+    await neo4jManager.executeWriteQuery(`
+      MATCH (c:__Community__)
+      DETACH DELETE c
+    `);
+    console.log('🧹 Existing communities removed');
+  }
+
+  /**
+   * Write community nodes and IN_COMMUNITY relationships
+   */
+  private async writeCommunities(communities: CommunityRecord[]): Promise<void> {
+    if (communities.length === 0) return;
+
+    for (let i = 0; i < communities.length; i += this.batchSize) {
+      const batch = communities.slice(i, i + this.batchSize).map(community => ({
+        community: community.id,
+        level: community.level,
+        title: `Community ${community.id}`,
+        entity_ids: community.entityIds,
+      }));
+
+      const queryCommunities = `
+        UNWIND $communities AS data
+        MERGE (c:__Community__ {community: data.community})
+        SET c.level = data.level,
+            c.title = data.title,
+            c.size = size(data.entity_ids)
+        WITH c, data
+        UNWIND data.entity_ids AS entityId
+        MATCH (e:__Entity__ {id: entityId})
+        MERGE (e)-[:IN_COMMUNITY]->(c)
+      `;
+      await neo4jManager.executeWriteQuery(queryCommunities, { communities: batch });
+    }
+
+    // Link each community to its parent community on the next level
+    const links = communities
+      .filter(community => community.parentId)
+      .map(community => ({ child: community.id, parent: community.parentId }));
+
+    if (links.length > 0) {
+      const queryHierarchy = `
+        UNWIND $links AS link
+        MATCH (child:__Community__ {community: link.child})
+        MATCH (parent:__Community__ {community: link.parent})
+        MERGE (child)-[:IN_COMMUNITY]->(parent)
+      `;
+      await neo4jManager.executeWriteQuery(queryHierarchy, { links });
+    }
+
+    console.log(`✅ ${communities.length} community nodes and IN_COMMUNITY relationships created`);
+  }
+
+  /**
+   * Generate title, summary and rank for every community
+   */
+  private async summarizeCommunities(
+    communities: CommunityRecord[],
+    entities: Map<string, EntityRecord>,
+    relationships: RelationshipRecord[]
+  ): Promise<{ summarizedCount: number; failedSummaries: number }> {
+    const concurrency = Math.max(1, this.config.concurrency);
+    const childrenByParent = new Map<string, CommunityRecord[]>();
+    for (const community of communities) {
+      if (!community.parentId) continue;
+      childrenByParent.set(community.parentId, [...(childrenByParent.get(community.parentId) || []), community]);
+    }
+
+    let summarizedCount = 0;
+    let failedSummaries = 0;
+    const maxLevel = Math.max(...communities.map(community => community.level), -1);
+
+    for (let level = 0; level <= maxLevel; level++) {
+      const levelCommunities = communities.filter(community => community.level === level);
+      console.log(`   📝 Summarizing ${levelCommunities.length} communities on level ${level}`);
+
+      for (let i = 0; i < levelCommunities.length; i += concurrency) {
+        const batch = levelCommunities.slice(i, i + concurrency);
+        const results = await Promise.all(batch.map(community =>
+          this.summarizeCommunity(community, entities, relationships, childrenByParent.get(community.id) || [])
+        ));
+        summarizedCount += results.filter(success => success).length;
+        failedSummaries += results.filter(success => !success).length;
+      }
+
+      const summarized = levelCommunities
+        .filter(community => community.summary)
+        .map(community => ({
+          community: community.id,
+          title: community.title,
+          summary: community.summary,
+          rank: community.rank,
+        }));
+
+      if (summarized.length > 0) {
+        await neo4jManager.executeWriteQuery(`
+          UNWIND $reports AS report
+          MATCH (c:__Community__ {community: report.community})
+          SET c.title = report.title,
+              c.summary = report.summary,
+              c.rank = report.rank
+        `, { reports: summarized });
+      }
+    }
+
+    console.log(`✅ Community summaries generated: ${summarizedCount} succeeded, ${failedSummaries} failed`);
+    return { summarizedCount, failedSummaries };
+  }
+
+  /**
+   * Generate a community report with the LLM
+   */
+  private async summarizeCommunity(
+    community: CommunityRecord,
+    entities: Map<string, EntityRecord>,
+    relationships: RelationshipRecord[],
+    subCommunities: CommunityRecord[]
+  ): Promise<boolean> {
+    try {
+      const members = community.entityIds
+        .map(id => entities.get(id))
+        .filter((entity): entity is EntityRecord => entity !== undefined)
+        .sort((a, b) => b.degree - a.degree)
+        .slice(0, this.config.maxEntitiesInSummary);
+      const memberIds = new Set(community.entityIds);
+
+      const entityLines = members
+        .map(entity => `- ${entity.name} (${entity.type}): ${entity.description}`)
+        .join('\n');
+
+      const relationshipLines = relationships
+        .filter(relationship => memberIds.has(relationship.source) && memberIds.has(relationship.target))
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, this.config.maxEntitiesInSummary)
+        .map(relationship => {
+          const source = entities.get(relationship.source)?.name || relationship.source;
+          const target = entities.get(relationship.target)?.name || relationship.target;
+          return `- ${source} ${relationship.type} ${target}: ${relationship.description}`;
+        })
+        .join('\n');
+
+      const subCommunityLines = subCommunities
+        .filter(sub => sub.summary)
+        .map(sub => `- ${sub.title}: ${sub.summary}`)
+        .join('\n');
+
+      const prompt = COMMUNITY_REPORT_PROMPT
+        .replace('{entities}', () => entityLines || 'None')
+        .replace('{relationships}', () => relationshipLines || 'None')
+        .replace('{sub_communities}', () => subCommunityLines || 'None');
+
+      const response = await serviceManager.getLLMService().generateText(prompt);
+      const report = this.parseReport(response);
+      if (!report) {
+        console.warn(`   ⚠️ Could not parse community report for ${community.id}`);
+        return false;
+      }
+
+      community.title = report.title;
+      community.summary = report.summary;
+      community.rank = report.rank;
+      return true;
+    } catch (error) {
+      console.warn(`   ⚠️ Community summarization failed for ${community.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Parse the LLM community report
+   */
+  private parseReport(response: string): { title: string; summary: string; rank: number } | null {
+    const parsed = parseJson(response);
+    if (!parsed || typeof parsed.summary !== 'string' || parsed.summary.trim().length === 0) return null;
+
+    const rank = Number(parsed.rank);
+    return {
+      title: typeof parsed.title === 'string' && parsed.title.trim() ? parsed.title.trim() : 'Untitled community',
+      summary: parsed.summary.trim(),
+      rank: Number.isFinite(rank) ? Math.min(10, Math.max(0, rank)) : 0,
+    };
+  }
+
+  private toNumber(value: any, defaultValue: number): number {
+    if (value === null || value === undefined) return defaultValue;
+    if (neo4j.isInt(value)) return value.toNumber();
+    const number = Number(value);
+    return Number.isFinite(number) ? number : defaultValue;
+  }
+}
+
+export default CommunityService;
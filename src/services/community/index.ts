@@ -0,0 +1,16 @@
+// Community detection module exports
+
+// Louvain community detection
+export {
+  detectLouvainCommunities,
+  WeightedEdge,
+  LouvainOptions,
+  CommunityLevel
+} from './louvain';
+
+// Community service
+export {
+  CommunityService,
+  CommunityBuildOptions,
+  CommunityBuildResult
+} from './community-service';
@@ -0,0 +1,76 @@
+import { WeightedEdge, detectLouvainCommunities } from './louvain';
+
+function clique(ids: string[], weight = 1): WeightedEdge[] {
+  const edges: WeightedEdge[] = [];
+  ids.forEach((source, i) => ids.slice(i + 1).forEach(target => edges.push({ source, target, weight })));
+  return edges;
+}
+
+function groups(level: Map<string, number>): string[][] {
+  const byCommunity = new Map<number, string[]>();
+  for (const [id, community] of level) {
+    byCommunity.set(community, [...(byCommunity.get(community) || []), id]);
+  }
+  return Array.from(byCommunity.values()).map(members => members.sort()).sort();
+}
+
+describe('detectLouvainCommunities', () => {
+  it('separates two cliques joined by a weak bridge', () => {
+    const nodes = ['a1', 'a2', 'a3', 'a4', 'b1', 'b2', 'b3', 'b4'];
+    const edges = [
+      ...clique(['a1', 'a2', 'a3', 'a4']),
+      ...clique(['b1', 'b2', 'b3', 'b4']),
+      { source: 'a1', target: 'b1', weight: 0.1 },
+    ];
+
+    const levels = detectLouvainCommunities(nodes, edges);
+
+    expect(levels.length).toBeGreaterThan(0);
+    expect(groups(levels[0])).toEqual([['a1', 'a2', 'a3', 'a4'], ['b1', 'b2', 'b3', 'b4']]);
+  });
+
+  it('numbers communities from 0 without gaps', () => {
+    const levels = detectLouvainCommunities(['x', 'y', 'z', 'w'], [...clique(['x', 'y']), ...clique(['z', 'w'])]);
+
+    expect(Array.from(new Set(levels[0].values())).sort()).toEqual([0, 1]);
+  });
+
+  it('only merges communities of the previous level on later levels', () => {
+    const cliques = Array.from({ length: 6 }, (_, c) => Array.from({ length: 4 }, (_, n) => `c${c}n${n}`));
+    const edges = cliques.flatMap(ids => clique(ids));
+    // Pairs of cliques are linked more strongly than the pairs are linked to each other
+    for (let c = 0; c < cliques.length; c++) {
+      edges.push({ source: cliques[c][0], target: cliques[(c + 1) % cliques.length][0], weight: c % 2 === 0 ? 6 : 0.2 });
+    }
+
+    const levels = detectLouvainCommunities(cliques.flat(), edges, { maxLevels: 5 });
+
+    expect(levels.length).toBeGreaterThan(1);
+    for (let i = 1; i < levels.length; i++) {
+      for (const members of groups(levels[i - 1])) {
+        expect(new Set(members.map(id => levels[i].get(id))).size).toBe(1);
+      }
+      expect(groups(levels[i]).length).toBeLessThan(groups(levels[i - 1]).length);
+    }
+    expect(groups(levels[levels.length - 1]).length).toBeLessThan(cliques.length);
+  });
+
+  it('returns no levels for graphs without usable edges', () => {
+    expect(detectLouvainCommunities([], [])).toEqual([]);
+    expect(detectLouvainCommunities(['a', 'b'], [
+      { source: 'a', target: 'b', weight: 0 },
+      { source: 'a', target: 'unknown', weight: 1 },
+    ])).toEqual([]);
+  });
+
+  it('splits into more communities at a higher resolution', () => {
+    const nodes = ['a1', 'a2', 'a3', 'b1', 'b2', 'b3'];
+    const edges = [...clique(['a1', 'a2', 'a3']), ...clique(['b1', 'b2', 'b3']), { source: 'a1', target: 'b1', weight: 1 }];
+
+    const coarse = detectLouvainCommunities(nodes, edges, { resolution: 0.1 });
+    const fine = detectLouvainCommunities(nodes, edges, { resolution: 1 });
+
+    expect(groups(coarse[coarse.length - 1])).toHaveLength(1);
+    expect(groups(fine[fine.length - 1])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,187 @@
+export interface WeightedEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface LouvainOptions {
+  resolution?: number;   // Higher values produce smaller communities
+  maxLevels?: number;    // Maximum number of aggregation passes
+  maxIterations?: number; // Maximum local-moving sweeps per pass
+}
+
+/**
+ * One level of the community hierarchy: node id -> community index at that level
+ */
+export type CommunityLevel = Map<string, number>;
+
+/**
+ * Hierarchical Louvain community detection over an undirected weighted graph.
+ *
+ * Returns one partition per aggregation pass. Level 0 is the finest partition and
+ * each following level merges communities of the previous one.
+ */
+export function detectLouvainCommunities(
+  nodeIds: string[],
+  edges: WeightedEdge[],
+  options: LouvainOptions = {}
+): CommunityLevel[] {
+  const resolution = options.resolution ?? 1.0;
+  const maxLevels = options.maxLevels ?? 3;
+  const maxIterations = options.maxIterations ?? 20;
+
+  const indexById = new Map<string, number>();
+  nodeIds.forEach((id, index) => indexById.set(id, index));
+
+  // Adjacency with self-loops stored on the node itself
+  let adjacency: Array<Map<number, number>> = nodeIds.map(() => new Map());
+  for (const edge of edges) {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || !(edge.weight > 0)) continue;
+    addEdge(adjacency, source, target, edge.weight);
+  }
+
+  const totalWeight = sumEdgeWeights(adjacency);
+  if (nodeIds.length === 0 || totalWeight === 0) {
+    return [];
+  }
+
+  // Community of every original node in the current aggregated graph
+  let originalMembership = nodeIds.map((_, index) => index);
+  const levels: CommunityLevel[] = [];
+
+  while (levels.length < maxLevels) {
+    const { membership, moved } = moveNodes(adjacency, totalWeight, resolution, maxIterations);
+    if (!moved) break;
+
+    const { renumbered, count } = renumber(membership);
+    originalMembership = originalMembership.map(community => renumbered[community]);
+
+    const level: CommunityLevel = new Map();
+    nodeIds.forEach((id, index) => level.set(id, originalMembership[index]));
+    levels.push(level);
+
+    if (count === adjacency.length) break;
+    adjacency = aggregate(adjacency, renumbered, count);
+  }
+
+  return levels;
+}
+
+/**
+ * Local moving phase: greedily move nodes to the neighbouring community with the best modularity gain
+ */
+function moveNodes(
+  adjacency: Array<Map<number, number>>,
+  totalWeight: number,
+  resolution: number,
+  maxIterations: number
+): { membership: number[]; moved: boolean } {
+  const nodeCount = adjacency.length;
+  const membership = adjacency.map((_, index) => index);
+  const degrees = adjacency.map((neighbours, index) => nodeDegree(neighbours, index));
+  const communityTotals = [...degrees];
+  const twoM = 2 * totalWeight;
+  let moved = false;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let movedThisSweep = false;
+
+    for (let node = 0; node < nodeCount; node++) {
+      const currentCommunity = membership[node];
+      const degree = degrees[node];
+
+      // Weight from node to each neighbouring community
+      const linkWeights = new Map<number, number>();
+      for (const [neighbour, weight] of adjacency[node]) {
+        if (neighbour === node) continue;
+        const community = membership[neighbour];
+        linkWeights.set(community, (linkWeights.get(community) || 0) + weight);
+      }
+
+      // Remove node from its community
+      communityTotals[currentCommunity] -= degree;
+
+      let bestCommunity = currentCommunity;
+      let bestGain = (linkWeights.get(currentCommunity) || 0)
+        - resolution * communityTotals[currentCommunity] * degree / twoM;
+
+      for (const [community, linkWeight] of linkWeights) {
+        const gain = linkWeight - resolution * communityTotals[community] * degree / twoM;
+        if (gain > bestGain + 1e-12) {
+          bestGain = gain;
+          bestCommunity = community;
+        }
+      }
+
+      communityTotals[bestCommunity] += degree;
+      if (bestCommunity !== currentCommunity) {
+        membership[node] = bestCommunity;
+        movedThisSweep = true;
+        moved = true;
+      }
+    }
+
+    if (!movedThisSweep) break;
+  }
+
+  return { membership, moved };
+}
+
+/**
+ * Aggregation phase: build a graph whose nodes are the communities of the previous graph
+ */
+function aggregate(
+  adjacency: Array<Map<number, number>>,
+  membership: number[],
+  communityCount: number
+): Array<Map<number, number>> {
+  const aggregated: Array<Map<number, number>> = Array.from({ length: communityCount }, () => new Map());
+
+  adjacency.forEach((neighbours, node) => {
+    for (const [neighbour, weight] of neighbours) {
+      // Visit every undirected edge once
+      if (neighbour < node) continue;
+      addEdge(aggregated, membership[node], membership[neighbour], weight);
+    }
+  });
+
+  return aggregated;
+}
+
+function addEdge(adjacency: Array<Map<number, number>>, source: number, target: number, weight: number): void {
+  adjacency[source].set(target, (adjacency[source].get(target) || 0) + weight);
+  if (source !== target) {
+    adjacency[target].set(source, (adjacency[target].get(source) || 0) + weight);
+  }
+}
+
+function nodeDegree(neighbours: Map<number, number>, node: number): number {
+  let degree = 0;
+  for (const [neighbour, weight] of neighbours) {
+    degree += neighbour === node ? 2 * weight : weight;
+  }
+  return degree;
+}
+
+function sumEdgeWeights(adjacency: Array<Map<number, number>>): number {
+  let total = 0;
+  adjacency.forEach((neighbours, node) => {
+    for (const [neighbour, weight] of neighbours) {
+      if (neighbour >= node) total += weight;
+    }
+  });
+  return total;
+}
+
+function renumber(membership: number[]): { renumbered: number[]; count: number } {
+  const mapping = new Map<number, number>();
+  const renumbered = membership.map(community => {
+    if (!mapping.has(community)) {
+      mapping.set(community, mapping.size);
+    }
+    return mapping.get(community)!;
+  });
+  return { renumbered, count: mapping.size };
+}
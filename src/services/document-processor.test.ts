@@ -0,0 +1,202 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { neo4jManager } from '../database/neo4j';
+import { ProcessedDocument } from '../models/types';
+import { getDocumentProcessingConfig } from '../config/unified-config';
+import { embeddingManager } from './embedding-manager';
+import { DocumentProcessor } from './document-processor';
+
+jest.mock('../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+}));
+jest.mock('./embedding-manager', () => ({
+  embeddingManager: {
+    embedQuery: jest.fn(),
+    getConfig: jest.fn(),
+    embeddingSize: 3,
+  },
+}));
+jest.mock('./entity-extractor');
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const embedQuery = embeddingManager.embedQuery as jest.Mock;
+const getConfig = embeddingManager.getConfig as jest.Mock;
+
+const paragraphs = [
+  'Solar panels convert sunlight into electricity. They work best when they face the sun for most of the day.',
+  'Wind turbines turn the energy of moving air into power. Offshore farms see stronger and steadier winds.',
+  'Hydro plants store water behind dams. They release it through turbines when the grid needs more power.',
+];
+
+// Stored document row as written by the previous ingestion of `document`
+function storedRow(document: ProcessedDocument | null, embeddedChunkIds: string[]) {
+  const ingestion = document?.metadata?.ingestion;
+  return {
+    contentHash: ingestion.contentHash,
+    chunkingFingerprint: ingestion.chunkingFingerprint,
+    embeddingFingerprint: ingestion.embeddingFingerprint,
+    embeddedChunkIds,
+  };
+}
+
+describe('DocumentProcessor incremental ingestion', () => {
+  let tmpDir: string;
+  let filePath: string;
+  let processor: DocumentProcessor;
+
+  beforeAll(async () => {
+    Object.assign(getDocumentProcessingConfig(), { chunkSize: 120, overlap: 0 });
+    processor = DocumentProcessor.getInstance();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-processor-'));
+    filePath = path.join(tmpDir, 'energy.txt');
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(filePath, paragraphs.join('\n\n'));
+    executeQuery.mockReset().mockResolvedValue([]);
+    embedQuery.mockReset().mockResolvedValue([0.1, 0.2, 0.3]);
+    getConfig.mockReset().mockReturnValue({ provider: 'hashing', model: 'hashing-v1' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('embeds every chunk of a new document', async () => {
+    const document = await processor.processFile(filePath);
+
+    expect(document?.chunks.length).toBeGreaterThan(1);
+    expect(document?.metadata?.ingestion).toEqual(expect.objectContaining({
+      status: 'new',
+      newChunks: document?.chunks.length,
+      reusedChunks: 0,
+    }));
+    expect(embedQuery).toHaveBeenCalledTimes(document!.chunks.length);
+  });
+
+  it('skips a document whose content hash is stored', async () => {
+    const first = await processor.processFile(filePath);
+    embedQuery.mockClear();
+    executeQuery.mockResolvedValue([storedRow(first, [])]);
+
+    const document = await processor.processFile(filePath);
+
+    expect(document?.metadata?.ingestion.status).toBe('unchanged');
+    expect(document?.chunks).toEqual([]);
+    expect(embedQuery).not.toHaveBeenCalled();
+  });
+
+  it('embeds only the chunks of a changed document that are not stored yet', async () => {
+    const first = await processor.processFile(filePath);
+    const storedIds = first!.chunks.map(chunk => chunk.id);
+    await fs.writeFile(filePath, [...paragraphs.slice(0, 2), 'Geothermal plants tap heat from deep below the surface.'].join('\n\n'));
+    embedQuery.mockClear();
+    executeQuery.mockResolvedValue([storedRow(first, storedIds)]);
+
+    const document = await processor.processFile(filePath);
+
+    const reused = document!.chunks.filter(chunk => storedIds.includes(chunk.id));
+    expect(reused.length).toBeGreaterThan(0);
+    expect(document?.metadata?.ingestion).toEqual(expect.objectContaining({
+      status: 'changed',
+      newChunks: document!.chunks.length - reused.length,
+      reusedChunks: reused.length,
+    }));
+    expect(embedQuery).toHaveBeenCalledTimes(document!.chunks.length - reused.length);
+    expect(reused.every(chunk => chunk.properties.embedding === undefined)).toBe(true);
+  });
+
+  it('reprocesses an unchanged file when the chunking settings changed', async () => {
+    const first = await processor.processFile(filePath);
+    executeQuery.mockResolvedValue([{ ...storedRow(first, []), chunkingFingerprint: 'other-settings' }]);
+
+    const document = await processor.processFile(filePath);
+
+    expect(document?.metadata?.ingestion.status).toBe('changed');
+    expect(document?.chunks.length).toBeGreaterThan(0);
+  });
+
+  it('re-embeds every chunk when the embedding model changed', async () => {
+    const first = await processor.processFile(filePath);
+    const storedIds = first!.chunks.map(chunk => chunk.id);
+    executeQuery.mockResolvedValue([storedRow(first, storedIds)]);
+    getConfig.mockReturnValue({ provider: 'openai', model: 'text-embedding-3-small' });
+    embedQuery.mockClear();
+
+    const document = await processor.processFile(filePath);
+
+    expect(document?.metadata?.ingestion).toEqual(expect.objectContaining({ status: 'changed', reusedChunks: 0 }));
+    expect(embedQuery).toHaveBeenCalledTimes(document!.chunks.length);
+  });
+
+  it('returns an emptied file without chunks so its stored chunks are removed', async () => {
+    const first = await processor.processFile(filePath);
+    executeQuery.mockResolvedValue([storedRow(first, first!.chunks.map(chunk => chunk.id))]);
+    await fs.writeFile(filePath, '   ');
+
+    const document = await processor.processFile(filePath);
+
+    expect(document?.chunks).toEqual([]);
+    expect(document?.metadata?.ingestion.status).toBe('changed');
+  });
+
+  it('skips an empty file that was never stored', async () => {
+    await fs.writeFile(filePath, '   ');
+
+    expect(await processor.processFile(filePath)).toBeNull();
+  });
+
+  it('reports unchanged files without returning them', async () => {
+    const first = await processor.processFile(filePath);
+    executeQuery.mockResolvedValue([storedRow(first, [])]);
+    const results: any[] = [];
+
+    const documents = await processor.processFiles([{ filePath, fileName: 'energy.txt' }], result => results.push(result));
+
+    expect(documents).toEqual([]);
+    expect(results).toEqual([expect.objectContaining({ fileName: 'energy.txt', status: 'unchanged', chunkCount: 0 })]);
+  });
+
+  it('records where every chunk starts in the document text', async () => {
+    const document = await processor.processFile(filePath);
+
+    expect(document!.chunks.length).toBeGreaterThan(1);
+    for (const chunk of document!.chunks) {
+      const offset = chunk.properties.content_offset!;
+      expect(document!.content.slice(offset, offset + chunk.properties.text.length)).toBe(chunk.properties.text);
+    }
+  });
+
+  it('records Markdown chunk offsets and leaves rewritten chunks without one', async () => {
+    const markdownPath = path.join(tmpDir, 'energy.md');
+    const table = ['| Source | Share |', '| --- | --- |', ...Array.from({ length: 8 }, (_, i) => `| Source ${i} | ${i}% |`)];
+    await fs.writeFile(markdownPath, `# Solar\n\n${paragraphs[0]}\n\n# Wind\n\n\n${paragraphs[1]}\n\n# Shares\n\n${table.join('\n')}`);
+
+    const document = await processor.processFile(markdownPath);
+
+    const [solar, wind, ...shares] = document!.chunks.map(chunk => chunk.properties);
+    expect(solar.content_offset).toBe(0);
+    expect(document!.content.slice(solar.content_offset!, solar.content_offset! + solar.text.length)).toBe(solar.text);
+    // Blocks are rejoined with a single blank line, so a chunk spanning other spacing isn't a slice of the text
+    expect(wind.content_offset).toBeNull();
+    expect(shares.length).toBeGreaterThan(1);
+    expect(shares[0].content_offset).toBe(document!.content.indexOf('# Shares'));
+    // Later table chunks repeat the header rows
+    expect(shares.slice(1).every(chunk => chunk.content_offset === null)).toBe(true);
+  });
+
+  it('processes the whole document when the stored version cannot be read', async () => {
+    executeQuery.mockRejectedValue(new Error('connection refused'));
+
+    const document = await processor.processFile(filePath);
+
+    expect(document?.metadata?.ingestion.status).toBe('new');
+  });
+});
@@ -3,15 +3,62 @@ import path from 'path';
 import crypto from 'crypto';
 import { ProcessedDocument, ChunkNode } from '../models/types';
 import { EnhancedTextChunker } from './enhanced-text-chunker';
+import { MarkdownChunker } from './markdown-chunker';
+import { EntityExtractor } from './entity-extractor';
 import { embeddingManager } from './embedding-manager';
+import { detectLanguage } from './language-detector';
+import { Tokenizer, getTokenizer } from './tokenizer';
+import { ChunkMetadataValue } from './chunk-metadata';
+import { getDocumentExtractor, getSupportedExtensions, ExtractedDocument, ExtractedSection } from './extraction';
 import { getDocumentProcessingConfig } from '../config/unified-config';
+import { neo4jManager } from '../database/neo4j';
+
+export interface FileProcessingResult {
+  filePath: string;
+  fileName: string;
+  status: 'processed' | 'unchanged' | 'skipped' | 'failed';
+  chunkCount: number;
+  embeddingFailures: number;
+  processingTime: number;
+  error?: string;
+}
+
+// A file to process; `fileName` identifies the document in the graph (default: the file's basename)
+export interface InputFile {
+  filePath: string;
+  fileName: string;
+}
+
+// How a processed file relates to the version already in the graph, stored as `metadata.ingestion`
+export interface IngestionState {
+  status: 'new' | 'changed' | 'unchanged';
+  contentHash: string;
+  chunkingFingerprint: string;   // Hash of the settings that decide how text becomes chunks
+  embeddingFingerprint: string;  // Hash of the embedding provider, model and dimension
+  newChunks: number;     // Chunks that were embedded and had entities extracted
+  reusedChunks: number;  // Chunks already stored with an embedding, written without re-embedding
+}
+
+// Stored version of a document, read before processing to skip unchanged work
+interface StoredDocument {
+  contentHash: string | null;
+  chunkingFingerprint: string | null;
+  embeddingFingerprint: string | null;
+  embeddedChunkIds: Set<string>;
+}
 
 export class DocumentProcessor {
   private static instance: DocumentProcessor | null = null;
   private chunkSize: number;
   private overlap: number;
   private maxFileSize: number;
+  private multilingualSupport: boolean;
+  private markdownChunking: boolean;
   private textChunker: EnhancedTextChunker;
+  private markdownChunker: MarkdownChunker;
+  private tokenizer: Tokenizer;
+  private chunkingFingerprint: string;
+  private entityExtractor: EntityExtractor;
 
   private constructor() {
     const documentConfig = getDocumentProcessingConfig();
@@ -19,15 +66,40 @@ export class DocumentProcessor {
     this.chunkSize = documentConfig.chunkSize;
     this.overlap = documentConfig.overlap;
     this.maxFileSize = documentConfig.maxFileSize;
+    this.multilingualSupport = documentConfig.multilingualSupport;
+    this.markdownChunking = documentConfig.markdownChunking;
     
+    this.tokenizer = getTokenizer(documentConfig.tokenizer);
+
     // Initialize enhanced text chunker
     this.textChunker = new EnhancedTextChunker({
       chunkSize: this.chunkSize,
       overlap: this.overlap,
+      unit: documentConfig.chunkSizeUnit,
+      tokenizer: this.tokenizer,
       maxTextLength: documentConfig.maxTextLength,
       preserveSentences: documentConfig.preserveSentences,
       multilingualSupport: documentConfig.multilingualSupport,
     });
+    this.markdownChunker = new MarkdownChunker(this.chunkSize, this.textChunker);
+
+    // Any of these settings changes the chunks of an unchanged file, so they are stored with each document
+    this.chunkingFingerprint = this.generateHash(JSON.stringify({
+      chunkSize: this.chunkSize,
+      overlap: this.overlap,
+      maxTextLength: documentConfig.maxTextLength,
+      preserveSentences: documentConfig.preserveSentences,
+      multilingualSupport: documentConfig.multilingualSupport,
+      markdownChunking: documentConfig.markdownChunking,
+      chunkSizeUnit: documentConfig.chunkSizeUnit,
+      tokenizer: this.tokenizer.name,
+      chunkingMode: documentConfig.chunkingMode,
+      semanticBreakpointPercentile: documentConfig.semanticBreakpointPercentile,
+      semanticMinChunkSize: documentConfig.semanticMinChunkSize,
+    }));
+
+    // Initialize LLM entity extractor
+    this.entityExtractor = new EntityExtractor();
 
     console.log('📄 DocumentProcessor initialized with unified configuration');
   }
@@ -42,19 +114,33 @@ export class DocumentProcessor {
   /**
    * Process all documents in specified directory
    */
-  async processDirectory(dirPath: string): Promise<ProcessedDocument[]> {
+  async processDirectory(
+    dirPath: string,
+    onFileProcessed?: (result: FileProcessingResult) => void
+  ): Promise<ProcessedDocument[]> {
     try {
       const files = await this.getSupportedFiles(dirPath);
       const documents: ProcessedDocument[] = [];
 
       for (const file of files) {
+        const fileStartTime = Date.now();
         try {
           const document = await this.processFile(file);
-          if (document) {
+          if (document && !this.isUnchanged(document)) {
             documents.push(document);
           }
+          onFileProcessed?.(this.createFileResult(file, path.basename(file), document, fileStartTime));
         } catch (error) {
           console.warn(`⚠️ Failed to process file: ${file}`, error);
+          onFileProcessed?.({
+            filePath: file,
+            fileName: path.basename(file),
+            status: 'failed',
+            chunkCount: 0,
+            embeddingFailures: 0,
+            processingTime: Date.now() - fileStartTime,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
       }
 
@@ -67,20 +153,37 @@ export class DocumentProcessor {
   }
 
   /**
-   * Process specified file list
+   * Process specified file list; unchanged files are reported but not returned
    */
-  async processFiles(filePaths: string[]): Promise<ProcessedDocument[]> {
+  async processFiles(
+    files: Array<string | InputFile>,
+    onFileProcessed?: (result: FileProcessingResult) => void
+  ): Promise<ProcessedDocument[]> {
     try {
       const documents: ProcessedDocument[] = [];
 
-      for (const filePath of filePaths) {
+      for (const file of files) {
+        const { filePath, fileName } = typeof file === 'string'
+          ? { filePath: file, fileName: path.basename(file) }
+          : file;
+        const fileStartTime = Date.now();
         try {
-          const document = await this.processFile(filePath);
-          if (document) {
+          const document = await this.processFile(filePath, fileName);
+          if (document && !this.isUnchanged(document)) {
             documents.push(document);
           }
+          onFileProcessed?.(this.createFileResult(filePath, fileName, document, fileStartTime));
         } catch (error) {
           console.warn(`⚠️ Failed to process file: ${filePath}`, error);
+          onFileProcessed?.({
+            filePath,
+            fileName,
+            status: 'failed',
+            chunkCount: 0,
+            embeddingFailures: 0,
+            processingTime: Date.now() - fileStartTime,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
       }
 
@@ -93,9 +196,14 @@ export class DocumentProcessor {
   }
 
   /**
-   * Process single file
+   * Process single file. A file whose content hash and fingerprints match the stored document is
+   * returned without chunks and with `metadata.ingestion.status` 'unchanged'; otherwise only chunks
+   * not stored yet are embedded and sent to entity extraction. Stored embeddings are only reused
+   * when they come from the current embedding model.
    */
-  async processFile(filePath: string): Promise<ProcessedDocument | null> {
+  async processFile(filePath: string, fileName: string = path.basename(filePath)): Promise<ProcessedDocument | null> {
+    const startTime = Date.now();
+
     try {
       const stats = await fs.stat(filePath);
       
@@ -105,77 +213,174 @@ export class DocumentProcessor {
         return null;
       }
 
-      const content = await this.readFile(filePath);
-      if (!content) return null;
+      const extracted = await this.extractFile(filePath, fileName);
+      const content = extracted.text;
+
+      // Sections carry the locators and metadata that are not part of the text
+      const contentHash = this.generateHash(JSON.stringify(extracted.sections));
+      const stored = await this.getStoredDocument(fileName);
+      // An empty file is only processed to remove the chunks of its previous version
+      if (!content && !stored) return null;
+
+      const fingerprints = {
+        chunkingFingerprint: this.chunkingFingerprint,
+        embeddingFingerprint: this.getEmbeddingFingerprint(),
+      };
+      const sameEmbeddings = stored?.embeddingFingerprint === fingerprints.embeddingFingerprint;
+      const metadata = {
+        filePath,
+        size: stats.size,
+        modified: stats.mtime.toISOString(),
+        ...extracted.metadata,
+      };
 
-      // Create chunks using enhanced text chunker
-      const chunks = await this.createChunks(content, path.basename(filePath));
+      if (stored?.contentHash === contentHash && stored.chunkingFingerprint === fingerprints.chunkingFingerprint && sameEmbeddings) {
+        console.log(`⏭️ Unchanged, skipping: ${fileName}`);
+        const ingestion: IngestionState = { status: 'unchanged', contentHash, ...fingerprints, newChunks: 0, reusedChunks: 0 };
+        return {
+          filename: fileName,
+          content,
+          chunks: [],
+          metadata: { ...metadata, ingestion, embeddingFailures: 0, processingTime: Date.now() - startTime },
+        };
+      }
+
+      if (stored?.contentHash === contentHash) {
+        console.log(`   🔧 Chunking or embedding settings changed since the last ingestion of ${fileName}`);
+      }
+
+      // Create chunks using enhanced text chunker; stored chunks keep embeddings of the current model
+      const reusableChunkIds = stored && sameEmbeddings ? stored.embeddedChunkIds : new Set<string>();
+      const chunks = await this.createChunks(extracted, fileName, reusableChunkIds);
+      const newChunks = chunks.filter(chunk => !reusableChunkIds.has(chunk.id));
+
+      // Extract entities and relationships from new chunks; stored chunks keep their MENTIONS
+      const extraction = this.entityExtractor.isEnabled() && newChunks.length > 0
+        ? await this.entityExtractor.extractFromChunks(newChunks)
+        : { entities: [], relationships: [] };
+
+      const ingestion: IngestionState = {
+        status: stored ? 'changed' : 'new',
+        contentHash,
+        ...fingerprints,
+        newChunks: newChunks.length,
+        reusedChunks: chunks.length - newChunks.length,
+      };
+      if (stored) {
+        console.log(`   ♻️ Changed document: ${ingestion.newChunks} new chunks, ${ingestion.reusedChunks} reused`);
+      }
       
       return {
-        filename: path.basename(filePath),
+        filename: fileName,
         content,
         chunks,
+        entity_data: extraction.entities,
+        relationship_data: extraction.relationships,
         metadata: {
-          filePath,
-          size: stats.size,
-          modified: stats.mtime.toISOString(),
+          ...metadata,
+          ingestion,
+          embeddingFailures: newChunks.filter(chunk => !chunk.properties.embedding).length,
+          processingTime: Date.now() - startTime,
         },
       };
     } catch (error) {
       console.error(`❌ Failed to process file: ${filePath}`, error);
-      return null;
+      throw error;
     }
   }
 
   /**
-   * Read file content
+   * Extract text with the extractor registered for the file's format; the format is taken
+   * from the document name because uploads are stored under generated names
    */
-  private async readFile(filePath: string): Promise<string | null> {
+  private async extractFile(filePath: string, fileName: string): Promise<ExtractedDocument> {
+    const extractor = getDocumentExtractor(fileName) || getDocumentExtractor(filePath);
+    if (!extractor) {
+      throw new Error(`Unsupported file type: ${path.extname(fileName)}. Supported types: ${getSupportedExtensions().join(', ')}`);
+    }
+
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return content.trim();
+      return await extractor.extract(await fs.readFile(filePath), fileName);
     } catch (error) {
-      console.error(`❌ Failed to read file: ${filePath}`, error);
-      return null;
+      console.error(`❌ Failed to extract ${extractor.name} file: ${filePath}`, error);
+      throw error;
     }
   }
 
   /**
-   * Create text chunks using enhanced text chunker
+   * Create text chunks using enhanced text chunker; every extracted section is chunked on its own
+   * so each chunk carries the page, section or JSON record it comes from
    */
-  private async createChunks(content: string, filename: string): Promise<ChunkNode[]> {
+  private async createChunks(
+    document: ExtractedDocument,
+    filename: string,
+    reusableChunkIds: Set<string> = new Set()
+  ): Promise<ChunkNode[]> {
     const chunks: ChunkNode[] = [];
     
-    // Split text using enhanced text chunker
-    const textChunks = this.textChunker.chunkText(content);
+    // Split text using enhanced text chunker; Markdown sections are further split along their headings
+    const sectionChunks: Array<ExtractedSection & { offset: number | null }> = [];
+    let sectionSearchStart = 0;
+    for (const section of document.sections) {
+      const sectionOffset = document.text.indexOf(section.text, sectionSearchStart);
+      if (sectionOffset !== -1) {
+        sectionSearchStart = sectionOffset + section.text.length;
+      }
+      const toDocumentOffset = (offset: number | null) =>
+        offset === null || sectionOffset === -1 ? null : sectionOffset + offset;
+
+      if (document.markup === 'markdown' && this.markdownChunking) {
+        const markdownChunks = await this.markdownChunker.chunkWithMode(section.text);
+        const offsets = this.locateChunks(section.text, markdownChunks.map(chunk => chunk.text));
+        sectionChunks.push(...markdownChunks.map((chunk, index) => ({
+          ...section,
+          text: chunk.text,
+          section: chunk.headingPath.length > 0 ? chunk.headingPath.join(' > ') : section.section,
+          offset: toDocumentOffset(offsets[index]),
+        })));
+        continue;
+      }
+      const texts = await this.textChunker.chunkTextWithMode(section.text);
+      const offsets = this.locateChunks(section.text, texts);
+      sectionChunks.push(...texts.map((text, index) => ({ ...section, text, offset: toDocumentOffset(offsets[index]) })));
+    }
+    const textChunks = sectionChunks.map(chunk => chunk.text);
     
     console.log(`📝 Processing file: ${filename}`);
-    console.log(`   📊 Text stats:`, this.textChunker.getTextStats(content));
-    console.log(`   🔪 Created ${textChunks.length} chunks`);
+    console.log(`   📊 Text stats:`, this.textChunker.getTextStats(document.text));
+    console.log(`   🔪 Created ${textChunks.length} chunks from ${document.sections.length} sections`);
+
+    // Mixed-language documents get a language per chunk; otherwise the whole document decides
+    const documentLanguage = this.multilingualSupport ? null : detectLanguage(document.text).language;
 
     // Convert to ChunkNode format and generate embeddings
     for (let chunkIndex = 0; chunkIndex < textChunks.length; chunkIndex++) {
       const chunkText = textChunks[chunkIndex];
+      const { page, section, locator, metadata, offset } = sectionChunks[chunkIndex];
       
       if (chunkText.trim()) {
-        const chunkId = this.generateHash(chunkText);
-        const words = chunkText.split(/\s+/).filter(word => word.trim());
+        const chunkId = this.generateChunkId(chunkText, locator, metadata);
+        const tokenCount = this.tokenizer.countTokens(chunkText);
         
-        // Generate embedding for chunk
+        // Generate embedding for chunk; stored chunks keep the embedding they already have
         let embedding: number[] | undefined;
-        try {
-          console.log(`   🔄 Generating embedding for chunk ${chunkIndex + 1}/${textChunks.length}`);
-          embedding = await embeddingManager.embedQuery(chunkText);
-          console.log(`   ✅ Generated embedding (${embedding.length} dimensions) for chunk ${chunkIndex + 1}`);
-          
-          // Validate embedding
-          if (!embedding || embedding.length === 0) {
-            console.warn(`   ⚠️ Empty embedding generated for chunk ${chunkIndex + 1}`);
+        if (reusableChunkIds.has(chunkId)) {
+          console.log(`   ♻️ Reusing stored embedding for chunk ${chunkIndex + 1}/${textChunks.length}`);
+        } else {
+          try {
+            console.log(`   🔄 Generating embedding for chunk ${chunkIndex + 1}/${textChunks.length}`);
+            embedding = await embeddingManager.embedQuery(chunkText);
+            console.log(`   ✅ Generated embedding (${embedding.length} dimensions) for chunk ${chunkIndex + 1}`);
+            
+            // Validate embedding
+            if (!embedding || embedding.length === 0) {
+              console.warn(`   ⚠️ Empty embedding generated for chunk ${chunkIndex + 1}`);
+              embedding = undefined;
+            }
+          } catch (error) {
+            console.warn(`   ⚠️ Failed to generate embedding for chunk ${chunkIndex + 1}:`, error);
             embedding = undefined;
           }
-        } catch (error) {
-          console.warn(`   ⚠️ Failed to generate embedding for chunk ${chunkIndex + 1}:`, error);
-          embedding = undefined;
         }
         
         const chunk: ChunkNode = {
@@ -184,15 +389,20 @@ export class DocumentProcessor {
           properties: {
             id: chunkId,
             text: chunkText,
-            n_tokens: words.length,
+            n_tokens: tokenCount,
             chunk_index: chunkIndex,
             document_id: this.generateDocumentId(filename),
             // Additional metadata fields
             position: chunkIndex + 1,
             length: chunkText.length,
-            content_offset: this.calculateContentOffset(textChunks, chunkIndex),
+            content_offset: offset,
             fileName: filename,
-            tokens: words.length,
+            tokens: tokenCount,
+            language: documentLanguage || detectLanguage(chunkText).language,
+            page,
+            section,
+            locator,
+            metadata,
             embedding: embedding, // Add embedding field
           },
         };
@@ -206,14 +416,86 @@ export class DocumentProcessor {
   }
 
   /**
-   * Calculate content offset for a chunk
+   * Content hash, fingerprints and embedded chunk ids of the stored document; null for a new
+   * document or when the graph can't be reached (the file is then processed in full)
+   */
+  private async getStoredDocument(fileName: string): Promise<StoredDocument | null> {
+    try {
+      const results = await neo4jManager.executeQuery(`
+        MATCH (d:__Document__ {fileName: $fileName})
+        OPTIONAL MATCH (c:__Chunk__)-[:PART_OF]->(d)
+        RETURN d.content_hash AS contentHash,
+               d.chunking_fingerprint AS chunkingFingerprint,
+               d.embedding_fingerprint AS embeddingFingerprint,
+               collect(CASE WHEN c.embedding IS NOT NULL THEN c.id END) AS embeddedChunkIds
+      `, { fileName });
+
+      if (results.length === 0) return null;
+      return {
+        contentHash: results[0].contentHash || null,
+        chunkingFingerprint: results[0].chunkingFingerprint || null,
+        embeddingFingerprint: results[0].embeddingFingerprint || null,
+        embeddedChunkIds: new Set(results[0].embeddedChunkIds),
+      };
+    } catch (error) {
+      console.warn(`⚠️ Failed to read stored document ${fileName}, processing it in full:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Vectors of another provider, model or dimension are not comparable, so they can't be reused
+   */
+  private getEmbeddingFingerprint(): string {
+    const { provider, model } = embeddingManager.getConfig();
+    return this.generateHash(JSON.stringify({ provider, model, dimension: embeddingManager.embeddingSize }));
+  }
+
+  private isUnchanged(document: ProcessedDocument): boolean {
+    return document.metadata?.ingestion?.status === 'unchanged';
+  }
+
+  private createFileResult(
+    filePath: string,
+    fileName: string,
+    document: ProcessedDocument | null,
+    startTime: number
+  ): FileProcessingResult {
+    return {
+      filePath,
+      fileName,
+      status: document ? (this.isUnchanged(document) ? 'unchanged' : 'processed') : 'skipped',
+      chunkCount: document?.chunks.length || 0,
+      embeddingFailures: document?.metadata?.embeddingFailures || 0,
+      processingTime: Date.now() - startTime,
+      error: document ? undefined : 'File is empty or exceeds the maximum file size',
+    };
+  }
+
+  /**
+   * Start of every chunk in the text it was split from. Chunks are in text order and may overlap,
+   * so each is searched from just after the previous start; null when a chunk isn't a verbatim
+   * slice of the text (Markdown blocks rejoined with other spacing, repeated table headers)
+   */
+  private locateChunks(text: string, chunks: string[]): Array<number | null> {
+    let searchStart = 0;
+    return chunks.map(chunk => {
+      const offset = text.indexOf(chunk, searchStart);
+      if (offset === -1) return null;
+      searchStart = offset + 1;
+      return offset;
+    });
+  }
+
+  /**
+   * Chunks are identified by their text; records of structured files also by their locator and
+   * metadata, so records with the same text stay separate chunks with their own metadata
    */
-  private calculateContentOffset(textChunks: string[], currentIndex: number): number {
-    let offset = 0;
-    for (let i = 0; i < currentIndex; i++) {
-      offset += textChunks[i].length;
+  private generateChunkId(text: string, locator?: string, metadata?: Record<string, ChunkMetadataValue>): string {
+    if (locator === undefined && metadata === undefined) {
+      return this.generateHash(text);
     }
-    return offset;
+    return this.generateHash(JSON.stringify({ text, locator, metadata }));
   }
 
   /**
@@ -234,7 +516,7 @@ export class DocumentProcessor {
    * Get supported file list
    */
   private async getSupportedFiles(dirPath: string): Promise<string[]> {
-    const supportedExtensions = ['.txt', '.md', '.json'];
+    const supportedExtensions = getSupportedExtensions();
     const files: string[] = [];
 
     try {
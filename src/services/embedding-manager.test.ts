@@ -0,0 +1,52 @@
+import { embeddingManager } from './embedding-manager';
+
+describe('EmbeddingManager', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    embeddingManager.updateConfig({ provider: 'hashing', dimensions: 16 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('switches the provider and dimension on updateConfig', () => {
+    expect(embeddingManager.getConfig()).toMatchObject({ provider: 'hashing', dimensions: 16 });
+    expect(embeddingManager.embeddingSize).toBe(16);
+  });
+
+  it('keeps settings that are passed as undefined', () => {
+    embeddingManager.updateConfig({ dimensions: undefined, model: 'other' });
+
+    expect(embeddingManager.getConfig()).toMatchObject({ provider: 'hashing', dimensions: 16, model: 'other' });
+  });
+
+  it('rejects unknown providers and keeps the current one', () => {
+    expect(() => embeddingManager.updateConfig({ provider: 'nope' })).toThrow('Unknown embedding provider');
+    expect(embeddingManager.getConfig().provider).toBe('hashing');
+  });
+
+  it('embeds only texts that are not cached yet, in input order', async () => {
+    const model = embeddingManager.getEmbeddingModel();
+    const embedDocuments = jest.spyOn(model, 'embedDocuments');
+    const [first] = await embeddingManager.embedDocuments(['first']);
+
+    const embeddings = await embeddingManager.embedDocuments(['second', 'first']);
+
+    expect(embedDocuments).toHaveBeenLastCalledWith(['second']);
+    expect(embeddings[1]).toEqual(first);
+    expect(embeddings[0]).toEqual(await model.embedQuery('second'));
+  });
+
+  it('does not mistake texts with a common beginning for cached ones', async () => {
+    const model = embeddingManager.getEmbeddingModel();
+    const prefix = 'Solar panels on the roof produce clean electricity. ';
+    await embeddingManager.embedDocuments([`${prefix}They face south.`]);
+    const embedDocuments = jest.spyOn(model, 'embedDocuments');
+
+    const [embedding] = await embeddingManager.embedDocuments([`${prefix}Bakeries sell bread.`]);
+
+    expect(embedDocuments).toHaveBeenCalledWith([`${prefix}Bakeries sell bread.`]);
+    expect(embedding).toEqual(await model.embedQuery(`${prefix}Bakeries sell bread.`));
+  });
+});
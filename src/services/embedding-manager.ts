@@ -1,4 +1,9 @@
-import { GeminiEmbeddingModel } from './vector-index/gemini-embedding-model';
+import crypto from 'crypto';
+import {
+  createEmbeddingModel,
+  validateEmbeddingDimension,
+  EmbeddingDimensionCheck
+} from './vector-index/embedding-provider-registry';
 import { getEmbeddingConfig } from '../config/unified-config';
 
 // Redefine EmbeddingModel interface
@@ -24,9 +29,11 @@ export interface EmbeddingModel {
 }
 
 export interface EmbeddingConfig {
+  provider: string;
   apiKey: string;
   model: string;
   baseURL?: string;
+  dimensions?: number;
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
@@ -42,7 +49,7 @@ export interface EmbeddingCache {
 
 export class EmbeddingManager {
   private static instance: EmbeddingManager;
-  private embeddingModel: EmbeddingModel;
+  private embeddingModel: EmbeddingModel & { embeddingSize: number };
   private config: EmbeddingConfig;
   private cache: EmbeddingCache = {};
   private cacheTTL: number = 24 * 60 * 60 * 1000; // 24-hour cache
@@ -51,22 +58,22 @@ export class EmbeddingManager {
     const unifiedEmbeddingConfig = getEmbeddingConfig();
     
     this.config = {
-      apiKey: process.env.GEMINI_API_KEY || '',
+      provider: unifiedEmbeddingConfig.provider,
+      apiKey: unifiedEmbeddingConfig.apiKey,
       model: unifiedEmbeddingConfig.model,
-      baseURL: process.env.GEMINI_BASE_URL,
+      baseURL: unifiedEmbeddingConfig.baseURL
+        || (unifiedEmbeddingConfig.provider === 'gemini' ? process.env.GEMINI_BASE_URL : undefined),
+      dimensions: unifiedEmbeddingConfig.dimensions,
       timeout: unifiedEmbeddingConfig.timeout,
       retryAttempts: unifiedEmbeddingConfig.retryAttempts,
       retryDelay: unifiedEmbeddingConfig.retryDelay,
     };
 
-    this.embeddingModel = new GeminiEmbeddingModel({
-      apiKey: this.config.apiKey,
-      model: this.config.model,
-      baseURL: this.config.baseURL,
-    });
+    this.embeddingModel = this.createModel();
 
     console.log('🔧 EmbeddingManager initialized');
-    console.log(`   📊 Model: ${this.config.model}`);
+    console.log(`   🧩 Provider: ${this.config.provider}`);
+    console.log(`   📊 Model: ${this.config.model} (${this.embeddingModel.embeddingSize} dimensions)`);
     console.log(`   🔑 API Key: ${this.config.apiKey ? '✅ Configured' : '❌ Not configured'}`);
   }
 
@@ -83,10 +90,24 @@ export class EmbeddingManager {
   /**
    * Get embedding model instance
    */
-  public getEmbeddingModel(): EmbeddingModel {
+  public getEmbeddingModel(): EmbeddingModel & { embeddingSize: number } {
     return this.embeddingModel;
   }
 
+  /**
+   * Dimension declared by the active provider
+   */
+  public get embeddingSize(): number {
+    return this.embeddingModel.embeddingSize;
+  }
+
+  /**
+   * Check the active provider's dimension against the embeddings already stored on chunks
+   */
+  public async validateStoredDimension(): Promise<EmbeddingDimensionCheck> {
+    return validateEmbeddingDimension(this.config.provider, this.embeddingModel.embeddingSize);
+  }
+
   /**
    * Get configuration
    */
@@ -98,18 +119,38 @@ export class EmbeddingManager {
    * Update configuration
    */
   public updateConfig(newConfig: Partial<EmbeddingConfig>): void {
-    this.config = { ...this.config, ...newConfig };
-    
-    // Reinitialize embedding model
-    this.embeddingModel = new GeminiEmbeddingModel({
-      apiKey: this.config.apiKey,
-      model: this.config.model,
-      baseURL: this.config.baseURL,
-    });
+    // Keys passed as undefined keep their current value
+    const updatedConfig: EmbeddingConfig = { ...this.config };
+    const setValue = <K extends keyof EmbeddingConfig>(key: K) => {
+      const value = newConfig[key];
+      if (value !== undefined) {
+        updatedConfig[key] = value;
+      }
+    };
+    (Object.keys(newConfig) as Array<keyof EmbeddingConfig>).forEach(setValue);
+
+    // Reinitialize embedding model; vectors from another provider or model are not comparable
+    this.embeddingModel = this.createModel(updatedConfig);
+    this.config = updatedConfig;
+    this.clearCache();
     
     console.log('🔄 EmbeddingManager configuration updated');
   }
 
+  /**
+   * Create the embedding model for the configured provider
+   */
+  private createModel(config: EmbeddingConfig = this.config): EmbeddingModel & { embeddingSize: number } {
+    return createEmbeddingModel(config.provider, {
+      apiKey: config.apiKey,
+      model: config.model,
+      baseURL: config.baseURL,
+      dimensions: config.dimensions,
+      timeout: config.timeout,
+      retryAttempts: config.retryAttempts,
+    });
+  }
+
   /**
    * Generate embedding for a single text (with caching and retry)
    */
@@ -197,10 +238,11 @@ export class EmbeddingManager {
   }
 
   /**
-   * Generate cache key
+   * Cache key from a hash of the whole text; semantic chunking embeds overlapping sentence
+   * windows, which often share their first words
    */
   private generateCacheKey(text: string): string {
-    return `embedding:${Buffer.from(text).toString('base64').substring(0, 32)}`;
+    return `embedding:${crypto.createHash('sha256').update(text).digest('hex')}`;
   }
 
   /**
@@ -267,6 +309,7 @@ export class EmbeddingManager {
       return {
         status: 'healthy',
         details: {
+          provider: this.config.provider,
           model: this.config.model,
           embeddingSize: embedding.length,
           cacheSize: Object.keys(this.cache).length,
@@ -278,6 +321,7 @@ export class EmbeddingManager {
         status: 'unhealthy',
         details: {
           error: error instanceof Error ? error.message : 'Unknown error',
+          provider: this.config.provider,
           model: this.config.model,
           apiKeyConfigured: !!this.config.apiKey,
         },
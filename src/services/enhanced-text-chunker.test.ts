@@ -0,0 +1,119 @@
+import { EnhancedTextChunker, packSemanticUnits, percentile } from './enhanced-text-chunker';
+import { embeddingManager } from './embedding-manager';
+import { BpeTokenizer, Tokenizer, WhitespaceTokenizer } from './tokenizer';
+
+describe('EnhancedTextChunker with token-sized chunks', () => {
+  const words = Array.from({ length: 100 }, (_, index) => `w${index}`);
+
+  function createChunker(tokenizer: Tokenizer, chunkSize: number, overlap: number): EnhancedTextChunker {
+    return new EnhancedTextChunker({ chunkSize, overlap, unit: 'tokens', tokenizer, preserveSentences: false, mode: 'standard' });
+  }
+
+  it('fills every chunk up to chunkSize tokens and overlaps by the overlap in tokens', () => {
+    const chunks = createChunker(new WhitespaceTokenizer(), 10, 3).chunkText(words.join(' '));
+
+    expect(chunks[0]).toBe(words.slice(0, 10).join(' '));
+    expect(chunks[1]).toBe(words.slice(7, 17).join(' '));
+    for (const chunk of chunks) {
+      expect(chunk.split(' ').length).toBeLessThanOrEqual(10);
+    }
+    expect(chunks[chunks.length - 1].endsWith('w99')).toBe(true);
+  });
+
+  it('finds token boundaries of texts much longer than the first estimate', () => {
+    const tokenizer = new BpeTokenizer('cl100k_base');
+    const text = 'Renewable energy lowers emissions and costs across Europe. '.repeat(60);
+    const chunks = createChunker(tokenizer, 40, 5).chunkText(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks.slice(0, -1)) {
+      // The slice fits 40 tokens; without its leading space the first word may encode as one more token
+      const tokens = tokenizer.countTokens(` ${chunk}`);
+      expect(tokens).toBeLessThanOrEqual(40);
+      expect(tokens).toBeGreaterThanOrEqual(38);
+    }
+  });
+
+  it('measures texts in the configured unit', () => {
+    const chunker = createChunker(new WhitespaceTokenizer(), 10, 3);
+
+    expect(chunker.measure('one two three')).toBe(3);
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates linearly between values', () => {
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+    expect(percentile([4, 1, 3, 2], 0)).toBe(1);
+    expect(percentile([4, 1, 3, 2], 150)).toBe(4);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('packSemanticUnits', () => {
+  it('ends ranges at breakpoints', () => {
+    expect(packSemanticUnits([10, 10, 10, 10], [0.9, 0.1, 0.9], 0.5, 100, 15)).toEqual([[0, 2], [2, 4]]);
+  });
+
+  it('ignores breakpoints before a range reaches the minimum size', () => {
+    expect(packSemanticUnits([5, 5, 5, 5], [0.1, 0.9, 0.9], 0.5, 100, 8)).toEqual([[0, 4]]);
+  });
+
+  it('ends a range that would outgrow the maximum size at its least similar pair', () => {
+    expect(packSemanticUnits([10, 10, 10, 10, 10, 10], [0.9, 0.9, 0.2, 0.8, 0.9], 0.1, 40, 10)).toEqual([[0, 3], [3, 6]]);
+  });
+
+  it('joins a short remainder to the previous range when both fit', () => {
+    expect(packSemanticUnits([10, 10, 10, 2], [0.9, 0.9, 0.1], 0.5, 40, 5)).toEqual([[0, 4]]);
+    expect(packSemanticUnits([10, 10, 10, 2], [0.9, 0.9, 0.1], 0.5, 30, 5)).toEqual([[0, 3], [3, 4]]);
+  });
+});
+
+describe('EnhancedTextChunker in semantic mode', () => {
+  const sentences = Array.from({ length: 100 }, (_, index) => index < 50
+    ? `Solar panels on the roof number ${index} produce clean electricity.`
+    : `The bakery on corner ${index} sells fresh bread every morning.`);
+  const text = sentences.join(' ');
+
+  beforeAll(() => {
+    embeddingManager.updateConfig({ provider: 'hashing' });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createChunker(): EnhancedTextChunker {
+    return new EnhancedTextChunker({ chunkSize: 600, unit: 'characters', mode: 'semantic', breakpointPercentile: 10, minChunkSize: 150 });
+  }
+
+  it('keeps every sentence whole in chunks of at most chunkSize', async () => {
+    const chunks = await createChunker().chunkTextWithMode(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 600)).toBe(true);
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('embeds the sentence windows in batches', async () => {
+    const embedDocuments = jest.spyOn(embeddingManager, 'embedDocuments');
+
+    await createChunker().chunkTextWithMode(text);
+
+    expect(embedDocuments.mock.calls.length).toBeGreaterThan(1);
+    expect(embedDocuments.mock.calls.every(([windows]) => windows.length <= 64)).toBe(true);
+    expect(embedDocuments.mock.calls.reduce((sum, [windows]) => sum + windows.length, 0)).toBe(sentences.length);
+  });
+
+  it('falls back to standard chunking when the embeddings fail', async () => {
+    jest.spyOn(embeddingManager, 'embedDocuments').mockRejectedValue(new Error('provider down'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const chunker = createChunker();
+
+    expect(await chunker.chunkTextWithMode(text)).toEqual(chunker.chunkText(text));
+  });
+});
@@ -1,15 +1,26 @@
 import { getDocumentProcessingConfig } from '../config/unified-config';
+import { ChunkSizeUnit, Tokenizer, getTokenizer, measureText } from './tokenizer';
+import { embeddingManager } from './embedding-manager';
+import { cosineSimilarity } from './vector-index/vector-math';
+
+export type ChunkingMode = 'standard' | 'semantic';
 
 export interface ChunkingOptions {
   chunkSize: number;
   overlap: number;
+  unit: ChunkSizeUnit;   // Unit of chunkSize and overlap
+  tokenizer: Tokenizer;  // Counts tokens when unit is 'tokens'
   maxTextLength: number;
   preserveSentences: boolean;
   multilingualSupport: boolean;
+  mode: ChunkingMode;
+  breakpointPercentile: number;  // Semantic mode: similarities below this percentile are breakpoints
+  minChunkSize: number;          // Semantic mode: chunks end at a breakpoint only after reaching this size
 }
 
 export interface TextStats {
   textLength: number;
+  tokens: number;
   needsPreprocessing: boolean;
   estimatedChunks: number;
   paragraphs: number;
@@ -18,6 +29,17 @@ export interface TextStats {
   maxSegmentLength?: number;
 }
 
+// Chunks may run this far past chunkSize to end on a sentence boundary
+const SENTENCE_OVERFLOW: Record<ChunkSizeUnit, number> = { characters: 100, tokens: 25 };
+// First guess of the characters per token when searching for a token-sized prefix
+const ESTIMATED_CHARACTERS_PER_TOKEN = 4;
+// Sentence ends (with the whitespace after them) and paragraph breaks delimit the units of semantic chunking
+const SEMANTIC_BOUNDARY_PATTERN = /(?:[。！？]+|[.!?]+(?=\s|$))\s*|\n\s*\n\s*/g;
+// Sentences embedded on each side of a sentence, since single short sentences embed poorly
+const SEMANTIC_CONTEXT_SENTENCES = 1;
+// Sentence windows sent to the embedding provider per request
+const SEMANTIC_EMBEDDING_BATCH_SIZE = 64;
+
 export class EnhancedTextChunker {
   private options: ChunkingOptions;
   private sentenceEndings: RegExp;
@@ -29,9 +51,14 @@ export class EnhancedTextChunker {
     this.options = {
       chunkSize: options.chunkSize || defaultConfig.chunkSize,
       overlap: options.overlap || defaultConfig.overlap,
+      unit: options.unit || defaultConfig.chunkSizeUnit,
+      tokenizer: options.tokenizer || getTokenizer(defaultConfig.tokenizer),
       maxTextLength: options.maxTextLength || defaultConfig.maxTextLength,
       preserveSentences: options.preserveSentences !== false ? defaultConfig.preserveSentences : false,
       multilingualSupport: options.multilingualSupport !== false ? defaultConfig.multilingualSupport : false,
+      mode: options.mode || defaultConfig.chunkingMode,
+      breakpointPercentile: options.breakpointPercentile ?? defaultConfig.semanticBreakpointPercentile,
+      minChunkSize: options.minChunkSize || defaultConfig.semanticMinChunkSize,
     };
 
     // Multi-language sentence ending support
@@ -43,6 +70,10 @@ export class EnhancedTextChunker {
     this.paragraphSeparators = /\n\s*\n/;
   }
 
+  get mode(): ChunkingMode {
+    return this.options.mode;
+  }
+
   /**
    * Split text into intelligent chunks
    */
@@ -52,7 +83,7 @@ export class EnhancedTextChunker {
     }
 
     // Handle very short text
-    if (text.length < this.options.chunkSize / 10) {
+    if (this.measure(text) < this.options.chunkSize / 10) {
       return [text.trim()];
     }
 
@@ -69,6 +100,87 @@ export class EnhancedTextChunker {
     return allChunks;
   }
 
+  /**
+   * Split text with the configured mode. Semantic chunking embeds the sentences and is therefore async;
+   * it falls back to standard chunking when the embeddings can't be generated.
+   */
+  async chunkTextWithMode(text: string): Promise<string[]> {
+    if (this.options.mode !== 'semantic') {
+      return this.chunkText(text);
+    }
+    if (!text || text.trim().length === 0) {
+      return [];
+    }
+
+    try {
+      const chunks: string[] = [];
+      for (const segment of this.preprocessLargeText(text)) {
+        chunks.push(...await this.chunkSegmentSemantically(segment));
+      }
+      return chunks;
+    } catch (error) {
+      console.warn('⚠️ Semantic chunking failed, falling back to standard chunking:', error);
+      return this.chunkText(text);
+    }
+  }
+
+  /**
+   * Place chunk boundaries where the similarity of adjacent sentences drops below the breakpoint percentile
+   */
+  private async chunkSegmentSemantically(text: string): Promise<string[]> {
+    if (this.measure(text) <= this.options.chunkSize) {
+      return text.trim() ? [text.trim()] : [];
+    }
+
+    const units = this.splitIntoSemanticUnits(text);
+    const windows = units.map((_, index) => units
+      .slice(Math.max(0, index - SEMANTIC_CONTEXT_SENTENCES), index + SEMANTIC_CONTEXT_SENTENCES + 1)
+      .join('')
+      .trim());
+    const embeddings: number[][] = [];
+    for (let i = 0; i < windows.length; i += SEMANTIC_EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...await embeddingManager.embedDocuments(windows.slice(i, i + SEMANTIC_EMBEDDING_BATCH_SIZE)));
+    }
+    // similarities[i] compares unit i with unit i + 1
+    const similarities = units.slice(1).map((_, index) => cosineSimilarity(embeddings[index], embeddings[index + 1]));
+    const threshold = percentile(similarities, this.options.breakpointPercentile);
+    const minSize = Math.min(this.options.minChunkSize || Math.floor(this.options.chunkSize / 4), this.options.chunkSize);
+
+    return packSemanticUnits(units.map(unit => this.measure(unit)), similarities, threshold, this.options.chunkSize, minSize)
+      .map(([start, end]) => units.slice(start, end).join('').trim());
+  }
+
+  /**
+   * Sentences and paragraphs as consecutive slices of the text, each with its trailing whitespace.
+   * Sentences longer than chunkSize are cut into pieces that fit.
+   */
+  private splitIntoSemanticUnits(text: string): string[] {
+    const units: string[] = [];
+    let start = 0;
+    for (const match of text.matchAll(SEMANTIC_BOUNDARY_PATTERN)) {
+      const end = match.index! + match[0].length;
+      if (end > start) {
+        units.push(text.slice(start, end));
+        start = end;
+      }
+    }
+    if (start < text.length) {
+      units.push(text.slice(start));
+    }
+
+    return units
+      .filter(unit => unit.trim())
+      .flatMap(unit => {
+        const pieces: string[] = [];
+        for (let pieceStart = 0; pieceStart < unit.length;) {
+          const length = Math.max(1, this.prefixLength(unit.slice(pieceStart), this.options.chunkSize));
+          pieces.push(unit.slice(pieceStart, pieceStart + length));
+          pieceStart += length;
+        }
+        return pieces;
+      });
+  }
+
   /**
    * Preprocess large text by splitting into smaller segments
    */
@@ -237,7 +349,7 @@ export class EnhancedTextChunker {
     }
 
     // If text length is less than chunk size, return directly
-    if (text.length <= this.options.chunkSize) {
+    if (this.measure(text) <= this.options.chunkSize) {
       return [text.trim()];
     }
 
@@ -245,13 +357,14 @@ export class EnhancedTextChunker {
     let startPos = 0;
 
     while (startPos < text.length) {
-      // Determine current chunk end position
-      let endPos = Math.min(startPos + this.options.chunkSize, text.length);
+      // Determine current chunk end position; a chunk holds at least one character
+      let endPos = startPos + Math.max(1, this.prefixLength(text.slice(startPos), this.options.chunkSize));
 
       // If not the last chunk and need to preserve sentence integrity, try to end at sentence boundary
       if (endPos < text.length && this.options.preserveSentences) {
         const sentenceEnd = this.findNextSentenceEnd(text, endPos);
-        if (sentenceEnd <= startPos + this.options.chunkSize + 100) { // Allow slight overflow
+        const overflowLimit = this.options.chunkSize + SENTENCE_OVERFLOW[this.options.unit];
+        if (this.measure(text.slice(startPos, sentenceEnd)) <= overflowLimit) { // Allow slight overflow
           endPos = sentenceEnd;
         }
       }
@@ -268,7 +381,7 @@ export class EnhancedTextChunker {
       }
 
       // Find overlap start position
-      const overlapStart = Math.max(startPos, endPos - this.options.overlap);
+      const overlapStart = startPos + this.suffixStart(text.slice(startPos, endPos), this.options.overlap);
       
       if (this.options.preserveSentences) {
         const nextSentenceStart = this.findPreviousSentenceStart(text, overlapStart);
@@ -292,6 +405,68 @@ export class EnhancedTextChunker {
     return chunks;
   }
 
+  /**
+   * Size of a text in the configured unit
+   */
+  measure(text: string): number {
+    return measureText(text, this.options.unit, this.options.tokenizer);
+  }
+
+  /**
+   * Length in characters of the longest prefix of `text` that fits `size`
+   */
+  private prefixLength(text: string, size: number): number {
+    if (this.options.unit === 'characters') {
+      return Math.min(size, text.length);
+    }
+
+    // Widen the window until it no longer fits, so long texts are never tokenized as a whole
+    let low = 0;
+    let high = Math.min(text.length, size * ESTIMATED_CHARACTERS_PER_TOKEN);
+    while (high < text.length && this.measure(text.slice(0, high)) <= size) {
+      low = high;
+      high = Math.min(text.length, high * 2);
+    }
+    if (this.measure(text.slice(0, high)) <= size) {
+      return high;
+    }
+
+    // Token counts grow with the prefix, so the boundary can be found by bisection
+    while (low < high - 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.measure(text.slice(0, middle)) <= size) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Start in characters of the longest suffix of `text` that fits `size`
+   */
+  private suffixStart(text: string, size: number): number {
+    if (this.options.unit === 'characters') {
+      return Math.max(0, text.length - size);
+    }
+    if (this.measure(text) <= size) {
+      return 0;
+    }
+
+    let low = 0;
+    let high = text.length;
+    while (low < high - 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.measure(text.slice(middle)) <= size) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high;
+  }
+
   /**
    * Find next sentence end position from specified position
    */
@@ -333,10 +508,12 @@ export class EnhancedTextChunker {
    * Get text statistics
    */
   getTextStats(text: string): TextStats {
+    const tokens = this.options.tokenizer.countTokens(text);
     const stats: TextStats = {
       textLength: text.length,
+      tokens,
       needsPreprocessing: text.length > this.options.maxTextLength,
-      estimatedChunks: Math.max(1, Math.floor(text.length / this.options.chunkSize)),
+      estimatedChunks: Math.max(1, Math.floor((this.options.unit === 'tokens' ? tokens : text.length) / this.options.chunkSize)),
       paragraphs: text.split(this.paragraphSeparators).length,
       lines: text.split('\n').length,
     };
@@ -366,10 +543,10 @@ export class EnhancedTextChunker {
       // If there is a next chunk, create overlapping chunk
       if (i < chunks.length - 1) {
         const nextChunk = chunks[i + 1];
-        const overlapSize = Math.min(this.options.overlap, currentChunk.length, nextChunk.length);
+        const overlapText = currentChunk.slice(this.suffixStart(currentChunk, this.options.overlap))
+          + nextChunk.slice(0, this.prefixLength(nextChunk, this.options.overlap));
         
-        if (overlapSize > 0) {
-          const overlapText = currentChunk.slice(-overlapSize) + nextChunk.slice(0, overlapSize);
+        if (overlapText.length > 0) {
           overlappingChunks.push(overlapText);
         }
       }
@@ -377,4 +554,88 @@ export class EnhancedTextChunker {
 
     return overlappingChunks;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Linearly interpolated percentile (0-100) of a list of values
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Group units into [start, end) ranges of at most maxSize, the size of a range being the sum of its
+ * unit sizes. A range ends at the first breakpoint (a similarity below threshold) after it reaches
+ * minSize; one that would outgrow maxSize ends at its least similar pair of units instead.
+ * similarities[i] compares unit i with unit i + 1. Ranges do not overlap, since their boundaries are topic shifts.
+ */
+export function packSemanticUnits(
+  unitSizes: number[],
+  similarities: number[],
+  threshold: number,
+  maxSize: number,
+  minSize: number
+): Array<[number, number]> {
+  // offsets[i] is the total size of the units before unit i
+  const offsets = [0];
+  for (const size of unitSizes) {
+    offsets.push(offsets[offsets.length - 1] + size);
+  }
+  const sizeOf = (start: number, end: number) => offsets[end] - offsets[start];
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+
+  while (start < unitSizes.length) {
+    let end = start + 1;
+    while (end < unitSizes.length) {
+      if (similarities[end - 1] < threshold && sizeOf(start, end) >= minSize) {
+        break;
+      }
+      if (sizeOf(start, end + 1) > maxSize) {
+        end = findWeakestBoundary(start, end, similarities, minSize, sizeOf);
+        break;
+      }
+      end++;
+    }
+    ranges.push([start, end]);
+    start = end;
+  }
+
+  // A short remainder joins the previous range when both fit together
+  if (ranges.length > 1) {
+    const [lastStart, lastEnd] = ranges[ranges.length - 1];
+    const previousStart = ranges[ranges.length - 2][0];
+    if (sizeOf(lastStart, lastEnd) < minSize && sizeOf(previousStart, lastEnd) <= maxSize) {
+      ranges.splice(ranges.length - 2, 2, [previousStart, lastEnd]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * End (exclusive) in (start, end] with the lowest similarity across it among those leaving
+ * at least minSize in the range; `end` when no earlier boundary qualifies
+ */
+function findWeakestBoundary(
+  start: number,
+  end: number,
+  similarities: number[],
+  minSize: number,
+  sizeOf: (start: number, end: number) => number
+): number {
+  let weakest = end;
+  for (let boundary = end - 1; boundary > start; boundary--) {
+    if (sizeOf(start, boundary) < minSize) break;
+    if (similarities[boundary - 1] < similarities[weakest - 1]) {
+      weakest = boundary;
+    }
+  }
+  return weakest;
+}
@@ -0,0 +1,155 @@
+import { ChunkNode } from '../models/types';
+import { EntityExtractor } from './entity-extractor';
+
+const generateText = jest.fn<Promise<string>, [string]>();
+
+jest.mock('./service-manager', () => ({
+  serviceManager: { getLLMService: () => ({ generateText }) },
+}));
+jest.mock('./embedding-manager', () => ({
+  embeddingManager: { embedDocuments: async (texts: string[]) => texts.map(() => [0.1, 0.2]) },
+}));
+
+function chunk(id: string, text: string): ChunkNode {
+  return {
+    id,
+    labels: ['__Chunk__'],
+    properties: {
+      id, text, n_tokens: 0, chunk_index: 0, document_id: 'doc', position: 0,
+      length: text.length, content_offset: 0, fileName: 'doc.md', tokens: 0,
+    },
+  };
+}
+
+function extraction(entities: object[], relationships: object[] = []): string {
+  return JSON.stringify({ entities, relationships });
+}
+
+describe('EntityExtractor', () => {
+  const extractor = new EntityExtractor({ entityTypes: ['organization', 'location'], maxEntitiesPerChunk: 10, concurrency: 2 });
+
+  beforeEach(() => {
+    generateText.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses entities and relationships from fenced JSON', async () => {
+    generateText.mockResolvedValue('```json\n' + extraction(
+      [
+        { name: 'GreenZero', type: 'Organization', description: 'Climate platform' },
+        { name: 'Berlin', type: 'location' },
+        { name: 'Solar power', type: 'technology' },
+      ],
+      [{ source: 'greenzero', target: 'Berlin', type: 'located in', description: 'Office', strength: 42 }]
+    ) + '\n```');
+
+    const result = await extractor.extractFromChunk(chunk('c1', 'GreenZero is based in Berlin.'));
+
+    expect(result.entities.map(entity => [entity.properties.name, entity.properties.type, entity.labels])).toEqual([
+      ['GreenZero', 'organization', ['__Entity__', 'Organization']],
+      ['Berlin', 'location', ['__Entity__', 'Location']],
+      // Types outside the configured list become concepts
+      ['Solar power', 'concept', ['__Entity__', 'Concept']],
+    ]);
+    expect(result.relationships).toHaveLength(1);
+    expect(result.relationships[0]).toMatchObject({
+      source: result.entities[0].id,
+      target: result.entities[1].id,
+      type: 'LOCATED_IN',
+      properties: { weight: 10, source_chunk_ids: ['c1'] },
+    });
+  });
+
+  it('drops relationships to unknown entities and self-references', async () => {
+    generateText.mockResolvedValue(extraction(
+      [{ name: 'GreenZero', type: 'organization' }],
+      [
+        { source: 'GreenZero', target: 'Nowhere', type: 'OFFERS' },
+        { source: 'GreenZero', target: 'GreenZero', type: 'OWNS' },
+      ]
+    ));
+
+    const result = await extractor.extractFromChunk(chunk('c1', 'text'));
+
+    expect(result.entities).toHaveLength(1);
+    expect(result.relationships).toEqual([]);
+  });
+
+  it('inserts chunk text into the prompt verbatim', async () => {
+    generateText.mockResolvedValue(extraction([]));
+
+    await extractor.extractFromChunk(chunk('c1', "Prices rose by $& and $' overnight."));
+
+    expect(generateText.mock.calls[0][0]).toContain("Prices rose by $& and $' overnight.");
+  });
+
+  it('returns nothing for unparseable output or failed calls', async () => {
+    generateText.mockResolvedValueOnce('no json here').mockRejectedValueOnce(new Error('quota'));
+
+    expect(await extractor.extractFromChunk(chunk('c1', 'text'))).toEqual({ entities: [], relationships: [] });
+    expect(await extractor.extractFromChunk(chunk('c2', 'text'))).toEqual({ entities: [], relationships: [] });
+  });
+
+  it('merges mentions across chunks by type and case-insensitive name', async () => {
+    generateText
+      .mockResolvedValueOnce(extraction(
+        [{ name: 'GreenZero', type: 'organization', description: 'Platform' }, { name: 'Berlin', type: 'location' }],
+        [{ source: 'GreenZero', target: 'Berlin', type: 'LOCATED_IN', strength: 3 }]
+      ))
+      .mockResolvedValueOnce(extraction(
+        [{ name: 'greenzero', type: 'organization', description: 'Startup' }, { name: 'Berlin', type: 'location' }],
+        [{ source: 'greenzero', target: 'Berlin', type: 'LOCATED_IN', strength: 7 }]
+      ));
+
+    const result = await extractor.extractFromChunks([chunk('c1', 'one'), chunk('c2', 'two')]);
+
+    expect(result.entities).toHaveLength(2);
+    expect(result.entities[0].properties).toMatchObject({
+      name: 'GreenZero',
+      description: 'Platform\nStartup',
+      source_chunk_ids: ['c1', 'c2'],
+      embedding: [0.1, 0.2],
+    });
+    expect(result.relationships).toHaveLength(1);
+    expect(result.relationships[0].properties).toMatchObject({ weight: 7, source_chunk_ids: ['c1', 'c2'] });
+  });
+});
+
+describe('EntityExtractor configuration', () => {
+  const originalValue = process.env.ENABLE_ENTITY_EXTRACTION;
+
+  afterEach(() => {
+    if (originalValue === undefined) {
+      delete process.env.ENABLE_ENTITY_EXTRACTION;
+    } else {
+      process.env.ENABLE_ENTITY_EXTRACTION = originalValue;
+    }
+  });
+
+  // Configuration is read once at import, so every value gets a fresh module registry
+  function isEnabledWith(value: string | undefined): boolean {
+    if (value === undefined) {
+      delete process.env.ENABLE_ENTITY_EXTRACTION;
+    } else {
+      process.env.ENABLE_ENTITY_EXTRACTION = value;
+    }
+
+    let enabled = false;
+    jest.isolateModules(() => {
+      const { EntityExtractor: IsolatedExtractor } = require('./entity-extractor');
+      enabled = new IsolatedExtractor().isEnabled();
+    });
+    return enabled;
+  }
+
+  it('is off unless ENABLE_ENTITY_EXTRACTION is true', () => {
+    expect(isEnabledWith(undefined)).toBe(false);
+    expect(isEnabledWith('1')).toBe(false);
+    expect(isEnabledWith('true')).toBe(true);
+  });
+});
@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { ChunkNode, EntityNode, Relationship } from '../models/types';
+import { ENTITY_EXTRACTION_PROMPT } from '../config/gemini';
+import { getEntityExtractionConfig, EntityExtractionConfig } from '../config/unified-config';
+import { embeddingManager } from './embedding-manager';
+import { serviceManager } from './service-manager';
+import { parseJson } from './text-utils';
+
+export interface ExtractionResult {
+  entities: EntityNode[];
+  relationships: Relationship[];
+}
+
+interface RawEntity {
+  name?: unknown;
+  type?: unknown;
+  description?: unknown;
+}
+
+interface RawRelationship {
+  source?: unknown;
+  target?: unknown;
+  type?: unknown;
+  description?: unknown;
+  strength?: unknown;
+}
+
+/**
+ * EntityExtractor - LLM-driven entity and relationship extraction from text chunks
+ */
+export class EntityExtractor {
+  private config: EntityExtractionConfig;
+
+  constructor(config: Partial<EntityExtractionConfig> = {}) {
+    this.config = { ...getEntityExtractionConfig(), ...config };
+  }
+
+  /**
+   * Whether extraction is enabled in configuration
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Extract entities and relationships from all chunks of a document, merged by entity identity
+   */
+  async extractFromChunks(chunks: ChunkNode[]): Promise<ExtractionResult> {
+    const entities = new Map<string, EntityNode>();
+    const relationships = new Map<string, Relationship>();
+    const concurrency = Math.max(1, this.config.concurrency);
+
+    console.log(`   🧠 Extracting entities from ${chunks.length} chunks (concurrency: ${concurrency})`);
+
+    for (let i = 0; i < chunks.length; i += concurrency) {
+      const batch = chunks.slice(i, i + concurrency);
+      const batchResults = await Promise.all(batch.map(chunk => this.extractFromChunk(chunk)));
+
+      for (const result of batchResults) {
+        result.entities.forEach(entity => this.mergeEntity(entities, entity));
+        result.relationships.forEach(relationship => this.mergeRelationship(relationships, relationship));
+      }
+    }
+
+    const mergedEntities = Array.from(entities.values());
+    await this.embedEntities(mergedEntities);
+
+    console.log(`   ✅ Extracted ${mergedEntities.length} entities and ${relationships.size} relationships`);
+    return {
+      entities: mergedEntities,
+      relationships: Array.from(relationships.values()),
+    };
+  }
+
+  /**
+   * Extract entities and relationships from a single chunk
+   */
+  async extractFromChunk(chunk: ChunkNode): Promise<ExtractionResult> {
+    try {
+      const prompt = ENTITY_EXTRACTION_PROMPT
+        .replace('{entity_types}', () => this.config.entityTypes.join(', '))
+        .replace('{max_entities}', () => String(this.config.maxEntitiesPerChunk))
+        .replace('{text}', () => chunk.properties.text);
+
+      const response = await serviceManager.getLLMService().generateText(prompt);
+      return this.parseExtraction(response, chunk.id);
+    } catch (error) {
+      console.warn(`   ⚠️ Entity extraction failed for chunk ${chunk.id}:`, error);
+      return { entities: [], relationships: [] };
+    }
+  }
+
+  /**
+   * Parse LLM output into entity and relationship objects
+   */
+  private parseExtraction(response: string, chunkId: string): ExtractionResult {
+    const parsed = parseJson(response);
+    if (!parsed) {
+      console.warn(`   ⚠️ Could not parse extraction output for chunk ${chunkId}`);
+      return { entities: [], relationships: [] };
+    }
+
+    const entitiesByName = new Map<string, EntityNode>();
+    const rawEntities: RawEntity[] = Array.isArray(parsed.entities) ? parsed.entities : [];
+
+    for (const raw of rawEntities.slice(0, this.config.maxEntitiesPerChunk)) {
+      const name = this.cleanString(raw.name);
+      const type = this.normalizeEntityType(raw.type);
+      if (!name || !type) continue;
+
+      const id = this.generateEntityId(name, type);
+      entitiesByName.set(name.toLowerCase(), {
+        id,
+        labels: ['__Entity__', this.toLabel(type)],
+        properties: {
+          id,
+          name,
+          type,
+          description: this.cleanString(raw.description),
+          source_chunk_ids: [chunkId],
+        },
+      });
+    }
+
+    const relationships: Relationship[] = [];
+    const rawRelationships: RawRelationship[] = Array.isArray(parsed.relationships) ? parsed.relationships : [];
+
+    for (const raw of rawRelationships) {
+      const source = entitiesByName.get(this.cleanString(raw.source).toLowerCase());
+      const target = entitiesByName.get(this.cleanString(raw.target).toLowerCase());
+      const type = this.normalizeRelationshipType(raw.type);
+      if (!source || !target || !type || source.id === target.id) continue;
+
+      const strength = Number(raw.strength);
+      relationships.push({
+        id: this.generateHash(`${source.id}|${type}|${target.id}`),
+        source: source.id,
+        target: target.id,
+        type,
+        properties: {
+          description: this.cleanString(raw.description),
+          weight: Number.isFinite(strength) ? Math.min(10, Math.max(1, strength)) : 1,
+          source_chunk_ids: [chunkId],
+        },
+      });
+    }
+
+    return { entities: Array.from(entitiesByName.values()), relationships };
+  }
+
+  /**
+   * Merge an entity into the accumulated map
+   */
+  private mergeEntity(entities: Map<string, EntityNode>, entity: EntityNode): void {
+    const existing = entities.get(entity.id);
+    if (!existing) {
+      entities.set(entity.id, entity);
+      return;
+    }
+
+    existing.properties.description = this.mergeDescriptions(
+      existing.properties.description,
+      entity.properties.description
+    );
+    existing.properties.source_chunk_ids = this.mergeIds(
+      existing.properties.source_chunk_ids,
+      entity.properties.source_chunk_ids
+    );
+  }
+
+  /**
+   * Merge a relationship into the accumulated map
+   */
+  private mergeRelationship(relationships: Map<string, Relationship>, relationship: Relationship): void {
+    const existing = relationships.get(relationship.id);
+    if (!existing) {
+      relationships.set(relationship.id, relationship);
+      return;
+    }
+
+    existing.properties.description = this.mergeDescriptions(
+      existing.properties.description,
+      relationship.properties.description
+    );
+    existing.properties.weight = Math.max(existing.properties.weight, relationship.properties.weight);
+    existing.properties.source_chunk_ids = this.mergeIds(
+      existing.properties.source_chunk_ids,
+      relationship.properties.source_chunk_ids
+    );
+  }
+
+  /**
+   * Generate embeddings for entity descriptions (used by entity-centric search)
+   */
+  private async embedEntities(entities: EntityNode[]): Promise<void> {
+    if (entities.length === 0) return;
+
+    try {
+      const texts = entities.map(entity =>
+        `${entity.properties.name}: ${entity.properties.description || entity.properties.type}`
+      );
+      const embeddings = await embeddingManager.embedDocuments(texts);
+      entities.forEach((entity, index) => {
+        if (embeddings[index] && embeddings[index].length > 0) {
+          entity.properties.embedding = embeddings[index];
+        }
+      });
+    } catch (error) {
+      console.warn('   ⚠️ Failed to generate entity embeddings:', error);
+    }
+  }
+
+  private mergeDescriptions(current?: string, incoming?: string): string {
+    if (!current) return incoming || '';
+    if (!incoming || current.includes(incoming)) return current;
+    return `${current}\n${incoming}`;
+  }
+
+  private mergeIds(current: string[] = [], incoming: string[] = []): string[] {
+    return Array.from(new Set([...current, ...incoming]));
+  }
+
+  private cleanString(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  private normalizeEntityType(value: unknown): string {
+    const type = this.cleanString(value).toLowerCase();
+    if (!type) return '';
+    return this.config.entityTypes.includes(type) ? type : 'concept';
+  }
+
+  private normalizeRelationshipType(value: unknown): string {
+    return this.cleanString(value)
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .replace(/^(\d)/, 'R_$1');
+  }
+
+  /**
+   * Convert an entity type to a node label, e.g. "organization" -> "Organization"
+   */
+  private toLabel(type: string): string {
+    return type
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(part => part.length > 0)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  /**
+   * Entities are identified by type and case-insensitive name, so mentions across chunks and documents merge
+   */
+  private generateEntityId(name: string, type: string): string {
+    return this.generateHash(`${type}:${name.toLowerCase()}`);
+  }
+
+  private generateHash(content: string): string {
+    return crypto.createHash('md5').update(content).digest('hex');
+  }
+}
+
+export default EntityExtractor;
@@ -0,0 +1,48 @@
+import { ChunkMetadataValue } from '../chunk-metadata';
+
+// A contiguous part of a document that shares its location metadata
+export interface ExtractedSection {
+  text: string;
+  page?: number;     // 1-based page number (PDF)
+  section?: string;  // Heading path of the section, e.g. "Setup > Installation" (DOCX)
+  locator?: string;  // JSON pointer of the record the text comes from, e.g. "/products/3" (JSON)
+  metadata?: Record<string, ChunkMetadataValue>; // Fields stored as filterable chunk properties
+}
+
+export interface ExtractedDocument {
+  text: string;                   // Full text; sections are joined by blank lines
+  sections: ExtractedSection[];   // Chunked separately so chunks never span two pages or sections
+  markup?: 'markdown';            // Markup of the section texts; Markdown is chunked along its headings
+  metadata?: Record<string, any>; // Format-specific facts such as the page count
+}
+
+/**
+ * Turns the bytes of one file format into text with page and section metadata
+ */
+export interface DocumentExtractor {
+  readonly name: string;
+  readonly extensions: string[];  // Lowercase, with the leading dot
+  readonly mimeTypes: string[];
+
+  extract(data: Buffer, fileName: string): Promise<ExtractedDocument>;
+}
+
+/**
+ * Build an extracted document from its sections, dropping empty ones
+ */
+export function createExtractedDocument(
+  sections: ExtractedSection[],
+  metadata?: Record<string, any>,
+  markup?: ExtractedDocument['markup']
+): ExtractedDocument {
+  const nonEmpty = sections
+    .map(section => ({ ...section, text: section.text.trim() }))
+    .filter(section => section.text.length > 0);
+
+  return {
+    text: nonEmpty.map(section => section.text).join('\n\n'),
+    sections: nonEmpty,
+    markup,
+    metadata,
+  };
+}
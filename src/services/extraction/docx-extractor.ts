@@ -0,0 +1,69 @@
+import mammoth from 'mammoth';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection, createExtractedDocument } from './document-extractor';
+
+const HEADING_PATTERN = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g;
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Word documents; every heading starts a section named by its heading path.
+ * Text before the first heading forms a section without a name.
+ */
+export class DocxExtractor implements DocumentExtractor {
+  readonly name = 'docx';
+  readonly extensions = ['.docx'];
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+  async extract(data: Buffer, fileName: string): Promise<ExtractedDocument> {
+    // Mammoth maps the built-in Heading 1-6 styles to <h1>-<h6>
+    const result = await mammoth.convertToHtml({ buffer: data });
+    if (result.messages.length > 0) {
+      console.warn(`⚠️ ${result.messages.length} conversion warnings for ${fileName}`);
+    }
+
+    const sections: ExtractedSection[] = [];
+    // Indexed by heading level - 1; skipped levels stay empty
+    let headingPath: string[] = [];
+    let current: ExtractedSection = { text: '' };
+    let position = 0;
+
+    for (const match of result.value.matchAll(HEADING_PATTERN)) {
+      current.text += this.toText(result.value.substring(position, match.index));
+      sections.push(current);
+
+      const level = parseInt(match[1], 10);
+      const heading = this.toText(match[2]).replace(/\s+/g, ' ').trim();
+      headingPath = headingPath.slice(0, level - 1);
+      headingPath[level - 1] = heading;
+
+      // The heading stays in the text so chunks keep their context
+      current = { text: `${heading}\n\n`, section: headingPath.filter(Boolean).join(' > ') };
+      position = (match.index || 0) + match[0].length;
+    }
+    current.text += this.toText(result.value.substring(position));
+    sections.push(current);
+
+    return createExtractedDocument(sections);
+  }
+
+  /**
+   * Convert an HTML fragment to text with one line per paragraph, list item or table row
+   */
+  private toText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/g, '\n')
+      .replace(/<\/p>/g, '\n\n')
+      .replace(/<\/(li|tr|table|ul|ol)>/g, '\n')
+      .replace(/<\/t[dh]>/g, '\t')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity])
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n');
+  }
+}
@@ -0,0 +1,38 @@
+import { getDocumentProcessingConfig } from '../../config/unified-config';
+import { getDocumentExtractor, getSupportedExtensions } from './extractor-registry';
+
+describe('getDocumentExtractor', () => {
+  const config = getDocumentProcessingConfig();
+  const supportedFormats = config.supportedFormats;
+
+  beforeEach(() => {
+    config.supportedFormats = ['txt', 'md', 'json', 'pdf', 'docx'];
+  });
+
+  afterEach(() => {
+    config.supportedFormats = supportedFormats;
+  });
+
+  it('chooses the extractor by extension, ignoring case', () => {
+    expect(getDocumentExtractor('report.PDF')?.name).toBe('pdf');
+    expect(getDocumentExtractor('notes.md', 'application/pdf')?.name).toBe('text');
+  });
+
+  it('does not fall back to the MIME type for unknown extensions', () => {
+    expect(getDocumentExtractor('notes.xyz', 'text/plain')).toBeNull();
+  });
+
+  it('falls back to the MIME type for names without an extension', () => {
+    expect(getDocumentExtractor('report', 'application/pdf')?.name).toBe('pdf');
+    expect(getDocumentExtractor('notes', 'TEXT/PLAIN')?.name).toBe('text');
+    expect(getDocumentExtractor('notes')).toBeNull();
+  });
+
+  it('rejects formats disabled in SUPPORTED_FORMATS', () => {
+    config.supportedFormats = ['txt'];
+
+    expect(getDocumentExtractor('report.pdf')).toBeNull();
+    expect(getDocumentExtractor('report', 'application/pdf')).toBeNull();
+    expect(getSupportedExtensions()).toEqual(['.txt']);
+  });
+});
@@ -0,0 +1,54 @@
+import path from 'path';
+import { getDocumentProcessingConfig } from '../../config/unified-config';
+import { DocumentExtractor } from './document-extractor';
+import { TextExtractor } from './text-extractor';
+import { PdfExtractor } from './pdf-extractor';
+import { DocxExtractor } from './docx-extractor';
+import { JsonExtractor } from './json-extractor';
+
+const extractorsByExtension = new Map<string, DocumentExtractor>();
+const extractorsByMimeType = new Map<string, DocumentExtractor>();
+
+/**
+ * Register an extractor for its extensions and MIME types; a later registration replaces an earlier one
+ */
+export function registerDocumentExtractor(extractor: DocumentExtractor): void {
+  extractor.extensions.forEach(extension => extractorsByExtension.set(extension.toLowerCase(), extractor));
+  extractor.mimeTypes.forEach(mimeType => extractorsByMimeType.set(mimeType.toLowerCase(), extractor));
+}
+
+/**
+ * Extensions that have an extractor and are enabled in SUPPORTED_FORMATS
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(extractorsByExtension.keys()).filter(isEnabled).sort();
+}
+
+/**
+ * Extractor for a file, chosen by extension; the MIME type is only used for names without an
+ * extension, since a file is stored and later processed under its own extension. Null when the
+ * format is unknown or disabled in SUPPORTED_FORMATS.
+ */
+export function getDocumentExtractor(fileName: string, mimeType?: string): DocumentExtractor | null {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension) {
+    const byExtension = extractorsByExtension.get(extension);
+    return byExtension && isEnabled(extension) ? byExtension : null;
+  }
+
+  const byMimeType = mimeType ? extractorsByMimeType.get(mimeType.toLowerCase()) : undefined;
+  if (byMimeType && byMimeType.extensions.some(isEnabled)) {
+    return byMimeType;
+  }
+  return null;
+}
+
+function isEnabled(extension: string): boolean {
+  const formats = getDocumentProcessingConfig().supportedFormats.map(format => format.trim().toLowerCase());
+  return formats.includes(extension.replace(/^\./, ''));
+}
+
+registerDocumentExtractor(new TextExtractor());
+registerDocumentExtractor(new PdfExtractor());
+registerDocumentExtractor(new DocxExtractor());
+registerDocumentExtractor(new JsonExtractor());
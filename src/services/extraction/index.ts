@@ -0,0 +1,19 @@
+// Document extraction module exports
+
+export {
+  DocumentExtractor,
+  ExtractedDocument,
+  ExtractedSection,
+  createExtractedDocument
+} from './document-extractor';
+
+export { TextExtractor } from './text-extractor';
+export { PdfExtractor } from './pdf-extractor';
+export { DocxExtractor } from './docx-extractor';
+export { JsonExtractor, JsonExtractionOptions } from './json-extractor';
+
+export {
+  registerDocumentExtractor,
+  getSupportedExtensions,
+  getDocumentExtractor
+} from './extractor-registry';
@@ -0,0 +1,63 @@
+import { JsonExtractor, JsonExtractionOptions } from './json-extractor';
+
+function extract(value: unknown, options: Partial<JsonExtractionOptions> = {}) {
+  const extractor = new JsonExtractor({ textFields: [], metadataFields: [], maxRecordLength: 1000, unit: 'characters', ...options });
+  return extractor.extract(Buffer.from(JSON.stringify(value)), 'data.json');
+}
+
+describe('JsonExtractor', () => {
+  it('makes every object in an array a section located by its JSON pointer', async () => {
+    const document = await extract(
+      [{ id: 1, title: 'Heat pumps', category: 'energy' }, { id: 2, title: 'Insulation', category: 'building' }],
+      { metadataFields: ['category'] }
+    );
+
+    expect(document.sections).toEqual([
+      { text: 'id: 1\ntitle: Heat pumps', locator: '/0', metadata: { category: 'energy' } },
+      { text: 'id: 2\ntitle: Insulation', locator: '/1', metadata: { category: 'building' } },
+    ]);
+    expect(document.metadata).toEqual({ records: 2 });
+  });
+
+  it('keeps only the text fields when they are configured', async () => {
+    const document = await extract([{ id: 1, title: 'Heat pumps', body: { summary: 'Efficient' } }], { textFields: ['title', 'body'] });
+
+    expect(document.sections.map(section => section.text)).toEqual(['title: Heat pumps\nbody.summary: Efficient']);
+  });
+
+  it('passes metadata down to nested records', async () => {
+    const document = await extract(
+      { shop: 'Green', region: 'eu', products: [{ name: 'Panel', tags: ['solar', 'roof'] }] },
+      { metadataFields: ['region'] }
+    );
+
+    expect(document.sections).toEqual([
+      { text: 'shop: Green', locator: '', metadata: { region: 'eu' } },
+      { text: 'name: Panel\ntags: solar, roof', locator: '/products/0', metadata: { region: 'eu' } },
+    ]);
+  });
+
+  it('escapes keys in JSON pointers', async () => {
+    const document = await extract({ 'a/b~c': [{ name: 'x' }] });
+
+    expect(document.sections.map(section => section.locator)).toEqual(['/a~1b~0c/0']);
+  });
+
+  it('splits objects longer than maxRecordLength into their subtrees', async () => {
+    const document = await extract(
+      { title: 'Guide', details: { description: 'A description that is longer than the record limit' } },
+      { maxRecordLength: 30 }
+    );
+
+    expect(document.sections.map(section => [section.locator, section.text])).toEqual([
+      ['', 'title: Guide'],
+      ['/details', 'description: A description that is longer than the record limit'],
+    ]);
+  });
+
+  it('rejects invalid JSON with the file name', async () => {
+    const extractor = new JsonExtractor();
+
+    await expect(extractor.extract(Buffer.from('{"a":'), 'broken.json')).rejects.toThrow('Invalid JSON in broken.json');
+  });
+});
@@ -0,0 +1,173 @@
+import { getDocumentProcessingConfig } from '../../config/unified-config';
+import { ChunkMetadataValue, isMetadataValue } from '../chunk-metadata';
+import { ChunkSizeUnit, measureText } from '../tokenizer';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection, createExtractedDocument } from './document-extractor';
+
+export interface JsonExtractionOptions {
+  textFields: string[];      // Keys whose values form the text; empty means every key that is not metadata
+  metadataFields: string[];  // Keys whose scalar values become filterable chunk metadata instead of text
+  maxRecordLength: number;   // Objects with a longer text are split into their subtrees
+  unit: ChunkSizeUnit;       // Unit of maxRecordLength
+}
+
+/**
+ * JSON documents, one section per record. Every object in an array is a record; an object whose text
+ * exceeds maxRecordLength is split into its scalar fields and one record per nested object or array.
+ * Each section is located by the JSON pointer of its record and carries the record's metadata
+ * fields, including those inherited from enclosing records.
+ */
+export class JsonExtractor implements DocumentExtractor {
+  readonly name = 'json';
+  readonly extensions = ['.json'];
+  readonly mimeTypes = ['application/json'];
+
+  private options?: Partial<JsonExtractionOptions>;
+
+  constructor(options?: Partial<JsonExtractionOptions>) {
+    this.options = options;
+  }
+
+  async extract(data: Buffer, fileName: string): Promise<ExtractedDocument> {
+    let root: unknown;
+    try {
+      root = JSON.parse(data.toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const sections: ExtractedSection[] = [];
+    this.walk(root, '', {}, false, this.getOptions(), sections);
+    return createExtractedDocument(sections, { records: sections.length });
+  }
+
+  /**
+   * Options not passed to the constructor come from the document processing configuration
+   */
+  private getOptions(): JsonExtractionOptions {
+    const config = getDocumentProcessingConfig();
+    return {
+      textFields: this.options?.textFields ?? config.jsonTextFields,
+      metadataFields: this.options?.metadataFields ?? config.jsonMetadataFields,
+      maxRecordLength: this.options?.maxRecordLength ?? config.chunkSize,
+      unit: this.options?.unit ?? config.chunkSizeUnit,
+    };
+  }
+
+  private walk(
+    value: unknown,
+    pointer: string,
+    inherited: Record<string, ChunkMetadataValue>,
+    selected: boolean,  // Inside a subtree selected by textFields
+    options: JsonExtractionOptions,
+    sections: ExtractedSection[]
+  ): void {
+    if (Array.isArray(value)) {
+      // Scalars in a mixed array form one section; nested objects and arrays are records of their own
+      const scalars = value.filter(item => !isContainer(item));
+      if (scalars.length > 0) {
+        this.addSection(sections, pointer, scalars.map(String), inherited);
+      }
+      value.forEach((item, index) => {
+        if (isContainer(item)) {
+          this.walk(item, `${pointer}/${index}`, inherited, selected, options, sections);
+        }
+      });
+      return;
+    }
+
+    if (!isObject(value)) {
+      if (value !== null && value !== undefined) {
+        this.addSection(sections, pointer, [String(value)], inherited);
+      }
+      return;
+    }
+
+    const metadata = { ...inherited };
+    for (const [key, field] of Object.entries(value)) {
+      if (options.metadataFields.includes(key) && isMetadataValue(field)) {
+        metadata[key] = field;
+      }
+    }
+
+    // Arrays of objects are always split into records; other nested objects only when the record is too long
+    const recordText = this.renderFields(value, '', selected, options).join('\n');
+    const fitsRecord = measureText(recordText, options.unit) <= options.maxRecordLength;
+    const children = Object.entries(value).filter(([, field]) =>
+      isContainer(field) && !isScalarArray(field) && (Array.isArray(field) || !fitsRecord)
+    );
+    const ownFields = Object.fromEntries(
+      Object.entries(value).filter(([key]) => !children.some(([childKey]) => childKey === key))
+    );
+
+    this.addSection(sections, pointer, this.renderFields(ownFields, '', selected, options), metadata);
+    for (const [key, field] of children) {
+      const childSelected = selected || options.textFields.includes(key);
+      this.walk(field, `${pointer}/${escapePointerToken(key)}`, metadata, childSelected, options, sections);
+    }
+  }
+
+  /**
+   * Render selected fields as "path: value" lines; a key listed in textFields selects its whole subtree
+   */
+  private renderFields(value: Record<string, unknown>, prefix: string, selected: boolean, options: JsonExtractionOptions): string[] {
+    const lines: string[] = [];
+
+    for (const [key, field] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const isText = selected || (options.textFields.length > 0
+        ? options.textFields.includes(key)
+        : !options.metadataFields.includes(key));
+
+      if (isScalarArray(field)) {
+        if (isText && field.length > 0) lines.push(`${path}: ${field.join(', ')}`);
+      } else if (Array.isArray(field)) {
+        field.forEach((item, index) => {
+          if (isObject(item)) {
+            lines.push(...this.renderFields(item, `${path}[${index}]`, isText && options.textFields.length > 0, options));
+          } else if (isText) {
+            lines.push(`${path}[${index}]: ${JSON.stringify(item)}`);
+          }
+        });
+      } else if (isObject(field)) {
+        lines.push(...this.renderFields(field, path, isText && options.textFields.length > 0, options));
+      } else if (isText && field !== null && field !== undefined && String(field).trim()) {
+        lines.push(`${path}: ${field}`);
+      }
+    }
+
+    return lines;
+  }
+
+  private addSection(
+    sections: ExtractedSection[],
+    pointer: string,
+    lines: string[],
+    metadata: Record<string, ChunkMetadataValue>
+  ): void {
+    if (lines.length === 0) return;
+    sections.push({
+      text: lines.join('\n'),
+      locator: pointer,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+function isScalarArray(value: unknown): value is Array<string | number | boolean | null> {
+  return Array.isArray(value) && value.every(item => !isContainer(item));
+}
+
+/**
+ * Escape an object key for use in a JSON pointer (RFC 6901)
+ */
+function escapePointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,46 @@
+import pdfParse from 'pdf-parse';
+import { DocumentExtractor, ExtractedDocument, ExtractedSection, createExtractedDocument } from './document-extractor';
+
+/**
+ * PDF text layer, one section per page. Scanned PDFs without a text layer yield no text.
+ */
+export class PdfExtractor implements DocumentExtractor {
+  readonly name = 'pdf';
+  readonly extensions = ['.pdf'];
+  readonly mimeTypes = ['application/pdf'];
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const pages: ExtractedSection[] = [];
+
+    // pdf-parse renders the pages one after another, so they arrive in order
+    const result = await pdfParse(data, {
+      pagerender: async (pageData: any) => {
+        const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        const text = this.joinTextItems(content.items);
+        pages.push({ text, page: pageData.pageNumber ?? pages.length + 1 });
+        return text;
+      },
+    });
+
+    return createExtractedDocument(pages, { pageCount: result.numpages });
+  }
+
+  /**
+   * Text items on the same baseline form a line; a change of the y coordinate starts a new one
+   */
+  private joinTextItems(items: Array<{ str: string; transform: number[] }>): string {
+    let text = '';
+    let lastY: number | null = null;
+
+    for (const item of items) {
+      const y = item.transform[5];
+      if (lastY !== null && y !== lastY) {
+        text += '\n';
+      }
+      text += item.str;
+      lastY = y;
+    }
+
+    return text;
+  }
+}
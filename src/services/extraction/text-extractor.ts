@@ -0,0 +1,19 @@
+import path from 'path';
+import { DocumentExtractor, ExtractedDocument, createExtractedDocument } from './document-extractor';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * Plain UTF-8 text formats; the whole file is one section. Markdown files are marked as such
+ * so the chunker can follow their headings.
+ */
+export class TextExtractor implements DocumentExtractor {
+  readonly name = 'text';
+  readonly extensions = ['.txt', ...MARKDOWN_EXTENSIONS];
+  readonly mimeTypes = ['text/plain', 'text/markdown', 'text/x-markdown'];
+
+  async extract(data: Buffer, fileName: string): Promise<ExtractedDocument> {
+    const isMarkdown = MARKDOWN_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+    return createExtractedDocument([{ text: data.toString('utf-8') }], undefined, isMarkdown ? 'markdown' : undefined);
+  }
+}
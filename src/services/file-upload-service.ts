@@ -2,8 +2,9 @@ import fs from 'fs/promises';
 import path from 'path';
 import { ProcessedDocument } from '../models/types';
 import { neo4jManager } from '../database/neo4j';
-import DocumentProcessor from './document-processor';
+import DocumentProcessor, { FileProcessingResult, InputFile } from './document-processor';
 import GraphService from './graph-service';
+import { getDocumentExtractor } from './extraction';
 
 export class FileUploadService {
   private documentProcessor: DocumentProcessor;
@@ -23,6 +24,7 @@ export class FileUploadService {
     success: boolean;
     message: string;
     processedCount: number;
+    unchangedCount: number;
     totalCount: number;
   }> {
     try {
@@ -37,19 +39,26 @@ export class FileUploadService {
           success: false,
           message: 'No valid files uploaded',
           processedCount: 0,
+          unchangedCount: 0,
           totalCount: files.length,
         };
       }
 
       // Process documents
       console.log(`📄 Starting to process ${savedFiles.length} uploaded files...`);
-      const documents = await this.documentProcessor.processFiles(savedFiles);
+      const fileResults: FileProcessingResult[] = [];
+      const documents = await this.documentProcessor.processFiles(savedFiles, result => fileResults.push(result));
+      const unchangedCount = fileResults.filter(result => result.status === 'unchanged').length;
       
       if (documents.length === 0) {
+        await this.cleanupTempFiles(savedFiles.map(file => file.filePath));
         return {
-          success: false,
-          message: 'File processing failed, no valid documents generated',
+          success: unchangedCount > 0,
+          message: unchangedCount > 0
+            ? `All ${unchangedCount} documents are unchanged`
+            : 'File processing failed, no valid documents generated',
           processedCount: 0,
+          unchangedCount,
           totalCount: savedFiles.length,
         };
       }
@@ -59,12 +68,14 @@ export class FileUploadService {
       await this.graphService.processAndWriteGraphDocuments(documents);
       
       // Clean up temporary files
-      await this.cleanupTempFiles(savedFiles);
+      await this.cleanupTempFiles(savedFiles.map(file => file.filePath));
 
       return {
         success: true,
-        message: `Successfully processed ${documents.length} documents`,
+        message: `Successfully processed ${documents.length} documents` +
+          (unchangedCount > 0 ? `, ${unchangedCount} unchanged` : ''),
         processedCount: documents.length,
+        unchangedCount,
         totalCount: savedFiles.length,
       };
 
@@ -82,6 +93,7 @@ export class FileUploadService {
         success: false,
         message: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         processedCount: 0,
+        unchangedCount: 0,
         totalCount: files.length,
       };
     }
@@ -99,23 +111,26 @@ export class FileUploadService {
   }
 
   /**
-   * Save uploaded files
+   * Save uploaded files; the original name is kept as the document name so re-uploads update the same document
    */
-  private async saveUploadedFiles(files: Express.Multer.File[]): Promise<string[]> {
-    const savedFiles: string[] = [];
+  private async saveUploadedFiles(files: Express.Multer.File[]): Promise<InputFile[]> {
+    const savedFiles: InputFile[] = [];
 
     for (const file of files) {
       try {
         // Generate unique filename
         const timestamp = Date.now();
         const randomSuffix = Math.random().toString(36).substring(2, 8);
-        const extension = path.extname(file.originalname);
+        // Files accepted by MIME type get the extractor's extension so the format can be recognized later
+        const extension = path.extname(file.originalname)
+          || getDocumentExtractor(file.originalname, file.mimetype)?.extensions[0]
+          || '';
         const filename = `${timestamp}_${randomSuffix}${extension}`;
         const filePath = path.join(this.uploadDir, filename);
 
         // Save file
         await fs.writeFile(filePath, file.buffer);
-        savedFiles.push(filePath);
+        savedFiles.push({ filePath, fileName: path.basename(file.originalname) });
 
         console.log(`✅ File saved: ${file.originalname} -> ${filePath}`);
       } catch (error) {
@@ -0,0 +1,207 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../database/neo4j';
+import { ChunkNode, ProcessedDocument } from '../models/types';
+import { GraphService } from './graph-service';
+
+jest.mock('../database/neo4j', () => ({
+  neo4jManager: {
+    executeQuery: jest.fn(async () => []),
+    executeWriteQuery: jest.fn(async () => []),
+    executeWriteTransaction: jest.fn(),
+  },
+}));
+jest.mock('./entity-extractor');
+jest.mock('./embedding-manager', () => ({
+  embeddingManager: {
+    embedQuery: jest.fn(async (text: string) => {
+      if (text.includes('unembeddable')) throw new Error('embedding failed');
+      return [0.1, 0.2, 0.3];
+    }),
+    getConfig: () => ({ provider: 'hashing', model: 'hashing-v1' }),
+    embeddingSize: 3,
+  },
+}));
+
+describe('GraphService.buildKnowledgeGraph', () => {
+  let inputPath: string;
+  let service: GraphService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    inputPath = await fs.mkdtemp(path.join(os.tmpdir(), 'build-'));
+    service = new GraphService();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(inputPath, { recursive: true, force: true });
+  });
+
+  it('reports written, skipped and failed files with chunk and embedding counts', async () => {
+    await fs.writeFile(path.join(inputPath, 'solar.txt'), 'Solar panels turn sunlight into electricity.');
+    await fs.writeFile(path.join(inputPath, 'wind.txt'), 'This text is unembeddable.');
+    await fs.writeFile(path.join(inputPath, 'empty.txt'), '   ');
+    const write = jest.spyOn(service, 'processAndWriteGraphDocuments').mockResolvedValue([
+      { fileName: 'solar.txt', success: true, writeTime: 5 },
+      { fileName: 'wind.txt', success: false, writeTime: 1, error: 'write failed' },
+    ]);
+
+    const report = await service.buildKnowledgeGraph(inputPath);
+
+    expect(write).toHaveBeenCalledWith(expect.any(Array), { continueOnError: true });
+    const statuses = Object.fromEntries(report.files.map(file => [file.fileName, file.status]));
+    expect(statuses).toEqual({ 'empty.txt': 'skipped', 'solar.txt': 'written', 'wind.txt': 'failed' });
+    expect(report).toMatchObject({
+      success: false,
+      totalFiles: 3,
+      writtenFiles: 1,
+      skippedFiles: 1,
+      failedFiles: 1,
+      totalChunks: 2,
+      embeddingFailures: 1,
+    });
+  });
+
+  it('rejects input paths that are not directories', async () => {
+    const filePath = path.join(inputPath, 'file.txt');
+    await fs.writeFile(filePath, 'text');
+    const write = jest.spyOn(service, 'processAndWriteGraphDocuments');
+
+    await expect(service.buildKnowledgeGraph(filePath)).rejects.toThrow('Input path is not a directory');
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('GraphService.processDocument', () => {
+  const executeWriteQuery = neo4jManager.executeWriteQuery as jest.Mock;
+
+  function chunk(id: string, text: string, index: number, contentOffset: number | null = 0): ChunkNode {
+    return {
+      id,
+      labels: ['__Chunk__'],
+      properties: {
+        id,
+        text,
+        n_tokens: 3,
+        chunk_index: index,
+        document_id: 'doc',
+        position: index + 1,
+        length: text.length,
+        content_offset: contentOffset,
+        fileName: 'energy.txt',
+        tokens: 3,
+      },
+    };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    executeWriteQuery.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes stale chunks before writing and records the content hash last', async () => {
+    const document: ProcessedDocument = {
+      filename: 'energy.txt',
+      content: 'Solar power. Wind power.',
+      chunks: [chunk('c1', 'Solar power.', 0), chunk('c2', 'Wind power.', 1)],
+      metadata: { ingestion: { status: 'changed', contentHash: 'hash-2', newChunks: 1, reusedChunks: 1 } },
+    };
+
+    await new GraphService().processDocument(document);
+
+    const queries = executeWriteQuery.mock.calls.map(([query]) => query as string);
+    const staleIndex = queries.findIndex(query => query.includes('WHERE NOT c.id IN $chunkIds'));
+    const chunkIndex = queries.findIndex(query => query.includes('MERGE (c:__Chunk__'));
+    const hashIndex = queries.findIndex(query => query.includes('SET d.content_hash = $contentHash'));
+
+    expect(executeWriteQuery.mock.calls[staleIndex][1]).toEqual({ fileName: 'energy.txt', chunkIds: ['c1', 'c2'] });
+    expect(staleIndex).toBeLessThan(chunkIndex);
+    expect(hashIndex).toBe(queries.length - 1);
+    expect(executeWriteQuery.mock.calls[hashIndex][1]).toEqual(expect.objectContaining({ contentHash: 'hash-2' }));
+  });
+
+  it('stores the content offsets recorded when the document was split', async () => {
+    const document: ProcessedDocument = {
+      filename: 'energy.txt',
+      content: 'Solar power.\n\nWind power.',
+      chunks: [chunk('c1', 'Solar power.', 0, 0), chunk('c2', 'Wind power.', 1, 14), chunk('c3', '| Wind | 2 |', 2, null)],
+      metadata: { ingestion: { status: 'new', contentHash: 'hash-1', newChunks: 3, reusedChunks: 0 } },
+    };
+
+    await new GraphService().processDocument(document);
+
+    const [, { batchData }] = executeWriteQuery.mock.calls.find(([query]) => query.includes('MERGE (c:__Chunk__'));
+    expect(batchData.map((data: any) => data.content_offset)).toEqual([0, 14, null]);
+  });
+});
+
+describe('GraphService.deleteDocument', () => {
+  const executeWriteTransaction = neo4jManager.executeWriteTransaction as jest.Mock;
+  let run: jest.Mock;
+
+  // Answers each deletion step by the query it sends
+  function answer(query: string): any[] {
+    if (query.includes('RETURN d.fileName AS fileName')) return [{ fileName: 'energy.txt' }];
+    if (query.includes('AS chunkIds')) return [{ chunkIds: ['c1', 'c2'], entityIds: ['solar', 'sun'] }];
+    if (query.includes('AS communities')) return [{ entityIds: ['solar'], communities: [3, 4] }];
+    if (query.includes('count(DISTINCT r)')) return [{ deleted: neo4j.int(2) }];
+    if (query.includes('MATCH (c:__Community__)')) return [{ deleted: neo4j.int(1) }];
+    if (query.includes('c.id IN $chunkIds')) return [{ deleted: neo4j.int(2), citations: neo4j.int(5) }];
+    if (query.includes('e.id IN $entityIds')) return [{ deleted: neo4j.int(1) }];
+    return [];
+  }
+
+  beforeEach(() => {
+    run = jest.fn(async (query: string) => answer(query));
+    executeWriteTransaction.mockReset().mockImplementation(work => work(run));
+  });
+
+  it('deletes the subgraph in one transaction and summarises what was removed', async () => {
+    const summary = await new GraphService().deleteDocument('energy.txt');
+
+    expect(executeWriteTransaction).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({
+      document: { id: expect.any(String), fileName: 'energy.txt' },
+      chunksDeleted: 2,
+      entitiesDeleted: 1,
+      entityRelationshipsDeleted: 2,
+      citationsRemoved: 5,
+      communitiesUpdated: 1,
+      communitiesDeleted: 1,
+    });
+  });
+
+  it('only deletes entities that no remaining chunk mentions', async () => {
+    await new GraphService().deleteDocument('energy.txt');
+
+    const orphanCheck = run.mock.calls.find(([query]) => query.includes('AS communities'));
+    expect(orphanCheck?.[1]).toEqual({ entityIds: ['solar', 'sun'], chunkIds: ['c1', 'c2'] });
+    const entityDelete = run.mock.calls.find(([query]) => query.includes('DETACH DELETE e'));
+    expect(entityDelete?.[1]).toEqual({ entityIds: ['solar'] });
+  });
+
+  it('returns null for an unknown document without deleting anything', async () => {
+    run.mockResolvedValue([]);
+
+    expect(await new GraphService().deleteDocument('missing.txt')).toBeNull();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails as a whole when a step fails', async () => {
+    run.mockImplementation(async (query: string) => {
+      if (query.includes('DETACH DELETE c')) throw new Error('deadlock');
+      return answer(query);
+    });
+
+    await expect(new GraphService().deleteDocument('energy.txt')).rejects.toThrow('deadlock');
+  });
+});
@@ -1,7 +1,53 @@
+import fs from 'fs/promises';
 import { ProcessedDocument, DocumentNode, ChunkNode } from '../models/types';
-import { BaseGraphService } from './base-graph-service';
+import { BaseGraphService, DocumentWriteResult } from './base-graph-service';
 import { neo4jManager } from '../database/neo4j';
-import DocumentProcessor from './document-processor';
+import { toMetadataProperties } from './chunk-metadata';
+import DocumentProcessor, { FileProcessingResult } from './document-processor';
+
+export interface FileBuildStatus {
+  fileName: string;
+  filePath: string;
+  status: 'written' | 'unchanged' | 'skipped' | 'failed';
+  chunkCount: number;
+  embeddingFailures: number;
+  processingTime: number;
+  writeTime: number;
+  error?: string;
+}
+
+export interface BuildReport {
+  inputPath: string;
+  success: boolean;
+  totalFiles: number;
+  writtenFiles: number;
+  unchangedFiles: number;
+  skippedFiles: number;
+  failedFiles: number;
+  totalChunks: number;
+  embeddingFailures: number;
+  files: FileBuildStatus[];
+  timings: {
+    processingTime: number;
+    writingTime: number;
+    totalTime: number;
+  };
+  stats: any;
+}
+
+// What DELETE /api/documents/:id removed
+export interface DocumentDeletionSummary {
+  document: {
+    id: string;
+    fileName: string;
+  };
+  chunksDeleted: number;
+  entitiesDeleted: number;          // Entities no other document's chunks mention
+  entityRelationshipsDeleted: number;
+  citationsRemoved: number;         // CITES links from chat messages to the deleted chunks
+  communitiesUpdated: number;       // Communities that lost members and had their size recomputed
+  communitiesDeleted: number;       // Communities left without members
+}
 
 /**
  * GraphService - Unified Graph Operations Service
@@ -16,27 +62,41 @@ export class GraphService extends BaseGraphService {
   }
   
   /**
-   * Build knowledge graph
+   * Build knowledge graph from all supported files in a directory
    */
-  async buildKnowledgeGraph(inputPath: string): Promise<void> {
+  async buildKnowledgeGraph(inputPath: string): Promise<BuildReport> {
     const startTime = Date.now();
     
     try {
       console.log('🏗️ Starting knowledge graph construction...');
       console.log(`📁 Input path: ${inputPath}`);
 
+      const inputStats = await fs.stat(inputPath).catch(() => null);
+      if (!inputStats || !inputStats.isDirectory()) {
+        throw new Error(`Input path is not a directory: ${inputPath}`);
+      }
+
       // Step 1: Process documents
       console.log('\n📄 Step 1: Processing documents...');
       console.log('⏳ Starting document processing...');
       
-      // TODO: Implement document processing
-      console.log('✅ Document processing completed');
+      const fileResults: FileProcessingResult[] = [];
+      const documents = await this.documentProcessor.processDirectory(
+        inputPath,
+        result => fileResults.push(result)
+      );
+      const processingTime = Date.now() - startTime;
+      console.log(`✅ Document processing completed (${documents.length}/${fileResults.length} files)`);
       
       // Step 2: Build graph structure
       console.log('\n🔗 Step 2: Building graph structure...');
       console.log('⏳ Starting graph structure construction...');
       
-      // TODO: Implement graph structure construction
+      const writeStartTime = Date.now();
+      const writeResults = documents.length > 0
+        ? await this.processAndWriteGraphDocuments(documents, { continueOnError: true })
+        : [];
+      const writingTime = Date.now() - writeStartTime;
       console.log('✅ Graph structure construction completed');
 
       // Step 3: Get statistics
@@ -45,11 +105,17 @@ export class GraphService extends BaseGraphService {
       const stats = await this.getDatabaseStats();
       this.printDatabaseStats(stats);
 
-      const endTime = Date.now();
-      const duration = (endTime - startTime) / 1000;
+      const report = this.createBuildReport(inputPath, fileResults, writeResults, {
+        processingTime,
+        writingTime,
+        totalTime: Date.now() - startTime,
+      }, stats);
       
-      console.log(`\n🎉 Knowledge graph construction completed! Total time: ${duration.toFixed(2)} seconds`);
+      console.log(`\n🎉 Knowledge graph construction completed! Total time: ${(report.timings.totalTime / 1000).toFixed(2)} seconds`);
+      console.log(`   📄 Files: ${report.writtenFiles} written, ${report.unchangedFiles} unchanged, ${report.skippedFiles} skipped, ${report.failedFiles} failed`);
+      console.log(`   🔪 Chunks: ${report.totalChunks} (${report.embeddingFailures} without embeddings)`);
       
+      return report;
     } catch (error) {
       console.error('❌ Knowledge graph construction failed:', error);
       if (error instanceof Error) {
@@ -62,7 +128,7 @@ export class GraphService extends BaseGraphService {
   /**
    * Clear and rebuild knowledge graph
    */
-  async rebuildKnowledgeGraph(inputPath: string): Promise<void> {
+  async rebuildKnowledgeGraph(inputPath: string): Promise<BuildReport> {
     try {
       console.log('🔄 Starting knowledge graph rebuild...');
       
@@ -70,7 +136,7 @@ export class GraphService extends BaseGraphService {
       await this.clearDatabase();
       
       // Rebuild knowledge graph
-      await this.buildKnowledgeGraph(inputPath);
+      return await this.buildKnowledgeGraph(inputPath);
       
     } catch (error) {
       console.error('❌ Rebuild failed:', error);
@@ -81,7 +147,10 @@ export class GraphService extends BaseGraphService {
   /**
    * Process and write graph documents - merged from GraphWriter
    */
-  async processAndWriteGraphDocuments(documents: ProcessedDocument[]): Promise<void> {
+  async processAndWriteGraphDocuments(
+    documents: ProcessedDocument[],
+    options: { continueOnError?: boolean } = {}
+  ): Promise<DocumentWriteResult[]> {
     console.log(`🚀 Starting to process ${documents.length} documents...`);
     
     try {
@@ -89,9 +158,14 @@ export class GraphService extends BaseGraphService {
       await this.createConstraintsAndIndexes();
 
       // Process documents in batches using base class method
-      await this.processDocumentsInBatches(documents, this.processDocument.bind(this));
+      const results = await this.processDocumentsInBatches(documents, this.processDocument.bind(this));
 
-      console.log('✅ All documents processed successfully');
+      const failed = results.find(result => !result.success);
+      if (failed && !options.continueOnError) {
+        throw new Error(`Failed to write document ${failed.fileName}: ${failed.error}`);
+      }
+
+      return results;
     } catch (error) {
       console.error('❌ Failed to process documents:', error);
       if (error instanceof Error) {
@@ -101,7 +175,51 @@ export class GraphService extends BaseGraphService {
     }
   }
 
-
+  /**
+   * Combine per-file processing and write results into a build report
+   */
+  private createBuildReport(
+    inputPath: string,
+    fileResults: FileProcessingResult[],
+    writeResults: DocumentWriteResult[],
+    timings: BuildReport['timings'],
+    stats: any
+  ): BuildReport {
+    const writeResultsByFile = new Map(writeResults.map(result => [result.fileName, result]));
+
+    const files: FileBuildStatus[] = fileResults.map(result => {
+      const writeResult = writeResultsByFile.get(result.fileName);
+      const writeFailed = writeResult !== undefined && !writeResult.success;
+
+      return {
+        fileName: result.fileName,
+        filePath: result.filePath,
+        status: result.status === 'processed' ? (writeFailed ? 'failed' : 'written') : result.status,
+        chunkCount: result.chunkCount,
+        embeddingFailures: result.embeddingFailures,
+        processingTime: result.processingTime,
+        writeTime: writeResult?.writeTime || 0,
+        error: writeFailed ? writeResult.error : result.error,
+      };
+    });
+
+    const failedFiles = files.filter(file => file.status === 'failed').length;
+
+    return {
+      inputPath,
+      success: failedFiles === 0,
+      totalFiles: files.length,
+      writtenFiles: files.filter(file => file.status === 'written').length,
+      unchangedFiles: files.filter(file => file.status === 'unchanged').length,
+      skippedFiles: files.filter(file => file.status === 'skipped').length,
+      failedFiles,
+      totalChunks: files.reduce((sum, file) => sum + file.chunkCount, 0),
+      embeddingFailures: files.reduce((sum, file) => sum + file.embeddingFailures, 0),
+      files,
+      timings,
+      stats,
+    };
+  }
 
   /**
    * Create text chunk nodes and establish relationships
@@ -137,6 +255,11 @@ export class GraphService extends BaseGraphService {
         previous_id: previousChunkId,
         content_offset: chunk.properties.content_offset,
         tokens: chunk.properties.tokens,
+        language: chunk.properties.language || null,
+        page: chunk.properties.page ?? null,
+        section: chunk.properties.section || null,
+        locator: chunk.properties.locator ?? null,
+        metadata: toMetadataProperties(chunk.properties.metadata),
         embedding: chunk.properties.embedding
       };
       batchData.push(chunkData);
@@ -181,22 +304,16 @@ export class GraphService extends BaseGraphService {
     const batchData: any[] = [];
     const firstRelationships: any[] = [];
     const nextRelationships: any[] = [];
-    let offset = 0;
 
     // Process each chunk
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
       const pageContent = chunk.properties.text;
-      currentChunkId = this.generateHash(pageContent);
+      currentChunkId = chunk.id;
       const position = i + 1;
       
       // Fix: Calculate previousChunkId correctly
-      const previousChunkId = i === 0 ? currentChunkId : this.generateHash(chunks[i - 1].properties.text);
-
-      if (i > 0) {
-        const lastPageContent = chunks[i - 1].properties.text;
-        offset += lastPageContent.length;
-      }
+      const previousChunkId = i === 0 ? currentChunkId : chunks[i - 1].id;
 
       const firstChunk = (i === 0);
 
@@ -208,8 +325,13 @@ export class GraphService extends BaseGraphService {
         length: chunk.properties.length,
         f_name: fileName,
         previous_id: previousChunkId,
-        content_offset: offset,
+        content_offset: chunk.properties.content_offset,
         tokens: chunk.properties.tokens,
+        language: chunk.properties.language || null,
+        page: chunk.properties.page ?? null,
+        section: chunk.properties.section || null,
+        locator: chunk.properties.locator ?? null,
+        metadata: toMetadataProperties(chunk.properties.metadata),
         embedding: chunk.properties.embedding || null
       };
       batchData.push(chunkData);
@@ -221,7 +343,7 @@ export class GraphService extends BaseGraphService {
           metadata: {
             position: position,
             length: chunk.properties.length,
-            content_offset: offset,
+            content_offset: chunk.properties.content_offset,
             tokens: chunk.properties.tokens
           }
         }
@@ -271,9 +393,27 @@ export class GraphService extends BaseGraphService {
         'general'
       );
 
-      // Step 2: Create chunk nodes and relationships
+      // Step 2: Drop chunks of the previous version and unlink the chunk chain so it can be relinked
+      const removed = await this.removeStaleChunks(document.filename, document.chunks.map(chunk => chunk.id));
+      if (removed.chunks > 0) {
+        console.log(`🗑️ Removed ${removed.chunks} stale chunks and ${removed.entities} orphaned entities from ${document.filename}`);
+      }
+      await this.unlinkChunkChain(document.filename);
+
+      // Step 3: Create chunk nodes and relationships
       await this.createRelationBetweenChunks(document.filename, document.chunks);
 
+      // Step 4: Create extracted entities and their relationships
+      await this.createEntitiesAndRelationships(
+        document.entity_data || [],
+        document.relationship_data || []
+      );
+
+      // Step 5: Record the content hash and fingerprints last, so a failed write is retried on the next ingestion
+      if (document.metadata?.ingestion) {
+        await this.markDocumentIngested(document.filename, document.metadata.ingestion, document.chunks.length);
+      }
+
       // Debug embedding storage
       await this.debugEmbeddingStorage(document.filename);
 
@@ -295,7 +435,12 @@ export class GraphService extends BaseGraphService {
       await this.createConstraintsAndIndexes();
 
       // Process documents in batches using base class method
-      await this.processDocumentsInBatches(documents, this.processDocument.bind(this));
+      const results = await this.processDocumentsInBatches(documents, this.processDocument.bind(this));
+
+      const failed = results.find(result => !result.success);
+      if (failed) {
+        throw new Error(`Failed to build graph structure for ${failed.fileName}: ${failed.error}`);
+      }
 
       console.log('✅ All document graph structures built');
     } catch (error) {
@@ -307,6 +452,91 @@ export class GraphService extends BaseGraphService {
     }
     }
 
+  /**
+   * Delete a document, its chunks, the entities only it references and their community memberships
+   * in one transaction. `id` is the document id or its file name; returns null if there is no such document.
+   */
+  async deleteDocument(id: string): Promise<DocumentDeletionSummary | null> {
+    return neo4jManager.executeWriteTransaction(async run => {
+      const documents = await run(`
+        MATCH (d:__Document__)
+        WHERE d.id = $id OR d.fileName = $id
+        RETURN d.fileName AS fileName
+        LIMIT 1
+      `, { id });
+      if (documents.length === 0) {
+        return null;
+      }
+      const fileName: string = documents[0].fileName;
+
+      // Chunks with identical text in another document stay; they only lose their PART_OF
+      const [owned] = await run(`
+        MATCH (d:__Document__ {fileName: $fileName})
+        OPTIONAL MATCH (c:__Chunk__)-[:PART_OF]->(d)
+        WHERE NOT EXISTS { MATCH (c)-[:PART_OF]->(other:__Document__) WHERE other <> d }
+        OPTIONAL MATCH (c)-[:MENTIONS]->(e:__Entity__)
+        RETURN collect(DISTINCT c.id) AS chunkIds, collect(DISTINCT e.id) AS entityIds
+      `, { fileName });
+
+      const [orphaned] = await run(`
+        MATCH (e:__Entity__)
+        WHERE e.id IN $entityIds
+          AND NOT EXISTS { MATCH (other:__Chunk__)-[:MENTIONS]->(e) WHERE NOT other.id IN $chunkIds }
+        OPTIONAL MATCH (e)-[:IN_COMMUNITY]->(community:__Community__)
+        RETURN collect(DISTINCT e.id) AS entityIds, collect(DISTINCT community.community) AS communities
+      `, { entityIds: owned.entityIds, chunkIds: owned.chunkIds });
+
+      const [relationships] = await run(`
+        MATCH (e:__Entity__)-[r]-(:__Entity__)
+        WHERE e.id IN $entityIds
+        RETURN count(DISTINCT r) AS deleted
+      `, { entityIds: orphaned.entityIds });
+
+      const [entities] = await run(`
+        MATCH (e:__Entity__)
+        WHERE e.id IN $entityIds
+        DETACH DELETE e
+        RETURN count(*) AS deleted
+      `, { entityIds: orphaned.entityIds });
+
+      const [chunks] = await run(`
+        MATCH (c:__Chunk__)
+        WHERE c.id IN $chunkIds
+        OPTIONAL MATCH (:__Message__)-[cite:CITES]->(c)
+        WITH c, count(cite) AS citations
+        DETACH DELETE c
+        RETURN count(*) AS deleted, coalesce(sum(citations), 0) AS citations
+      `, { chunkIds: owned.chunkIds });
+
+      await run(`
+        MATCH (d:__Document__ {fileName: $fileName})
+        DETACH DELETE d
+      `, { fileName });
+
+      // Communities keep their remaining members; sizes are recomputed and empty communities removed
+      const [communities] = await run(`
+        MATCH (c:__Community__)
+        WHERE c.community IN $communities
+        SET c.size = COUNT { (:__Entity__)-[:IN_COMMUNITY]->(c) }
+        WITH c
+        WHERE c.size = 0
+        DETACH DELETE c
+        RETURN count(*) AS deleted
+      `, { communities: orphaned.communities });
+      const communitiesDeleted = this.toCount(communities.deleted);
+
+      return {
+        document: { id: this.generateHash(fileName), fileName },
+        chunksDeleted: this.toCount(chunks.deleted),
+        entitiesDeleted: this.toCount(entities.deleted),
+        entityRelationshipsDeleted: this.toCount(relationships.deleted),
+        citationsRemoved: this.toCount(chunks.citations),
+        communitiesUpdated: orphaned.communities.length - communitiesDeleted,
+        communitiesDeleted,
+      };
+    });
+  }
+
   /**
    * Generate content hash
    */
@@ -0,0 +1,124 @@
+import { SearchResult } from '../models/types';
+import { GroundingVerifier } from './grounding-verifier';
+
+const mockGenerateText = jest.fn();
+
+jest.mock('./service-manager', () => ({
+  serviceManager: {
+    getLLMService: () => ({
+      generateText: mockGenerateText,
+    }),
+  },
+}));
+
+const results: SearchResult[] = [
+  {
+    content: 'Acme was founded in 2010 in Berlin. The company builds solar inverters.',
+    source: 'acme.txt',
+    score: 0.9,
+    metadata: { chunkId: 'chunk-1', fileName: 'acme.txt' },
+  },
+  {
+    content: 'Wind farms produce most of the electricity in the north.',
+    source: 'wind.txt',
+    score: 0.7,
+    metadata: { chunkId: 'chunk-2', fileName: 'wind.txt' },
+  },
+];
+
+describe('GroundingVerifier', () => {
+  const verifier = new GroundingVerifier({ method: 'lexical', supportThreshold: 0.6 });
+
+  beforeEach(() => {
+    mockGenerateText.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('extracts statements without headings, list markers, citations or short fragments', () => {
+    const claims = verifier.extractClaims(
+      '## Summary\nKey facts:\n- **Acme** builds solar inverters [1].\n1. Acme was founded in 2010 [1].\nIn short, yes.'
+    );
+
+    expect(claims).toEqual(['Acme builds solar inverters.', 'Acme was founded in 2010.']);
+  });
+
+  it('supports claims whose words appear in a chunk', async () => {
+    const report = await verifier.verify('Acme builds solar inverters in Berlin.', results);
+
+    expect(report.method).toBe('lexical');
+    expect(report.claims[0]).toEqual(expect.objectContaining({ supported: true, chunkIds: ['chunk-1'] }));
+    expect(report.groundedConfidence).toBe(1);
+  });
+
+  it('penalises figures that differ from the chunk', async () => {
+    const report = await verifier.verify('Acme was founded in 2015 in Berlin.', results);
+
+    expect(report.claims[0].supported).toBe(false);
+    expect(report.unsupportedCount).toBe(1);
+  });
+
+  it('maps the judge verdicts to chunk ids and checks skipped claims lexically', async () => {
+    mockGenerateText.mockResolvedValue('```json\n{"claims": [{"index": 1, "supported": false, "fragments": [], "reason": "Not stated"}]}\n```');
+
+    const report = await verifier.verify(
+      'Acme sells inverters to Mars colonies. Wind farms produce most northern electricity.',
+      results,
+      { method: 'llm' }
+    );
+
+    expect(report.method).toBe('llm');
+    expect(report.claims).toEqual([
+      { claim: 'Acme sells inverters to Mars colonies.', supported: false, score: 0, chunkIds: [], reason: 'Not stated' },
+      expect.objectContaining({ claim: 'Wind farms produce most northern electricity.', supported: true, chunkIds: ['chunk-2'] }),
+    ]);
+    expect(mockGenerateText.mock.calls[0][0]).toContain('[2] Wind farms produce most of the electricity in the north.');
+  });
+
+  it('inserts fragments and claims verbatim', async () => {
+    mockGenerateText.mockResolvedValue('{"claims": []}');
+
+    await verifier.verify("Acme raised prices by $& and $' overnight.", [
+      { content: "Prices rose by $& and $' overnight.", source: 'prices.txt', score: 1, metadata: { chunkId: 'chunk-3' } },
+    ], { method: 'llm' });
+
+    const [prompt] = mockGenerateText.mock.calls[0];
+    expect(prompt).toContain("[1] Prices rose by $& and $' overnight.");
+    expect(prompt).toContain("1. Acme raised prices by $& and $' overnight.");
+  });
+
+  it('reads the fragments the judge cites', async () => {
+    mockGenerateText.mockResolvedValue('{"claims": [{"index": 1, "supported": true, "fragments": [1, "2", 9]}]}');
+
+    const report = await verifier.verify('Acme builds solar inverters in Berlin.', results, { method: 'llm' });
+
+    expect(report.claims[0]).toEqual(expect.objectContaining({ supported: true, score: 1, chunkIds: ['chunk-1', 'chunk-2'] }));
+  });
+
+  it('falls back to lexical verification when the judge output is unusable', async () => {
+    mockGenerateText.mockResolvedValue('All claims look fine to me.');
+
+    const report = await verifier.verify('Acme builds solar inverters in Berlin.', results, { method: 'llm' });
+
+    expect(report.method).toBe('lexical');
+    expect(report.claims[0].supported).toBe(true);
+  });
+
+  it('falls back to lexical verification when the judge fails', async () => {
+    mockGenerateText.mockRejectedValue(new Error('quota exceeded'));
+
+    const report = await verifier.verify('Acme builds solar inverters in Berlin.', results, { method: 'llm' });
+
+    expect(report.method).toBe('lexical');
+  });
+
+  it('reports no confidence for answers without claims', async () => {
+    const report = await verifier.verify("I don't know.", results, { method: 'llm' });
+
+    expect(report).toEqual(expect.objectContaining({ claims: [], groundedConfidence: 0 }));
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { GROUNDING_VERIFICATION_PROMPT } from '../config/gemini';
+import { getGroundingConfig, GroundingConfig } from '../config/unified-config';
+import { ClaimVerification, GroundingReport, SearchResult } from '../models/types';
+import { serviceManager } from './service-manager';
+import { createCitationSources, CitationSource, splitSentences } from './citations';
+import { parseJson, STOP_WORDS } from './text-utils';
+
+export interface GroundingOptions {
+  method?: 'llm' | 'lexical';
+  supportThreshold?: number;
+}
+
+// Claims shorter than this are headings or connectives rather than statements
+const MIN_CLAIM_WORDS = 4;
+// Fragment text sent to the LLM judge is cut to keep the prompt bounded
+const MAX_FRAGMENT_LENGTH = 1000;
+
+/**
+ * GroundingVerifier - Checks every claim of an answer against the retrieved chunks
+ */
+export class GroundingVerifier {
+  private config: GroundingConfig;
+
+  constructor(config: Partial<GroundingConfig> = {}) {
+    this.config = { ...getGroundingConfig(), ...config };
+  }
+
+  /**
+   * Split the answer into claims and flag the ones the search results don't support.
+   * The LLM judge falls back to lexical overlap when its call fails or returns unusable output.
+   */
+  async verify(answer: string, searchResults: SearchResult[], options: GroundingOptions = {}): Promise<GroundingReport> {
+    const method = options.method || this.config.method;
+    const threshold = options.supportThreshold ?? this.config.supportThreshold;
+    const claims = this.extractClaims(answer);
+    const sources = createCitationSources(searchResults);
+
+    if (claims.length === 0) {
+      return this.buildReport(method, []);
+    }
+
+    if (method === 'llm') {
+      const judged = await this.verifyWithLLM(claims, sources, threshold);
+      if (judged) {
+        return this.buildReport('llm', judged);
+      }
+      console.warn('⚠️ Grounding judge unavailable, falling back to lexical verification');
+    }
+
+    return this.buildReport('lexical', claims.map(claim => this.verifyLexically(claim, sources, threshold)));
+  }
+
+  /**
+   * Statements of the answer: sentences without markdown, citation markers and headings
+   */
+  extractClaims(answer: string): string[] {
+    const claims: string[] = [];
+
+    for (const sentence of splitSentences(answer)) {
+      if (/^#{1,6}\s/.test(sentence)) continue;
+
+      const claim = sentence
+        .replace(/\s*\[[\d,\s]+\]/g, '')
+        .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+        .replace(/[*_`]+/g, '')
+        .trim();
+
+      if (claim.endsWith(':')) continue;
+      if (/i don't know|i do not know/i.test(claim)) continue;
+      if (claim.split(/\s+/).length < MIN_CLAIM_WORDS) continue;
+
+      if (!claims.includes(claim)) {
+        claims.push(claim);
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * Ask the LLM to judge all claims at once; returns null when the call fails or its output can't be used
+   */
+  private async verifyWithLLM(
+    claims: string[],
+    sources: CitationSource[],
+    threshold: number
+  ): Promise<ClaimVerification[] | null> {
+    try {
+      const llmService = serviceManager.getLLMService();
+      const context = sources
+        .map(source => `[${source.marker}] ${source.text.substring(0, MAX_FRAGMENT_LENGTH)}`)
+        .join('\n\n');
+      const prompt = GROUNDING_VERIFICATION_PROMPT
+        .replace('{context}', () => context || 'No fragments')
+        .replace('{claims}', () => claims.map((claim, index) => `${index + 1}. ${claim}`).join('\n'));
+
+      const parsed = parseJson(await llmService.generateText(prompt, { temperature: 0 }));
+      if (!parsed || !Array.isArray(parsed.claims)) {
+        return null;
+      }
+
+      const verdicts = new Map<number, any>();
+      for (const verdict of parsed.claims) {
+        const index = parseInt(verdict?.index, 10);
+        if (index >= 1 && index <= claims.length) {
+          verdicts.set(index, verdict);
+        }
+      }
+
+      return claims.map((claim, index) => {
+        const verdict = verdicts.get(index + 1);
+        // Claims the judge skipped are checked lexically
+        if (!verdict || typeof verdict.supported !== 'boolean') {
+          return this.verifyLexically(claim, sources, threshold);
+        }
+
+        const chunkIds = (Array.isArray(verdict.fragments) ? verdict.fragments : [])
+          .map((marker: any) => sources[parseInt(marker, 10) - 1]?.chunkId)
+          .filter((chunkId: string | undefined): chunkId is string => !!chunkId);
+
+        return {
+          claim,
+          supported: verdict.supported,
+          score: verdict.supported ? 1 : 0,
+          chunkIds: Array.from(new Set(chunkIds)),
+          reason: typeof verdict.reason === 'string' ? verdict.reason : undefined,
+        };
+      });
+    } catch (error) {
+      console.warn('⚠️ Grounding judge failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Support = share of the claim's content words found in the best chunk; a number
+   * missing from the chunk halves the score since changed figures are a common error
+   */
+  private verifyLexically(claim: string, sources: CitationSource[], threshold: number): ClaimVerification {
+    const words = this.tokenize(claim);
+    const numbers = claim.match(/\d+(?:[.,]\d+)*/g) || [];
+
+    const scored = sources.map(source => {
+      if (words.length === 0) {
+        return { chunkId: source.chunkId, score: 0 };
+      }
+
+      const chunkWords = new Set(this.tokenize(source.text));
+      const recall = words.filter(word => chunkWords.has(word)).length / words.length;
+      const missingNumber = numbers.some(number => !source.text.includes(number));
+      return { chunkId: source.chunkId, score: missingNumber ? recall / 2 : recall };
+    });
+
+    const best = Math.max(0, ...scored.map(entry => entry.score));
+    return {
+      claim,
+      supported: best >= threshold,
+      score: Math.round(best * 100) / 100,
+      chunkIds: scored.filter(entry => entry.score >= threshold).map(entry => entry.chunkId),
+    };
+  }
+
+  private buildReport(method: 'llm' | 'lexical', claims: ClaimVerification[]): GroundingReport {
+    const supportedCount = claims.filter(claim => claim.supported).length;
+    return {
+      method,
+      claims,
+      supportedCount,
+      unsupportedCount: claims.length - supportedCount,
+      groundedConfidence: claims.length > 0 ? supportedCount / claims.length : 0,
+      regenerated: false,
+    };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      // Crude plural folding so "services" matches "service"
+      .map(word => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word));
+  }
+}
+
+export default GroundingVerifier;
@@ -0,0 +1,32 @@
+import { detectLanguage, getFulltextAnalyzer, getLanguageName, UNDETERMINED_LANGUAGE } from './language-detector';
+
+describe('detectLanguage', () => {
+  it('recognises languages by their function words', () => {
+    expect(detectLanguage('What is the capital of France and how big is it?').language).toBe('en');
+    expect(detectLanguage('Die Hauptstadt ist nicht weit von der Küste entfernt.').language).toBe('de');
+    expect(detectLanguage('Comment est la vie dans les villes du sud?').language).toBe('fr');
+  });
+
+  it('uses umlauts as evidence for German', () => {
+    expect(detectLanguage('Größe Übersicht')).toEqual({ language: 'de', confidence: 1 });
+  });
+
+  it('recognises CJK languages by their script', () => {
+    expect(detectLanguage('太陽光発電はどのように機能しますか')).toEqual({ language: 'ja', confidence: 1 });
+    expect(detectLanguage('태양광 발전은 어떻게 작동합니까')).toEqual({ language: 'ko', confidence: 1 });
+    expect(detectLanguage('太阳能发电如何运作')).toEqual({ language: 'zh', confidence: 1 });
+  });
+
+  it('is undetermined for texts without evidence or with mixed evidence', () => {
+    expect(detectLanguage('Photovoltaik 2026')).toEqual({ language: UNDETERMINED_LANGUAGE, confidence: 0 });
+    expect(detectLanguage('the der').language).toBe(UNDETERMINED_LANGUAGE);
+  });
+});
+
+describe('language lookups', () => {
+  it('maps language codes to names and full-text analyzers', () => {
+    expect(getLanguageName('de')).toBe('German');
+    expect(getFulltextAnalyzer('ja')).toBe('cjk');
+    expect(getFulltextAnalyzer('xx')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+export interface LanguageDetection {
+  language: string;   // ISO 639-1 code, or 'und' when undetermined
+  confidence: number; // Share of the language evidence that points to the detected language
+}
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Below this confidence a text is treated as undetermined (mixed or too short)
+const MIN_CONFIDENCE = 0.6;
+// A script counts as dominant when this share of the letters belongs to it
+const MIN_SCRIPT_SHARE = 0.3;
+
+// Frequent function words that are distinctive for each language
+const STOP_WORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'of', 'to', 'is', 'are', 'in', 'that', 'for', 'with', 'on', 'as', 'this', 'be', 'by',
+    'what', 'which', 'how', 'does', 'do', 'can', 'it', 'from', 'or', 'an', 'have', 'has', 'their', 'you', 'we']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'sind', 'nicht', 'mit', 'von', 'für', 'auf', 'den', 'dem', 'des',
+    'ein', 'eine', 'einer', 'wie', 'auch', 'sich', 'zu', 'im', 'wir', 'sie', 'ihre', 'oder', 'welche', 'was', 'bei', 'durch']),
+  fr: new Set(['le', 'la', 'les', 'et', 'est', 'sont', 'des', 'du', 'une', 'un', 'pour', 'dans', 'que', 'qui', 'sur',
+    'avec', 'pas', 'nous', 'vous', 'ce', 'au', 'aux', 'par', 'comment', 'quel', 'quelle']),
+  es: new Set(['el', 'la', 'los', 'las', 'y', 'es', 'son', 'del', 'una', 'un', 'para', 'en', 'que', 'por', 'con',
+    'como', 'qué', 'cómo', 'cuál', 'se', 'al', 'nuestro', 'nuestra', 'sus']),
+  it: new Set(['il', 'lo', 'la', 'gli', 'le', 'e', 'è', 'sono', 'della', 'dei', 'una', 'un', 'per', 'che', 'con',
+    'come', 'cosa', 'quale', 'nel', 'nella', 'non', 'del']),
+  nl: new Set(['de', 'het', 'een', 'en', 'is', 'zijn', 'van', 'voor', 'met', 'op', 'dat', 'niet', 'wat', 'hoe',
+    'welke', 'ook', 'wij', 'onze', 'bij', 'naar']),
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  nl: 'Dutch',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+// Neo4j full-text analyzer for each language
+const FULLTEXT_ANALYZERS: Record<string, string> = {
+  en: 'english',
+  de: 'german',
+  fr: 'french',
+  es: 'spanish',
+  it: 'italian',
+  nl: 'dutch',
+  zh: 'cjk',
+  ja: 'cjk',
+  ko: 'cjk',
+};
+
+/**
+ * Detect the language of a text from its script and function words; no model or network call
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const scriptLanguage = detectByScript(text);
+  if (scriptLanguage) {
+    return { language: scriptLanguage, confidence: 1 };
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length > 0);
+  const hits: Record<string, number> = {};
+  for (const word of words) {
+    for (const [language, stopWords] of Object.entries(STOP_WORDS)) {
+      if (stopWords.has(word)) {
+        hits[language] = (hits[language] || 0) + 1;
+      }
+    }
+    // Umlauts and ß are strong evidence for German in short texts without function words
+    if (/[äöüß]/.test(word)) {
+      hits.de = (hits.de || 0) + 1;
+    }
+  }
+
+  const ranked = Object.entries(hits).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, count]) => sum + count, 0);
+  if (ranked.length === 0 || total === 0) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+
+  const [language, count] = ranked[0];
+  const confidence = count / total;
+  return confidence >= MIN_CONFIDENCE
+    ? { language, confidence }
+    : { language: UNDETERMINED_LANGUAGE, confidence };
+}
+
+/**
+ * English name of a language code, used in prompts
+ */
+export function getLanguageName(language: string): string | undefined {
+  return LANGUAGE_NAMES[language];
+}
+
+/**
+ * Neo4j full-text analyzer that fits a language code
+ */
+export function getFulltextAnalyzer(language: string): string | undefined {
+  return FULLTEXT_ANALYZERS[language];
+}
+
+function detectByScript(text: string): string | null {
+  const letters = text.match(/\p{L}/gu)?.length || 0;
+  if (letters === 0) return null;
+
+  const share = (pattern: RegExp) => (text.match(pattern)?.length || 0) / letters;
+
+  // Japanese mixes kana with Han characters, so kana is checked first
+  if (share(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) >= MIN_SCRIPT_SHARE / 2) return 'ja';
+  if (share(/\p{Script=Hangul}/gu) >= MIN_SCRIPT_SHARE) return 'ko';
+  if (share(/\p{Script=Han}/gu) >= MIN_SCRIPT_SHARE) return 'zh';
+  return null;
+}
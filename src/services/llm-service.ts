@@ -0,0 +1,338 @@
+import { ANSWER_GENERATION_PROMPT, STREAM_ANSWER_PROMPT } from '../config/gemini';
+import { Citation, SearchResult } from '../models/types';
+import { LLMProvider, LLMGenerateOptions, LLMModelInfo } from './llm/llm-provider';
+import { createCitationSources, extractCitations, formatCitationLocation, getCitedChunkIds } from './citations';
+import { detectLanguage, getLanguageName } from './language-detector';
+
+export interface AnswerGenerationRequest {
+  question: string;
+  searchResults: SearchResult[];
+  responseType?: string;
+  history?: string; // Condensed conversation so far, used to resolve follow-up questions
+  unsupportedClaims?: string[]; // Claims of a previous draft that the fragments don't support
+  language?: string; // ISO 639-1 code of the answer language (default: detected from the question)
+}
+
+export interface AnswerGenerationResponse {
+  answer: string;
+  references: string[];   // Cited chunk ids
+  citations: Citation[];
+  metadata: {
+    model: string;
+    tokensUsed: number;
+    processingTime: number;
+  };
+}
+
+/**
+ * LLMService - Answer generation on top of the configured LLM provider
+ */
+export class LLMService {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+
+    // Reduce duplicate log output
+    const modelInfo = provider.getModelInfo();
+    console.log('🔑 LLMService initialized');
+    console.log(`   🧩 Provider: ${modelInfo.provider}`);
+    console.log(`   🤖 Model: ${modelInfo.name}`);
+  }
+
+  /**
+   * Get the underlying provider
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Generate AI answer
+   */
+  async generateAnswer(request: AnswerGenerationRequest): Promise<AnswerGenerationResponse> {
+    const startTime = Date.now();
+    
+    try {
+      console.log(`🤖 ${this.provider.name} API call started...`);
+      console.log('📋 Request parameters:', {
+        question: request.question,
+        searchResultsCount: request.searchResults.length,
+        responseType: request.responseType
+      });
+      
+      // Build context
+      const context = this.buildContext(request.searchResults);
+      
+      // Build prompt
+      const prompt = ANSWER_GENERATION_PROMPT + `
+      ${this.buildHistorySection(request.history)}${this.buildRevisionSection(request.unsupportedClaims)}${this.buildLanguageSection(request)}
+---Search Results--- 
+${context}
+
+Question:
+${request.question}
+
+Please answer the question based on the search results above:`;
+
+      console.log('📝 Complete prompt sent to the LLM:');
+      console.log('─'.repeat(80));
+      console.log(prompt);
+      console.log('─'.repeat(80));
+      
+      console.log('📊 Prompt statistics:');
+      console.log(`  - Total length: ${prompt.length} characters`);
+      console.log(`  - Search results count: ${request.searchResults.length}`);
+      console.log(`  - Question length: ${request.question.length} characters`);
+
+      // Generate answer
+      console.log(`🚀 Calling ${this.provider.name} API...`);
+      const answer = await this.provider.generate(prompt);
+      
+      console.log(`✅ ${this.provider.name} API response successful!`);
+      console.log('📊 Response statistics:');
+      console.log(`  - Response length: ${answer.length} characters`);
+      console.log(`  - Response content preview: ${answer.substring(0, 200)}...`);
+      
+      // Clean answer content (remove reference part)
+      const cleanAnswer = this.cleanAnswer(answer);
+      console.log(`🧹 Cleaned answer length: ${cleanAnswer.length} characters`);
+      
+      // Map inline [n] markers to the cited chunks
+      const citations = extractCitations(cleanAnswer, request.searchResults);
+      const references = getCitedChunkIds(citations);
+      console.log(`🔗 Extracted ${citations.length} citations`);
+      
+      const processingTime = Date.now() - startTime;
+      console.log(`⏱️ Total processing time: ${processingTime}ms`);
+      
+      return {
+        answer: cleanAnswer,
+        references,
+        citations,
+        metadata: {
+          model: this.provider.getModelInfo().name,
+          tokensUsed: 0, // Providers don't report token counts yet
+          processingTime,
+        }
+      };
+      
+    } catch (error) {
+      console.error(`❌ ${this.provider.name} answer generation failed:`, error);
+      console.error('🔍 Error details:', {
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        errorStack: error instanceof Error ? error.stack : 'No stack trace',
+        request: {
+          question: request.question,
+          searchResultsCount: request.searchResults.length
+        }
+      });
+      throw new Error(`Answer generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Generate raw text for a prompt (used by extraction and summarization tasks)
+   */
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    try {
+      return await this.provider.generate(prompt, options);
+    } catch (error) {
+      console.error(`❌ ${this.provider.name} text generation failed:`, error);
+      throw new Error(`Text generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stream the model's answer as raw text deltas; errors are thrown to the caller
+   */
+  async *streamAnswer(request: AnswerGenerationRequest, options?: LLMGenerateOptions): AsyncGenerator<string> {
+    console.log(`🤖 ${this.provider.name} streaming API call started...`);
+    console.log('📋 Streaming request parameters:', {
+      question: request.question,
+      searchResultsCount: request.searchResults.length,
+      responseType: request.responseType
+    });
+    
+    // Build context
+    const context = this.buildContext(request.searchResults);
+    
+    // Build streaming prompt
+    const prompt = STREAM_ANSWER_PROMPT
+      .replace('{history}', () => this.buildHistorySection(request.history) + this.buildLanguageSection(request))
+      .replace('{question}', () => request.question)
+      .replace('{context}', () => context);
+
+    console.log('📝 Streaming prompt sent to the LLM:');
+    console.log('─'.repeat(80));
+    console.log(prompt);
+    console.log('─'.repeat(80));
+    
+    console.log('📊 Streaming prompt statistics:');
+    console.log(`  - Total length: ${prompt.length} characters`);
+    console.log(`  - Search results count: ${request.searchResults.length}`);
+    console.log(`  - Question length: ${request.question.length} characters`);
+
+    // Stream generation
+    console.log(`🚀 Starting streaming ${this.provider.name} API call...`);
+    
+    let totalLength = 0;
+    let chunkCount = 0;
+    
+    for await (const chunkText of this.provider.stream(prompt, options)) {
+      totalLength += chunkText.length;
+      chunkCount++;
+      
+      if (chunkCount % 10 === 0) {
+        console.log(`📦 Received ${chunkCount} chunks, current total length: ${totalLength} characters`);
+      }
+      
+      yield chunkText;
+    }
+    
+    console.log(`✅ Streaming generation completed! Total received ${chunkCount} chunks`);
+    console.log(`📊 Final answer length: ${totalLength} characters`);
+  }
+
+  /**
+   * Stream AI answer generation, appending reference data and reporting errors inline
+   */
+  async *generateStreamAnswer(request: AnswerGenerationRequest): AsyncGenerator<string> {
+    try {
+      let fullAnswer = '';
+      
+      for await (const chunkText of this.streamAnswer(request)) {
+        fullAnswer += chunkText;
+        yield chunkText;
+      }
+      
+      console.log(`📝 Answer preview: ${fullAnswer.substring(0, 200)}...`);
+      
+      // List the cited sources after streaming output completes
+      const citations = extractCitations(this.cleanAnswer(fullAnswer), request.searchResults);
+      console.log(`🔗 Extracted ${citations.length} citations`);
+      
+      if (citations.length > 0) {
+        yield '\n\n### Sources\n';
+        yield citations
+          .map(citation => `[${citation.marker}] ${formatCitationLocation(citation)} (chunk ${citation.chunkId})`)
+          .join('\n');
+      }
+      
+    } catch (error) {
+      console.error(`❌ ${this.provider.name} streaming answer generation failed:`, error);
+      console.error('🔍 Streaming error details:', {
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        errorStack: error instanceof Error ? error.stack : 'No stack trace',
+        request: {
+          question: request.question,
+          searchResultsCount: request.searchResults.length
+        }
+      });
+      yield `\n\n**Error occurred while generating answer**: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Build context from search results
+   */
+  private buildContext(searchResults: SearchResult[]): string {
+    if (searchResults.length === 0) {
+      return 'No relevant information found';
+    }
+
+    // Fragments are labeled with their citation marker so the model can cite them inline
+    return createCitationSources(searchResults).map(source => {
+      const content = source.text.length > 300 
+        ? source.text.substring(0, 300) + '...' 
+        : source.text;
+      const score = searchResults[source.marker - 1].score;
+      
+      const location = [
+        source.page !== undefined ? `Page: ${source.page}` : '',
+        source.section ? `Section: ${source.section}` : '',
+        source.locator ? `Record: ${source.locator}` : '',
+      ].filter(Boolean).map(part => `, ${part}`).join('');
+      
+      return `**[${source.marker}]** (Chunk ID: ${source.chunkId}, File: ${source.fileName || 'unknown'}${location}, Relevance: ${score})
+Content: ${content}
+
+---`;
+    }).join('\n');
+  }
+
+  /**
+   * Conversation history prompt section; empty for the first turn of a session
+   */
+  private buildHistorySection(history?: string): string {
+    if (!history) {
+      return '';
+    }
+
+    return `
+---Conversation History---
+Use the history only to understand what the question refers to, not as a source of facts.
+${history}
+
+`;
+  }
+
+  /**
+   * Revision prompt section listing claims to leave out of a regenerated answer
+   */
+  private buildRevisionSection(unsupportedClaims?: string[]): string {
+    if (!unsupportedClaims || unsupportedClaims.length === 0) {
+      return '';
+    }
+
+    return `
+---Revision---
+A previous draft made these claims, which the search results do not support. Leave them out unless the search results state them:
+${unsupportedClaims.map(claim => `- ${claim}`).join('\n')}
+
+`;
+  }
+
+  /**
+   * Answer language prompt section, so fragments in other languages don't switch the answer's language
+   */
+  private buildLanguageSection(request: AnswerGenerationRequest): string {
+    const language = getLanguageName(request.language || detectLanguage(request.question).language);
+    if (!language) {
+      return '';
+    }
+
+    return `
+---Answer Language---
+The question is in ${language}. Write the whole answer in ${language}, translating information from fragments in other languages, and keep the [n] markers.
+
+`;
+  }
+
+  /**
+   * Clean answer content, remove reference part
+   */
+  cleanAnswer(answer: string): string {
+    // Remove reference data part
+    const cleanAnswer = answer.replace(/\n\n### Reference Data[\s\S]*$/, '');
+    return cleanAnswer.trim();
+  }
+
+  /**
+   * Check that the provider is configured and reachable
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Get model info
+   */
+  getModelInfo(): LLMModelInfo {
+    return this.provider.getModelInfo();
+  }
+}
+
+export default LLMService; 
\ No newline at end of file
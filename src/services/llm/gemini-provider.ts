@@ -0,0 +1,69 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, LLMGenerateOptions, LLMModelInfo } from './llm-provider';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini';
+  private config: GeminiProviderConfig;
+  private client: GoogleGenerativeAI;
+
+  constructor(config: GeminiProviderConfig) {
+    this.config = config;
+    this.client = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const result = await this.getModel(options).generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const result = await this.getModel(options).generateContentStream(prompt);
+
+    for await (const chunk of result.stream) {
+      // The SDK has no abort support, so stop reading once the caller gives up
+      if (options.signal?.aborted) return;
+      yield chunk.text();
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.config.apiKey) {
+      return false;
+    }
+
+    try {
+      await this.generate('Hello', { maxOutputTokens: 1 });
+      return true;
+    } catch (error) {
+      console.error('❌ Gemini API key validation failed:', error);
+      return false;
+    }
+  }
+
+  getModelInfo(): LLMModelInfo {
+    return {
+      provider: this.name,
+      name: this.config.model,
+      temperature: this.config.temperature,
+      maxOutputTokens: this.config.maxOutputTokens,
+    };
+  }
+
+  private getModel(options: LLMGenerateOptions) {
+    return this.client.getGenerativeModel({
+      model: this.config.model,
+      generationConfig: {
+        temperature: options.temperature ?? this.config.temperature,
+        maxOutputTokens: options.maxOutputTokens ?? this.config.maxOutputTokens,
+      }
+    });
+  }
+}
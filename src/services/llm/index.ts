@@ -0,0 +1,19 @@
+// LLM provider module exports
+
+export {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMModelInfo
+} from './llm-provider';
+
+export { GeminiProvider, GeminiProviderConfig } from './gemini-provider';
+export { OpenAIProvider, OpenAIProviderConfig } from './openai-provider';
+export { MockProvider, MockProviderConfig, MockScriptEntry } from './mock-provider';
+
+export {
+  registerLLMProvider,
+  getLLMProviderNames,
+  createLLMProvider,
+  LLMProviderFactory,
+  LLMProviderOptions
+} from './llm-provider-registry';
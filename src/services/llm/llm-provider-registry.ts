@@ -0,0 +1,67 @@
+import fs from 'fs';
+import { LLMProvider } from './llm-provider';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAIProvider } from './openai-provider';
+import { MockProvider, MockScriptEntry } from './mock-provider';
+
+export interface LLMProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  temperature: number;
+  maxOutputTokens: number;
+  timeout?: number;
+  mockScriptPath?: string;
+}
+
+export type LLMProviderFactory = (options: LLMProviderOptions) => LLMProvider;
+
+const providers = new Map<string, LLMProviderFactory>();
+
+/**
+ * Register an LLM provider under a name usable in LLM_PROVIDER
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+export function getLLMProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create the LLM provider registered under a name
+ */
+export function createLLMProvider(provider: string, options: LLMProviderOptions): LLMProvider {
+  const factory = providers.get(provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${provider}", available: ${getLLMProviderNames().join(', ')}`);
+  }
+  return factory(options);
+}
+
+registerLLMProvider('gemini', options => new GeminiProvider({
+  apiKey: options.apiKey,
+  model: options.model,
+  temperature: options.temperature,
+  maxOutputTokens: options.maxOutputTokens,
+}));
+
+registerLLMProvider('openai', options => new OpenAIProvider({
+  apiKey: options.apiKey,
+  model: options.model,
+  baseURL: options.baseURL,
+  temperature: options.temperature,
+  maxOutputTokens: options.maxOutputTokens,
+  timeout: options.timeout,
+}));
+
+registerLLMProvider('mock', options => {
+  let script: MockScriptEntry[] = [];
+  if (options.mockScriptPath) {
+    // The script file is either an array of entries or { "script": [...] }
+    const parsed = JSON.parse(fs.readFileSync(options.mockScriptPath, 'utf-8'));
+    script = Array.isArray(parsed) ? parsed : parsed.script || [];
+  }
+  return new MockProvider({ script });
+});
@@ -0,0 +1,36 @@
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal; // Aborts the request or stops an in-flight stream
+}
+
+export interface LLMModelInfo {
+  provider: string;
+  name: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * Common interface for chat/LLM backends
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Generate the full completion for a prompt
+   */
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+
+  /**
+   * Stream the completion for a prompt as text deltas
+   */
+  stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string>;
+
+  /**
+   * Check that the backend is configured and reachable
+   */
+  isAvailable(): Promise<boolean>;
+
+  getModelInfo(): LLMModelInfo;
+}
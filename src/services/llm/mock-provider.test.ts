@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockProvider } from './mock-provider';
+import { createLLMProvider, getLLMProviderNames } from './llm-provider-registry';
+
+const providerOptions = { apiKey: '', model: 'test', temperature: 0, maxOutputTokens: 100 };
+
+describe('MockProvider', () => {
+  it('answers matching rules first, then the sequence, then the default', async () => {
+    const provider = new MockProvider({
+      script: [
+        { match: 'capital', response: 'Berlin' },
+        { response: 'first' },
+        { response: 'second' },
+      ],
+      defaultResponse: 'fallback',
+    });
+
+    expect(await provider.generate('What is the CAPITAL?')).toBe('Berlin');
+    expect(await provider.generate('one')).toBe('first');
+    expect(await provider.generate('two')).toBe('second');
+    expect(await provider.generate('three')).toBe('fallback');
+    expect(provider.calls).toEqual(['What is the CAPITAL?', 'one', 'two', 'three']);
+  });
+
+  it('streams deltas that join back to the full response', async () => {
+    const provider = new MockProvider({ defaultResponse: 'Solar  power\nis clean.' });
+    const deltas: string[] = [];
+
+    for await (const delta of provider.stream('prompt')) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe('Solar  power\nis clean.');
+  });
+
+  it('rejects aborted requests', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new MockProvider().generate('prompt', { signal: controller.signal })).rejects.toThrow('Request aborted');
+  });
+});
+
+describe('LLM provider registry', () => {
+  it('registers the built-in providers', () => {
+    expect(getLLMProviderNames()).toEqual(expect.arrayContaining(['gemini', 'openai', 'mock']));
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createLLMProvider('nope', providerOptions)).toThrow(/Unknown LLM provider "nope"/);
+  });
+
+  it('loads mock scripts from a file', async () => {
+    const scriptPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'mock-')), 'script.json');
+    fs.writeFileSync(scriptPath, JSON.stringify({ script: [{ match: 'hello', response: 'Hi there' }] }));
+
+    const provider = createLLMProvider('MOCK', { ...providerOptions, mockScriptPath: scriptPath });
+
+    expect(await provider.generate('hello world')).toBe('Hi there');
+    fs.rmSync(path.dirname(scriptPath), { recursive: true });
+  });
+});
@@ -0,0 +1,76 @@
+import { LLMProvider, LLMGenerateOptions, LLMModelInfo } from './llm-provider';
+
+export interface MockScriptEntry {
+  match?: string;   // Regular expression tested against the prompt; entries without one are used in order
+  response: string;
+}
+
+export interface MockProviderConfig {
+  script?: MockScriptEntry[];
+  defaultResponse?: string;
+}
+
+/**
+ * Scripted offline provider for tests: answers from a script and records every prompt it receives
+ */
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  public readonly calls: string[] = [];
+  private rules: Array<{ pattern: RegExp; response: string }>;
+  private sequence: string[];
+  private sequenceIndex = 0;
+  private defaultResponse: string;
+
+  constructor(config: MockProviderConfig = {}) {
+    const script = config.script || [];
+    this.rules = script
+      .filter(entry => entry.match)
+      .map(entry => ({ pattern: new RegExp(entry.match as string, 'i'), response: entry.response }));
+    this.sequence = script.filter(entry => !entry.match).map(entry => entry.response);
+    this.defaultResponse = config.defaultResponse ?? 'This is a mock answer.';
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    if (options.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+    this.calls.push(prompt);
+    return this.respond(prompt);
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const response = await this.generate(prompt, options);
+
+    // Stream word by word, keeping the whitespace so the deltas join back to the full response
+    for (const token of response.match(/\S+\s*|\s+/g) || []) {
+      if (options.signal?.aborted) return;
+      yield token;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getModelInfo(): LLMModelInfo {
+    return {
+      provider: this.name,
+      name: 'mock',
+      temperature: 0,
+      maxOutputTokens: 0,
+    };
+  }
+
+  private respond(prompt: string): string {
+    const rule = this.rules.find(candidate => candidate.pattern.test(prompt));
+    if (rule) {
+      return rule.response;
+    }
+
+    if (this.sequenceIndex < this.sequence.length) {
+      return this.sequence[this.sequenceIndex++];
+    }
+
+    return this.defaultResponse;
+  }
+}
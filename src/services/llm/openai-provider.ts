@@ -0,0 +1,74 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMGenerateOptions, LLMModelInfo } from './llm-provider';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  model: string;
+  baseURL?: string; // Any OpenAI-compatible server exposing /v1/chat/completions
+  temperature: number;
+  maxOutputTokens: number;
+  timeout?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  public readonly name = 'openai';
+  private config: OpenAIProviderConfig;
+  private client: OpenAI;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.config = config;
+    // Local OpenAI-compatible servers usually accept any key
+    this.client = new OpenAI({
+      apiKey: config.apiKey || 'not-configured',
+      baseURL: config.baseURL,
+      timeout: config.timeout,
+    });
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxOutputTokens ?? this.config.maxOutputTokens,
+    }, { signal: options.signal });
+
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxOutputTokens ?? this.config.maxOutputTokens,
+      stream: true,
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.generate('Hello', { maxOutputTokens: 1 });
+      return true;
+    } catch (error) {
+      console.error('❌ OpenAI-compatible endpoint validation failed:', error);
+      return false;
+    }
+  }
+
+  getModelInfo(): LLMModelInfo {
+    return {
+      provider: this.name,
+      name: this.config.model,
+      temperature: this.config.temperature,
+      maxOutputTokens: this.config.maxOutputTokens,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { EnhancedTextChunker } from './enhanced-text-chunker';
+import { embeddingManager } from './embedding-manager';
+import { MarkdownChunker } from './markdown-chunker';
+
+function createChunker(chunkSize: number): MarkdownChunker {
+  return new MarkdownChunker(chunkSize, new EnhancedTextChunker({ chunkSize, overlap: 1, unit: 'characters' }));
+}
+
+describe('MarkdownChunker', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const chunks = createChunker(1000).chunk('# Intro\n\nFirst.\n\n## Details\n\nSecond.\n\n# Outro\n\nThird.');
+
+    expect(chunks).toEqual([
+      { text: '# Intro\n\nFirst.', headingPath: ['Intro'] },
+      { text: '## Details\n\nSecond.', headingPath: ['Intro', 'Details'] },
+      { text: '# Outro\n\nThird.', headingPath: ['Outro'] },
+    ]);
+  });
+
+  it('keeps a heading directly followed by a deeper heading in the same chunk', () => {
+    const chunks = createChunker(1000).chunk('# Guide\n## Setup\n\nRun it.');
+
+    expect(chunks).toEqual([{ text: '# Guide\n\n## Setup\n\nRun it.', headingPath: ['Guide', 'Setup'] }]);
+  });
+
+  it('reads setext headings and strips markup from heading text', () => {
+    const chunks = createChunker(1000).chunk('Over\u00ADview\n===\n\nText.\n\n## [Solar](https://example.com) **panels**\n\nMore.');
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([['Overview'], ['Overview', 'Solar panels']]);
+  });
+
+  it('does not read lines in fenced code as headings', () => {
+    const chunks = createChunker(1000).chunk('# Script\n\n```sh\n# not a heading\necho hi\n```');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Script']);
+  });
+
+  it('splits oversized tables between rows and repeats the header', () => {
+    const rows = Array.from({ length: 6 }, (_, index) => `| ${index} | x |`);
+    const chunks = createChunker(40).chunk(['| a | b |', '|---|---|', ...rows].join('\n'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith('| a | b |\n|---|---|\n')).toBe(true);
+      expect(chunk.text.length).toBeLessThanOrEqual(40);
+    }
+    expect(chunks.flatMap(chunk => chunk.text.split('\n').slice(2))).toEqual(rows);
+  });
+
+  it('splits oversized code blocks between lines and repeats the fences', () => {
+    const lines = Array.from({ length: 8 }, (_, index) => `line ${index}`);
+    const chunks = createChunker(30).chunk(['```js', ...lines, '```'].join('\n'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith('```js\n')).toBe(true);
+      expect(chunk.text.endsWith('\n```')).toBe(true);
+    }
+    expect(chunks.flatMap(chunk => chunk.text.split('\n').slice(1, -1))).toEqual(lines);
+  });
+
+  it('splits oversized paragraphs with the text chunker under the same heading path', () => {
+    const paragraph = Array.from({ length: 6 }, (_, index) => `Sentence number ${index} is here.`).join(' ');
+    const chunks = createChunker(80).chunk(`# Long\n\n${paragraph}`);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.headingPath.join() === 'Long')).toBe(true);
+    expect(chunks[0].text.startsWith('# Long\n\nSentence number 0')).toBe(true);
+  });
+});
+
+describe('MarkdownChunker in semantic mode', () => {
+  const solar = Array.from({ length: 3 }, (_, index) => `Solar panels on roof ${index} produce clean electricity all day.`);
+  const bakery = Array.from({ length: 5 }, (_, index) => `The bakery on corner ${index} sells fresh bread every morning.`);
+  const markdown = `# Energy\n\n${[...solar, ...bakery].join('\n\n')}`;
+
+  function createSemanticChunker(chunkSize: number): MarkdownChunker {
+    return new MarkdownChunker(chunkSize, new EnhancedTextChunker({
+      chunkSize, unit: 'characters', mode: 'semantic', breakpointPercentile: 10, minChunkSize: 100,
+    }));
+  }
+
+  beforeEach(() => {
+    // One dimension per topic, so similarity drops where the paragraphs change topic
+    jest.spyOn(embeddingManager, 'embedDocuments').mockImplementation(async windows => windows.map(window => [
+      (window.match(/solar/gi) || []).length,
+      (window.match(/bakery/gi) || []).length,
+    ]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('splits the paragraphs of an oversized section where the topic changes', async () => {
+    const chunks = await createSemanticChunker(320).chunkWithMode(markdown);
+
+    expect(chunks).toEqual([
+      { text: `# Energy\n\n${solar.join('\n\n')}`, headingPath: ['Energy'] },
+      { text: bakery.join('\n\n'), headingPath: ['Energy'] },
+    ]);
+  });
+
+  it('keeps a section that fits in one chunk without embedding it', async () => {
+    const chunks = await createSemanticChunker(1000).chunkWithMode(markdown);
+
+    expect(chunks).toEqual([{ text: markdown, headingPath: ['Energy'] }]);
+    expect(embeddingManager.embedDocuments).not.toHaveBeenCalled();
+  });
+
+  it('chunks by size in standard mode', async () => {
+    const chunker = createChunker(320);
+
+    const chunks = await chunker.chunkWithMode(markdown);
+    expect(chunks).toEqual(chunker.chunk(markdown));
+    // Packing by size alone mixes the topics
+    expect(chunks[0].text).toContain(bakery[0]);
+    expect(embeddingManager.embedDocuments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,320 @@
+import { EnhancedTextChunker } from './enhanced-text-chunker';
+
+export interface MarkdownChunk {
+  text: string;
+  headingPath: string[];  // Headings the chunk is under, outermost first
+}
+
+type MarkdownBlockType = 'heading' | 'paragraph' | 'table' | 'code';
+
+interface MarkdownBlock {
+  type: MarkdownBlockType;
+  lines: string[];
+  level?: number;    // Heading level 1-6
+  heading?: string;  // Heading text without markup
+  standalone?: boolean;  // A semantic piece, never packed together with other content
+}
+
+interface MarkdownSection {
+  headingPath: string[];
+  blocks: MarkdownBlock[];
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER_PATTERN = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const BLOCK_SEPARATOR = '\n\n';
+
+/**
+ * Chunks Markdown along its structure: every heading starts a section, sections are packed
+ * block by block up to the chunk size, and tables and fenced code are only split between rows
+ * or lines. Oversized paragraphs fall back to the plain text chunker.
+ */
+export class MarkdownChunker {
+  private chunkSize: number;
+  private textChunker: EnhancedTextChunker;
+
+  constructor(chunkSize: number, textChunker: EnhancedTextChunker) {
+    this.chunkSize = chunkSize;
+    this.textChunker = textChunker;
+  }
+
+  /**
+   * Split Markdown into chunks that never cross a heading
+   */
+  chunk(text: string): MarkdownChunk[] {
+    return this.splitSections(this.parseBlocks(text)).flatMap(section =>
+      this.packSection(section.blocks).map(chunkText => ({ text: chunkText, headingPath: section.headingPath }))
+    );
+  }
+
+  /**
+   * Split Markdown with the text chunker's mode. In semantic mode the paragraphs of a section
+   * larger than the chunk size are split at topic shifts, and the pieces are not packed together again.
+   */
+  async chunkWithMode(text: string): Promise<MarkdownChunk[]> {
+    if (this.textChunker.mode !== 'semantic') {
+      return this.chunk(text);
+    }
+
+    const chunks: MarkdownChunk[] = [];
+    for (const section of this.splitSections(this.parseBlocks(text))) {
+      const blocks = this.textChunker.measure(renderBlocks(section.blocks)) <= this.chunkSize
+        ? section.blocks
+        : await this.splitSectionSemantically(section.blocks);
+      chunks.push(...this.packBlocks(blocks).map(chunkText => ({ text: chunkText, headingPath: section.headingPath })));
+    }
+    return chunks;
+  }
+
+  /**
+   * Parse text into headings, paragraphs (including lists and quotes), tables and fenced code
+   */
+  private parseBlocks(text: string): MarkdownBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        blocks.push({ type: 'paragraph', lines: paragraph });
+        paragraph = [];
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line.trim() === '') {
+        flushParagraph();
+        continue;
+      }
+
+      const fence = line.match(FENCE_PATTERN);
+      if (fence) {
+        flushParagraph();
+        // The closing fence uses the same character and is at least as long; an unclosed fence runs to the end
+        const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}[ \\t]*$`);
+        const code = [line];
+        while (++i < lines.length) {
+          code.push(lines[i]);
+          if (closing.test(lines[i])) break;
+        }
+        blocks.push({ type: 'code', lines: code });
+        continue;
+      }
+
+      const atxHeading = line.match(ATX_HEADING_PATTERN);
+      if (atxHeading) {
+        flushParagraph();
+        blocks.push({ type: 'heading', lines: [line], level: atxHeading[1].length, heading: cleanHeading(atxHeading[2] || '') });
+        continue;
+      }
+
+      // Only a single-line paragraph is read as a setext heading, so "---" under a list stays a rule
+      const setextUnderline = line.match(SETEXT_UNDERLINE_PATTERN);
+      if (setextUnderline && paragraph.length === 1) {
+        blocks.push({
+          type: 'heading',
+          lines: [paragraph[0], line],
+          level: setextUnderline[1][0] === '=' ? 1 : 2,
+          heading: cleanHeading(paragraph[0]),
+        });
+        paragraph = [];
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+        flushParagraph();
+        const table = [line];
+        while (i + 1 < lines.length && lines[i + 1].trim() !== '' && lines[i + 1].includes('|')) {
+          table.push(lines[++i]);
+        }
+        blocks.push({ type: 'table', lines: table });
+        continue;
+      }
+
+      paragraph.push(line);
+    }
+    flushParagraph();
+
+    return blocks;
+  }
+
+  /**
+   * Group blocks by heading. A heading directly followed by a deeper heading joins its section,
+   * so the chunk text keeps both headings and the path names the deeper one.
+   */
+  private splitSections(blocks: MarkdownBlock[]): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    let current: MarkdownSection = { headingPath: [], blocks: [] };
+    let currentLevel = 0;
+    // Indexed by heading level - 1; skipped levels stay empty
+    let headingStack: string[] = [];
+
+    for (const block of blocks) {
+      if (block.type !== 'heading') {
+        current.blocks.push(block);
+        continue;
+      }
+
+      const level = block.level || 1;
+      headingStack = headingStack.slice(0, level - 1);
+      headingStack[level - 1] = block.heading || '';
+      const headingPath = headingStack.filter(Boolean);
+      const onlyHeadings = current.blocks.length > 0 && current.blocks.every(existing => existing.type === 'heading');
+
+      if (onlyHeadings && level > currentLevel) {
+        current.blocks.push(block);
+        current.headingPath = headingPath;
+      } else {
+        if (current.blocks.length > 0) sections.push(current);
+        current = { headingPath, blocks: [block] };
+      }
+      currentLevel = level;
+    }
+    if (current.blocks.length > 0) sections.push(current);
+
+    return sections;
+  }
+
+  /**
+   * Pack the blocks of one section into chunks of at most chunkSize (in the text chunker's unit) where possible.
+   * Blocks are not repeated between chunks; the heading path gives every chunk its context.
+   */
+  private packSection(blocks: MarkdownBlock[]): string[] {
+    return this.packBlocks(blocks.flatMap(block => this.splitOversizedBlock(block)));
+  }
+
+  /**
+   * Split consecutive paragraphs of an oversized section semantically, as one text so that topic
+   * shifts between paragraphs are found too; other blocks are split by size
+   */
+  private async splitSectionSemantically(blocks: MarkdownBlock[]): Promise<MarkdownBlock[]> {
+    const result: MarkdownBlock[] = [];
+    let paragraphs: string[] = [];
+
+    const flushParagraphs = async () => {
+      if (paragraphs.length === 0) return;
+      const pieces = await this.textChunker.chunkTextWithMode(paragraphs.join(BLOCK_SEPARATOR));
+      result.push(...pieces.map(piece => ({ type: 'paragraph' as const, lines: [piece], standalone: true })));
+      paragraphs = [];
+    };
+
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        paragraphs.push(block.lines.join('\n'));
+        continue;
+      }
+      await flushParagraphs();
+      result.push(...this.splitOversizedBlock(block));
+    }
+    await flushParagraphs();
+
+    return result;
+  }
+
+  /**
+   * Pack already split blocks into chunks; standalone blocks only share a chunk with the headings before them
+   */
+  private packBlocks(blocks: MarkdownBlock[]): string[] {
+    const chunks: string[] = [];
+    let current: MarkdownBlock[] = [];
+
+    const flush = () => {
+      // A heading at the end of a chunk belongs with the content after it
+      const trailingHeadings: MarkdownBlock[] = [];
+      while (current.length > 0 && current[current.length - 1].type === 'heading') {
+        trailingHeadings.unshift(current.pop()!);
+      }
+      if (current.length > 0) {
+        chunks.push(renderBlocks(current));
+      }
+      current = trailingHeadings;
+    };
+
+    for (const block of blocks) {
+      const size = this.textChunker.measure(renderBlocks([...current, block]));
+      const separate = block.standalone || current.some(existing => existing.standalone);
+      if (current.length > 0 && (size > this.chunkSize || separate)) {
+        flush();
+      }
+      current.push(block);
+    }
+    if (current.length > 0) {
+      chunks.push(renderBlocks(current));
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Split a block larger than the chunk size: tables between rows with the header repeated,
+   * code between lines with the fences repeated, paragraphs with the text chunker.
+   * A single row or line larger than the chunk size stays whole.
+   */
+  private splitOversizedBlock(block: MarkdownBlock): MarkdownBlock[] {
+    if (this.textChunker.measure(renderBlocks([block])) <= this.chunkSize) {
+      return [block];
+    }
+
+    switch (block.type) {
+      case 'table':
+        return this.groupLines(block.lines.slice(0, 2), block.lines.slice(2), [])
+          .map(lines => ({ type: 'table', lines }));
+      case 'code': {
+        const opening = block.lines[0];
+        const hasClosing = block.lines.length > 1 && FENCE_PATTERN.test(block.lines[block.lines.length - 1]);
+        const body = block.lines.slice(1, hasClosing ? -1 : undefined);
+        const closing = hasClosing ? block.lines[block.lines.length - 1] : (opening.match(FENCE_PATTERN)?.[1] || '```');
+        return this.groupLines([opening], body, [closing]).map(lines => ({ type: 'code', lines }));
+      }
+      case 'paragraph':
+        return this.textChunker.chunkText(block.lines.join('\n')).map(text => ({ type: 'paragraph', lines: [text] }));
+      default:
+        return [block];
+    }
+  }
+
+  /**
+   * Group body lines so that prefix + group + suffix fits the chunk size, with at least one line per group
+   */
+  private groupLines(prefix: string[], body: string[], suffix: string[]): string[][] {
+    const groups: string[][] = [];
+    let group: string[] = [];
+
+    for (const line of body) {
+      const size = this.textChunker.measure([...prefix, ...group, line, ...suffix].join('\n'));
+      if (group.length > 0 && size > this.chunkSize) {
+        groups.push([...prefix, ...group, ...suffix]);
+        group = [];
+      }
+      group.push(line);
+    }
+    if (group.length > 0 || groups.length === 0) {
+      groups.push([...prefix, ...group, ...suffix]);
+    }
+
+    return groups;
+  }
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): string {
+  return blocks.map(block => block.lines.join('\n')).join(BLOCK_SEPARATOR).trim();
+}
+
+/**
+ * Heading text without links, emphasis and inline code markup
+ */
+function cleanHeading(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]+/g, '')
+    // Soft hyphens from scraped pages would break matching on the heading path
+    .replace(/\u00AD/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export default MarkdownChunker;
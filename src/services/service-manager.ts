@@ -1,6 +1,9 @@
 import { embeddingManager } from './embedding-manager';
 import { neo4jManager } from '../database/neo4j';
-import GeminiService from './gemini-service';
+import LLMService from './llm-service';
+import { createLLMProvider } from './llm/llm-provider-registry';
+import { getLLMConfig, getSessionConfig } from '../config/unified-config';
+import { createSessionStore, startSessionCleanup } from './session';
 import { VectorSearchService } from './vector-index/vector-search';
 import { QAService } from './vector-index/qa-service';
 import { SimpleAgent } from '../agents/simple-agent';
@@ -16,7 +19,7 @@ export class ServiceManager {
   private config: ServiceConfig;
   
   // Service instances
-  private _geminiService: GeminiService | null = null;
+  private _llmService: LLMService | null = null;
   private _vectorSearchService: VectorSearchService | null = null;
   private _qaService: QAService | null = null;
   private _agent: SimpleAgent | null = null;
@@ -45,16 +48,18 @@ export class ServiceManager {
   }
 
   /**
-   * Get GeminiService instance (singleton)
+   * Get LLMService instance for the configured provider (singleton)
    */
-  public getGeminiService(): GeminiService {
-    if (!this._geminiService) {
-      this._geminiService = new GeminiService();
+  public getLLMService(): LLMService {
+    if (!this._llmService) {
+      const llmConfig = getLLMConfig();
+      const provider = createLLMProvider(llmConfig.provider, llmConfig);
+      this._llmService = new LLMService(provider);
       if (this.config.enableLogging) {
-        console.log('🔑 GeminiService instance created (singleton)');
+        console.log(`🔑 LLMService instance created (singleton, provider: ${provider.name})`);
       }
     }
-    return this._geminiService;
+    return this._llmService;
   }
 
   /**
@@ -62,8 +67,8 @@ export class ServiceManager {
    */
   public getVectorSearchService(): VectorSearchService {
     if (!this._vectorSearchService) {
-      const embeddingModel = embeddingManager.getEmbeddingModel();
-      this._vectorSearchService = new VectorSearchService(embeddingModel);
+      // Use the manager so cached embeddings and provider changes apply to search
+      this._vectorSearchService = new VectorSearchService(embeddingManager);
       if (this.config.enableLogging) {
         console.log('🔍 VectorSearchService instance created (singleton)');
       }
@@ -77,8 +82,7 @@ export class ServiceManager {
   public getQAService(): QAService {
     if (!this._qaService) {
       const vectorSearchService = this.getVectorSearchService();
-      const embeddingModel = embeddingManager.getEmbeddingModel();
-      this._qaService = new QAService(vectorSearchService, embeddingModel);
+      this._qaService = new QAService(vectorSearchService, embeddingManager);
       if (this.config.enableLogging) {
         console.log('🤖 QAService instance created (singleton)');
       }
@@ -91,9 +95,12 @@ export class ServiceManager {
    */
   public getAgent(): SimpleAgent {
     if (!this._agent) {
-      this._agent = new SimpleAgent();
+      const sessionConfig = getSessionConfig();
+      const sessionStore = createSessionStore(sessionConfig);
+      startSessionCleanup(sessionStore, sessionConfig.cleanupInterval);
+      this._agent = new SimpleAgent(sessionStore);
       if (this.config.enableLogging) {
-        console.log('🤖 SimpleAgent instance created (singleton)');
+        console.log(`🤖 SimpleAgent instance created (singleton, session store: ${sessionStore.name})`);
       }
     }
     return this._agent;
@@ -120,7 +127,7 @@ export class ServiceManager {
    * Reset all service instances (for testing)
    */
   public reset(): void {
-    this._geminiService = null;
+    this._llmService = null;
     this._vectorSearchService = null;
     this._qaService = null;
     if (this.config.enableLogging) {
@@ -136,7 +143,7 @@ export class ServiceManager {
     services: {
       embeddingManager: boolean;
       neo4jManager: boolean;
-      geminiService: boolean;
+      llmService: boolean;
       vectorSearchService: boolean;
       qaService: boolean;
     };
@@ -146,7 +153,7 @@ export class ServiceManager {
       const services = {
         embeddingManager: false,
         neo4jManager: false,
-        geminiService: false,
+        llmService: false,
         vectorSearchService: false,
         qaService: false,
       };
@@ -167,13 +174,12 @@ export class ServiceManager {
         console.warn('⚠️ Neo4jManager health check failed:', error);
       }
 
-      // Check GeminiService
+      // Check LLMService
       try {
-        const geminiService = this.getGeminiService();
-        const isValid = await geminiService.validateApiKey();
-        services.geminiService = isValid;
+        const llmService = this.getLLMService();
+        services.llmService = await llmService.isAvailable();
       } catch (error) {
-        console.warn('⚠️ GeminiService health check failed:', error);
+        console.warn('⚠️ LLMService health check failed:', error);
       }
 
       // Check VectorSearchService
@@ -210,7 +216,7 @@ export class ServiceManager {
         services: {
           embeddingManager: false,
           neo4jManager: false,
-          geminiService: false,
+          llmService: false,
           vectorSearchService: false,
           qaService: false,
         },
@@ -0,0 +1,40 @@
+import { SessionConfig } from '../../config/unified-config';
+import { SessionStore } from './session-store';
+import { MemorySessionStore } from './memory-session-store';
+import { Neo4jSessionStore } from './neo4j-session-store';
+
+export { SessionStore, SessionSummary, SessionPage } from './session-store';
+export { MemorySessionStore } from './memory-session-store';
+export { Neo4jSessionStore } from './neo4j-session-store';
+
+/**
+ * Create the session store selected by SESSION_STORE
+ */
+export function createSessionStore(config: SessionConfig): SessionStore {
+  switch (config.store) {
+    case 'memory':
+      return new MemorySessionStore(config.ttl);
+    case 'neo4j':
+      return new Neo4jSessionStore(config.ttl);
+    default:
+      throw new Error(`Unknown session store "${config.store}", available: memory, neo4j`);
+  }
+}
+
+/**
+ * Periodically purge expired sessions; the timer does not keep the process alive
+ */
+export function startSessionCleanup(store: SessionStore, interval: number): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const removed = await store.purgeExpired();
+      if (removed > 0) {
+        console.log(`🧹 Purged ${removed} expired chat sessions`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to purge expired chat sessions:', error);
+    }
+  }, interval);
+  timer.unref();
+  return timer;
+}
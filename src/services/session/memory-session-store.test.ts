@@ -0,0 +1,76 @@
+import { AgentMessage } from '../../models/types';
+import { MemorySessionStore } from './memory-session-store';
+
+const TTL = 60_000;
+
+function message(role: AgentMessage['role'], content: string): AgentMessage {
+  return { role, content, timestamp: new Date() };
+}
+
+describe('MemorySessionStore', () => {
+  let store: MemorySessionStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    store = new MemorySessionStore(TTL);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps appended messages in order', async () => {
+    await store.appendMessage('s1', message('user', 'What is solar power?'));
+    await store.appendMessage('s1', message('assistant', 'Energy from sunlight.'));
+
+    const session = await store.getSession('s1');
+    expect(session?.messages.map(m => m.content)).toEqual(['What is solar power?', 'Energy from sunlight.']);
+  });
+
+  it('forgets sessions idle for longer than the TTL', async () => {
+    await store.appendMessage('s1', message('user', 'Hello'));
+
+    jest.advanceTimersByTime(TTL + 1);
+
+    expect(await store.getSession('s1')).toBeNull();
+    expect((await store.getOrCreateSession('s1')).messages).toEqual([]);
+  });
+
+  it('extends the TTL on every message', async () => {
+    await store.appendMessage('s1', message('user', 'Hello'));
+    jest.advanceTimersByTime(TTL - 1000);
+    await store.appendMessage('s1', message('user', 'Still here'));
+    jest.advanceTimersByTime(TTL - 1000);
+
+    expect((await store.getSession('s1'))?.messages).toHaveLength(2);
+  });
+
+  it('lists live sessions most recently updated first', async () => {
+    await store.appendMessage('old', message('user', 'First'));
+    jest.advanceTimersByTime(1000);
+    await store.appendMessage('new', message('user', 'Second'));
+    jest.advanceTimersByTime(1000);
+    await store.appendMessage('newest', message('user', 'Third'));
+
+    const page = await store.listSessions(0, 2);
+    expect(page.total).toBe(3);
+    expect(page.sessions.map(s => s.id)).toEqual(['newest', 'new']);
+    expect(page.sessions[0]).toEqual(expect.objectContaining({ messageCount: 1, lastMessage: 'Third' }));
+  });
+
+  it('purges expired sessions and reports how many were removed', async () => {
+    await store.appendMessage('stale', message('user', 'Old'));
+    jest.advanceTimersByTime(TTL + 1);
+    await store.appendMessage('fresh', message('user', 'New'));
+
+    expect(await store.purgeExpired()).toBe(1);
+    expect((await store.listSessions(0, 10)).sessions.map(s => s.id)).toEqual(['fresh']);
+  });
+
+  it('reports whether a deleted session existed', async () => {
+    await store.getOrCreateSession('s1');
+
+    expect(await store.deleteSession('s1')).toBe(true);
+    expect(await store.deleteSession('s1')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { AgentMessage, AgentSession } from '../../models/types';
+import { SessionStore, SessionPage } from './session-store';
+
+/**
+ * In-process session store; conversations are lost on restart
+ */
+export class MemorySessionStore implements SessionStore {
+  public readonly name = 'memory';
+  private sessions: Map<string, AgentSession> = new Map();
+  private ttl: number;
+
+  constructor(ttl: number) {
+    this.ttl = ttl;
+  }
+
+  async getOrCreateSession(sessionId: string): Promise<AgentSession> {
+    const existing = await this.getSession(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const session: AgentSession = {
+      id: sessionId,
+      messages: [],
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<AgentSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (this.isExpired(session)) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  async appendMessage(sessionId: string, message: AgentMessage): Promise<void> {
+    const session = await this.getOrCreateSession(sessionId);
+    session.messages.push(message);
+    session.updated_at = new Date();
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async listSessions(offset: number, limit: number): Promise<SessionPage> {
+    await this.purgeExpired();
+
+    const sorted = Array.from(this.sessions.values())
+      .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime());
+
+    return {
+      sessions: sorted.slice(offset, offset + limit).map(session => ({
+        id: session.id,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+        messageCount: session.messages.length,
+        lastMessage: session.messages[session.messages.length - 1]?.content,
+      })),
+      total: sorted.length,
+      offset,
+      limit,
+    };
+  }
+
+  async purgeExpired(): Promise<number> {
+    let removed = 0;
+    for (const [sessionId, session] of this.sessions) {
+      if (this.isExpired(session)) {
+        this.sessions.delete(sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private isExpired(session: AgentSession): boolean {
+    return Date.now() - session.updated_at.getTime() > this.ttl;
+  }
+}
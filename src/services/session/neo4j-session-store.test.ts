@@ -0,0 +1,107 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import { Neo4jSessionStore } from './neo4j-session-store';
+
+jest.mock('../../database/neo4j', () => ({
+  neo4jManager: {
+    executeQuery: jest.fn(),
+    executeWriteQuery: jest.fn(),
+  },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const executeWriteQuery = neo4jManager.executeWriteQuery as jest.Mock;
+
+const TTL = 60_000;
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+describe('Neo4jSessionStore', () => {
+  let store: Neo4jSessionStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    executeQuery.mockReset().mockResolvedValue([]);
+    executeWriteQuery.mockReset().mockResolvedValue([]);
+    store = new Neo4jSessionStore(TTL);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('creates the session schema only once', async () => {
+    await store.getSession('s1');
+    await store.getSession('s2');
+
+    const schemaStatements = executeWriteQuery.mock.calls.filter(([query]) => /^CREATE (CONSTRAINT|INDEX)/.test(query));
+    expect(schemaStatements).toHaveLength(3);
+  });
+
+  it('converts stored messages back into a session', async () => {
+    executeQuery.mockResolvedValue([{
+      createdAt: neo4j.int(NOW - 5000),
+      updatedAt: neo4j.int(NOW - 1000),
+      expiresAt: neo4j.int(NOW + TTL),
+      messages: [
+        { role: 'user', content: 'Hi', timestamp: neo4j.int(NOW - 2000), citedChunkIds: [] },
+        { role: 'assistant', content: 'Hello', timestamp: neo4j.int(NOW - 1000), citedChunkIds: ['c1'] },
+      ],
+    }]);
+
+    const session = await store.getSession('s1');
+
+    expect(session?.created_at).toEqual(new Date(NOW - 5000));
+    expect(session?.messages).toEqual([
+      { role: 'user', content: 'Hi', timestamp: new Date(NOW - 2000), citedChunkIds: [] },
+      { role: 'assistant', content: 'Hello', timestamp: new Date(NOW - 1000), citedChunkIds: ['c1'] },
+    ]);
+  });
+
+  it('deletes and hides a session whose TTL has passed', async () => {
+    executeQuery.mockResolvedValue([{
+      createdAt: NOW - TTL * 2,
+      updatedAt: NOW - TTL * 2,
+      expiresAt: NOW - TTL,
+      messages: [],
+    }]);
+
+    expect(await store.getSession('s1')).toBeNull();
+    const deleteCall = executeWriteQuery.mock.calls.find(([query]) => query.includes('DETACH DELETE s'));
+    expect(deleteCall?.[1]).toEqual({ sessionId: 's1' });
+  });
+
+  it('moves the expiry forward and records citations when appending', async () => {
+    await store.appendMessage('s1', {
+      role: 'assistant',
+      content: 'Answer',
+      timestamp: new Date(NOW),
+      citedChunkIds: ['c1', 'c2'],
+    });
+
+    const appendCall = executeWriteQuery.mock.calls.find(([query]) => query.includes('CREATE (s)-[:HAS_MESSAGE]'));
+    expect(appendCall?.[1]).toEqual(expect.objectContaining({
+      sessionId: 's1',
+      expiresAt: NOW + TTL,
+      role: 'assistant',
+      content: 'Answer',
+      citedChunkIds: ['c1', 'c2'],
+    }));
+  });
+
+  it('pages sessions with integer parameters', async () => {
+    executeQuery.mockResolvedValue([{
+      total: neo4j.int(3),
+      page: [{ id: 's2', createdAt: NOW, updatedAt: NOW, messageCount: neo4j.int(4), lastMessage: null }],
+    }]);
+
+    const page = await store.listSessions(1, 1);
+
+    expect(executeQuery.mock.calls[0][1].offset.toNumber()).toBe(1);
+    expect(page).toEqual({
+      sessions: [{ id: 's2', created_at: new Date(NOW), updated_at: new Date(NOW), messageCount: 4, lastMessage: undefined }],
+      total: 3,
+      offset: 1,
+      limit: 1,
+    });
+  });
+});
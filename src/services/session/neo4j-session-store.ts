@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import { AgentMessage, AgentSession } from '../../models/types';
+import { SessionStore, SessionPage } from './session-store';
+
+/**
+ * Session store backed by Neo4j:
+ * (:__Session__)-[:HAS_MESSAGE]->(:__Message__)-[:CITES]->(:__Chunk__)
+ *
+ * Times are stored as epoch milliseconds; `expires_at` is moved forward on every message.
+ */
+export class Neo4jSessionStore implements SessionStore {
+  public readonly name = 'neo4j';
+  private ttl: number;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(ttl: number) {
+    this.ttl = ttl;
+  }
+
+  async getOrCreateSession(sessionId: string): Promise<AgentSession> {
+    const existing = await this.getSession(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    await neo4jManager.executeWriteQuery(`
+      MERGE (s:__Session__ {id: $sessionId})
+      ON CREATE SET s.created_at = $now, s.message_count = 0
+      SET s.updated_at = $now, s.expires_at = $expiresAt
+    `, { sessionId, now, expiresAt: now + this.ttl });
+
+    return {
+      id: sessionId,
+      messages: [],
+      created_at: new Date(now),
+      updated_at: new Date(now),
+    };
+  }
+
+  async getSession(sessionId: string): Promise<AgentSession | null> {
+    await this.ensureSchema();
+
+    const results = await neo4jManager.executeQuery(`
+      MATCH (s:__Session__ {id: $sessionId})
+      OPTIONAL MATCH (s)-[:HAS_MESSAGE]->(m:__Message__)
+      OPTIONAL MATCH (m)-[:CITES]->(c:__Chunk__)
+      WITH s, m, collect(c.id) as citedChunkIds
+      ORDER BY m.seq ASC
+      RETURN s.created_at as createdAt, s.updated_at as updatedAt, s.expires_at as expiresAt,
+             collect(CASE WHEN m IS NULL THEN null ELSE {
+               role: m.role, content: m.content, timestamp: m.timestamp, citedChunkIds: citedChunkIds
+             } END) as messages
+    `, { sessionId });
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const result = results[0];
+    if (this.toNumber(result.expiresAt) < Date.now()) {
+      await this.deleteSession(sessionId);
+      return null;
+    }
+
+    return {
+      id: sessionId,
+      messages: (result.messages as any[]).map(message => ({
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(this.toNumber(message.timestamp)),
+        citedChunkIds: message.citedChunkIds,
+      })),
+      created_at: new Date(this.toNumber(result.createdAt)),
+      updated_at: new Date(this.toNumber(result.updatedAt)),
+    };
+  }
+
+  async appendMessage(sessionId: string, message: AgentMessage): Promise<void> {
+    await this.ensureSchema();
+    await this.dropIfExpired(sessionId);
+
+    const now = Date.now();
+    // The trailing UNWIND produces no rows when nothing was cited, which only skips the CITES links
+    await neo4jManager.executeWriteQuery(`
+      MERGE (s:__Session__ {id: $sessionId})
+      ON CREATE SET s.created_at = $now, s.message_count = 0
+      SET s.updated_at = $now,
+          s.expires_at = $expiresAt,
+          s.message_count = s.message_count + 1,
+          s.last_message = $preview
+      CREATE (s)-[:HAS_MESSAGE]->(m:__Message__ {
+        id: $messageId,
+        role: $role,
+        content: $content,
+        timestamp: $timestamp,
+        seq: s.message_count
+      })
+      WITH m
+      UNWIND $citedChunkIds as chunkId
+      MATCH (c:__Chunk__ {id: chunkId})
+      MERGE (m)-[:CITES]->(c)
+    `, {
+      sessionId,
+      now,
+      expiresAt: now + this.ttl,
+      preview: message.content.substring(0, 200),
+      messageId: crypto.randomUUID(),
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp.getTime(),
+      citedChunkIds: message.citedChunkIds || [],
+    });
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const results = await neo4jManager.executeWriteQuery(`
+      MATCH (s:__Session__ {id: $sessionId})
+      OPTIONAL MATCH (s)-[:HAS_MESSAGE]->(m:__Message__)
+      WITH s, collect(m) as messages
+      FOREACH (message IN messages | DETACH DELETE message)
+      DETACH DELETE s
+      RETURN count(*) as deleted
+    `, { sessionId });
+
+    return results.length > 0 && this.toNumber(results[0].deleted) > 0;
+  }
+
+  async listSessions(offset: number, limit: number): Promise<SessionPage> {
+    await this.ensureSchema();
+
+    const results = await neo4jManager.executeQuery(`
+      MATCH (s:__Session__)
+      WHERE s.expires_at >= $now
+      WITH s ORDER BY s.updated_at DESC
+      WITH collect(s) as sessions
+      RETURN size(sessions) as total,
+             [s IN sessions[$offset..($offset + $limit)] | {
+               id: s.id, createdAt: s.created_at, updatedAt: s.updated_at,
+               messageCount: s.message_count, lastMessage: s.last_message
+             }] as page
+    `, {
+      now: Date.now(),
+      offset: neo4j.int(offset),
+      limit: neo4j.int(limit),
+    });
+
+    const result = results[0];
+    return {
+      sessions: ((result?.page || []) as any[]).map(session => ({
+        id: session.id,
+        created_at: new Date(this.toNumber(session.createdAt)),
+        updated_at: new Date(this.toNumber(session.updatedAt)),
+        messageCount: this.toNumber(session.messageCount),
+        lastMessage: session.lastMessage || undefined,
+      })),
+      total: result ? this.toNumber(result.total) : 0,
+      offset,
+      limit,
+    };
+  }
+
+  async purgeExpired(): Promise<number> {
+    await this.ensureSchema();
+
+    const results = await neo4jManager.executeWriteQuery(`
+      MATCH (s:__Session__)
+      WHERE s.expires_at < $now
+      OPTIONAL MATCH (s)-[:HAS_MESSAGE]->(m:__Message__)
+      WITH s, collect(m) as messages
+      FOREACH (message IN messages | DETACH DELETE message)
+      DETACH DELETE s
+      RETURN count(*) as removed
+    `, { now: Date.now() });
+
+    return results.length > 0 ? this.toNumber(results[0].removed) : 0;
+  }
+
+  private async dropIfExpired(sessionId: string): Promise<void> {
+    await neo4jManager.executeWriteQuery(`
+      MATCH (s:__Session__ {id: $sessionId})
+      WHERE s.expires_at < $now
+      OPTIONAL MATCH (s)-[:HAS_MESSAGE]->(m:__Message__)
+      WITH s, collect(m) as messages
+      FOREACH (message IN messages | DETACH DELETE message)
+      DETACH DELETE s
+    `, { sessionId, now: Date.now() });
+  }
+
+  /**
+   * Create session constraints and indexes once per process
+   */
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = (async () => {
+        const statements = [
+          'CREATE CONSTRAINT session_id_unique IF NOT EXISTS FOR (s:__Session__) REQUIRE s.id IS UNIQUE',
+          'CREATE CONSTRAINT message_id_unique IF NOT EXISTS FOR (m:__Message__) REQUIRE m.id IS UNIQUE',
+          'CREATE INDEX session_expires_at_index IF NOT EXISTS FOR (s:__Session__) ON (s.expires_at)',
+        ];
+        for (const statement of statements) {
+          await neo4jManager.executeWriteQuery(statement);
+        }
+      })().catch(error => {
+        // Retry on the next call instead of caching the failure
+        this.schemaReady = null;
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private toNumber(value: any): number {
+    return neo4j.isInt(value) ? value.toNumber() : Number(value);
+  }
+}
@@ -0,0 +1,41 @@
+import { AgentMessage, AgentSession } from '../../models/types';
+
+export interface SessionSummary {
+  id: string;
+  created_at: Date;
+  updated_at: Date;
+  messageCount: number;
+  lastMessage?: string;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Storage for chat sessions; sessions idle for longer than the TTL are treated as gone
+ */
+export interface SessionStore {
+  readonly name: string;
+
+  getOrCreateSession(sessionId: string): Promise<AgentSession>;
+
+  getSession(sessionId: string): Promise<AgentSession | null>;
+
+  appendMessage(sessionId: string, message: AgentMessage): Promise<void>;
+
+  deleteSession(sessionId: string): Promise<boolean>;
+
+  /**
+   * List sessions, most recently updated first
+   */
+  listSessions(offset: number, limit: number): Promise<SessionPage>;
+
+  /**
+   * Delete expired sessions and return how many were removed
+   */
+  purgeExpired(): Promise<number>;
+}
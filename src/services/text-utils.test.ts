@@ -0,0 +1,20 @@
+import { parseJson, STOP_WORDS } from './text-utils';
+
+describe('parseJson', () => {
+  it('reads the object inside fences and surrounding prose', () => {
+    expect(parseJson('Here you go:\n```json\n{"claims": [1, 2]}\n```\nDone.')).toEqual({ claims: [1, 2] });
+  });
+
+  it('returns null without a parsable object', () => {
+    expect(parseJson('No JSON here')).toBeNull();
+    expect(parseJson('{"claims": [1, 2}')).toBeNull();
+  });
+});
+
+describe('STOP_WORDS', () => {
+  it('covers English and German function words', () => {
+    expect(STOP_WORDS.has('the')).toBe(true);
+    expect(STOP_WORDS.has('und')).toBe(true);
+    expect(STOP_WORDS.has('solar')).toBe(false);
+  });
+});
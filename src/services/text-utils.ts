@@ -0,0 +1,35 @@
+// Frequent English and German words that carry no meaning for lexical matching
+export const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'these', 'those', 'from', 'has',
+  'have', 'had', 'its', 'their', 'they', 'them', 'which', 'who', 'what', 'when', 'where', 'how', 'why',
+  'does', 'did', 'also', 'can', 'will', 'not', 'but', 'all', 'any', 'such', 'into', 'than', 'then',
+  'there', 'been', 'being', 'about', 'other', 'more',
+  'der', 'die', 'das', 'und', 'ist', 'sind', 'mit', 'von', 'den', 'dem', 'des', 'ein', 'eine', 'wie',
+]);
+
+/**
+ * Split text into lowercase content words, dropping short words and stop words
+ */
+export function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Parse the JSON object in an LLM response, tolerating markdown fences and surrounding text.
+ * Returns null when the response holds no parsable object.
+ */
+export function parseJson(response: string): any | null {
+  const cleaned = response.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
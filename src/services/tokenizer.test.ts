@@ -0,0 +1,59 @@
+import { BpeTokenizer, WhitespaceTokenizer, getTokenizer, measureText, registerTokenizer } from './tokenizer';
+
+describe('WhitespaceTokenizer', () => {
+  const tokenizer = new WhitespaceTokenizer();
+
+  it('counts whitespace-separated words', () => {
+    expect(tokenizer.countTokens('  heat pumps\nsave\tenergy ')).toBe(4);
+    expect(tokenizer.countTokens('')).toBe(0);
+  });
+
+  it('counts every CJK character as a word', () => {
+    expect(tokenizer.countTokens('太陽光発電')).toBe(5);
+    // The Latin letters next to the CJK characters form one more word
+    expect(tokenizer.countTokens('GPU加速')).toBe(3);
+  });
+});
+
+describe('BpeTokenizer', () => {
+  it('counts cl100k_base tokens', () => {
+    expect(new BpeTokenizer('cl100k_base').countTokens('hello world')).toBe(2);
+  });
+
+  it('counts special token markup as plain text', () => {
+    expect(new BpeTokenizer('cl100k_base').countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
+
+describe('getTokenizer', () => {
+  it('returns one shared instance per name, ignoring case', () => {
+    registerTokenizer('test-words', () => new WhitespaceTokenizer());
+
+    expect(getTokenizer('TEST-WORDS')).toBe(getTokenizer('test-words'));
+  });
+
+  it('falls back to the whitespace tokenizer for unknown names', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(getTokenizer('no-such-tokenizer').name).toBe('whitespace');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('falls back to the whitespace tokenizer when the vocabulary fails to load', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    registerTokenizer('broken', () => ({ name: 'broken', countTokens: () => { throw new Error('missing ranks'); } }));
+
+    expect(getTokenizer('broken').name).toBe('whitespace');
+    warn.mockRestore();
+  });
+});
+
+describe('measureText', () => {
+  it('measures characters or tokens', () => {
+    const tokenizer = new WhitespaceTokenizer();
+
+    expect(measureText('one two three', 'characters', tokenizer)).toBe(13);
+    expect(measureText('one two three', 'tokens', tokenizer)).toBe(3);
+  });
+});
@@ -0,0 +1,112 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { getDocumentProcessingConfig } from '../config/unified-config';
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+export type TokenizerFactory = () => Tokenizer;
+
+// Unit of CHUNK_SIZE and CHUNK_OVERLAP
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
+// Han, kana and Hangul are written without spaces; each character counts as a word
+const CJK_CHARACTER_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Byte-pair encoding with the ranks of an OpenAI encoding; the ranks are parsed on first use
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  private encoding: TiktokenEncoding;
+  private encoder: Tiktoken | null = null;
+
+  constructor(encoding: TiktokenEncoding) {
+    this.name = encoding;
+    this.encoding = encoding;
+  }
+
+  countTokens(text: string): number {
+    if (!this.encoder) {
+      this.encoder = getEncoding(this.encoding);
+    }
+    // Special token markup in documents is counted as plain text instead of being rejected
+    return this.encoder.encode(text, [], []).length;
+  }
+}
+
+/**
+ * Whitespace-separated words, with every CJK character counted as a word of its own.
+ * Underestimates BPE counts for compounds and numbers but needs no vocabulary.
+ */
+export class WhitespaceTokenizer implements Tokenizer {
+  readonly name = 'whitespace';
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const word of text.split(/\s+/)) {
+      if (!word) continue;
+      const characters = Array.from(word);
+      const cjkCharacters = characters.filter(character => CJK_CHARACTER_PATTERN.test(character)).length;
+      // Letters around CJK characters (Latin names, digits) still form one word
+      count += cjkCharacters + (cjkCharacters < characters.length ? 1 : 0);
+    }
+    return count;
+  }
+}
+
+const factories = new Map<string, TokenizerFactory>();
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Register a tokenizer under a name usable in TOKENIZER
+ */
+export function registerTokenizer(name: string, factory: TokenizerFactory): void {
+  factories.set(name.toLowerCase(), factory);
+  tokenizers.delete(name.toLowerCase());
+}
+
+export function getTokenizerNames(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Shared tokenizer instance for a registered name (default: the configured tokenizer).
+ * Falls back to the whitespace tokenizer when the name is unknown or its vocabulary can't be loaded.
+ */
+export function getTokenizer(name: string = getDocumentProcessingConfig().tokenizer): Tokenizer {
+  const key = name.toLowerCase();
+  const cached = tokenizers.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let tokenizer: Tokenizer;
+  const factory = factories.get(key);
+  try {
+    if (!factory) {
+      throw new Error(`Unknown tokenizer "${name}", available: ${getTokenizerNames().join(', ')}`);
+    }
+    tokenizer = factory();
+    // Load the vocabulary now so a broken tokenizer is replaced before any chunk is counted with it
+    tokenizer.countTokens('');
+  } catch (error) {
+    console.warn('⚠️ Tokenizer unavailable, counting tokens by whitespace:', error instanceof Error ? error.message : error);
+    tokenizer = new WhitespaceTokenizer();
+  }
+
+  tokenizers.set(key, tokenizer);
+  return tokenizer;
+}
+
+/**
+ * Size of a text in characters or in tokens of the given tokenizer
+ */
+export function measureText(text: string, unit: ChunkSizeUnit, tokenizer: Tokenizer = getTokenizer()): number {
+  return unit === 'tokens' ? tokenizer.countTokens(text) : text.length;
+}
+
+registerTokenizer('cl100k_base', () => new BpeTokenizer('cl100k_base'));
+registerTokenizer('o200k_base', () => new BpeTokenizer('o200k_base'));
+registerTokenizer('whitespace', () => new WhitespaceTokenizer());
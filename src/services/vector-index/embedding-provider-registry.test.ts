@@ -0,0 +1,64 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import {
+  createEmbeddingModel,
+  getEmbeddingProviderNames,
+  registerEmbeddingProvider,
+  validateEmbeddingDimension,
+} from './embedding-provider-registry';
+import { HashingEmbeddingModel } from './hashing-embedding-model';
+
+jest.mock('../../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const options = { apiKey: '', model: 'test' };
+
+describe('embedding provider registry', () => {
+  it('registers the built-in providers', () => {
+    expect(getEmbeddingProviderNames()).toEqual(expect.arrayContaining(['gemini', 'openai', 'hashing']));
+  });
+
+  it('creates models by case-insensitive provider name', () => {
+    const model = createEmbeddingModel('Hashing', { ...options, dimensions: 32 });
+
+    expect(model).toBeInstanceOf(HashingEmbeddingModel);
+    expect(model.embeddingSize).toBe(32);
+  });
+
+  it('rejects unknown providers and names the available ones', () => {
+    expect(() => createEmbeddingModel('nope', options)).toThrow(/Unknown embedding provider "nope", available: .*hashing/);
+  });
+
+  it('creates models of registered custom providers', () => {
+    registerEmbeddingProvider('Fixed', () => ({
+      embeddingSize: 2,
+      embedQuery: async () => [1, 0],
+      embedDocuments: async texts => texts.map(() => [1, 0]),
+    }));
+
+    expect(createEmbeddingModel('fixed', options).embeddingSize).toBe(2);
+  });
+
+  it('reports stored embedding dimensions that differ from the provider', async () => {
+    executeQuery.mockResolvedValue([
+      { dimension: neo4j.int(768), chunks: neo4j.int(10) },
+      { dimension: neo4j.int(256), chunks: neo4j.int(2) },
+    ]);
+
+    expect(await validateEmbeddingDimension('hashing', 256)).toEqual({
+      provider: 'hashing',
+      expected: 256,
+      stored: [768, 256],
+      chunkCount: 12,
+      compatible: false,
+    });
+  });
+
+  it('accepts an empty store', async () => {
+    executeQuery.mockResolvedValue([]);
+
+    expect((await validateEmbeddingDimension('hashing', 256)).compatible).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import { EmbeddingModel } from '../embedding-manager';
+import { GeminiEmbeddingModel } from './gemini-embedding-model';
+import { OpenAIEmbeddingModel } from './openai-embedding-model';
+import { HashingEmbeddingModel } from './hashing-embedding-model';
+
+export interface EmbeddingProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  dimensions?: number;
+  timeout?: number;
+  retryAttempts?: number;
+}
+
+export type EmbeddingProviderFactory = (options: EmbeddingProviderOptions) => EmbeddingModel & { embeddingSize: number };
+
+export interface EmbeddingDimensionCheck {
+  provider: string;
+  expected: number;
+  stored: number[];        // Distinct dimensions found on __Chunk__.embedding
+  chunkCount: number;
+  compatible: boolean;
+}
+
+const providers = new Map<string, EmbeddingProviderFactory>();
+
+/**
+ * Register an embedding provider under a name usable in EMBEDDING_PROVIDER
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+export function getEmbeddingProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create the embedding model for a registered provider
+ */
+export function createEmbeddingModel(
+  provider: string,
+  options: EmbeddingProviderOptions
+): EmbeddingModel & { embeddingSize: number } {
+  const factory = providers.get(provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${provider}", available: ${getEmbeddingProviderNames().join(', ')}`);
+  }
+  return factory(options);
+}
+
+/**
+ * Compare a provider's declared dimension with the embeddings already stored on chunks
+ */
+export async function validateEmbeddingDimension(provider: string, expected: number): Promise<EmbeddingDimensionCheck> {
+  const results = await neo4jManager.executeQuery(`
+    MATCH (c:__Chunk__)
+    WHERE c.embedding IS NOT NULL
+    RETURN size(c.embedding) as dimension, count(c) as chunks
+  `);
+
+  const toNumber = (value: any) => neo4j.isInt(value) ? value.toNumber() : Number(value);
+  const stored = results.map((result: any) => toNumber(result.dimension));
+  const chunkCount = results.reduce((sum: number, result: any) => sum + toNumber(result.chunks), 0);
+
+  return {
+    provider,
+    expected,
+    stored,
+    chunkCount,
+    compatible: stored.every((dimension: number) => dimension === expected),
+  };
+}
+
+registerEmbeddingProvider('gemini', options => new GeminiEmbeddingModel({
+  apiKey: options.apiKey,
+  model: options.model,
+  baseURL: options.baseURL,
+  dimensions: options.dimensions,
+  timeout: options.timeout,
+  maxRetries: options.retryAttempts,
+}));
+
+registerEmbeddingProvider('openai', options => new OpenAIEmbeddingModel({
+  apiKey: options.apiKey,
+  model: options.model,
+  baseURL: options.baseURL,
+  dimensions: options.dimensions,
+  timeout: options.timeout,
+  maxRetries: options.retryAttempts,
+}));
+
+registerEmbeddingProvider('hashing', options => new HashingEmbeddingModel({
+  dimensions: options.dimensions,
+}));
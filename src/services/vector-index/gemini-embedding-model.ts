@@ -4,6 +4,7 @@ export interface GeminiEmbeddingConfig {
   apiKey: string;
   model: string;
   baseURL?: string;
+  dimensions?: number; // Overrides the model's default dimension via outputDimensionality
   maxRetries?: number;
   timeout?: number;
 }
@@ -29,7 +30,11 @@ export class GeminiEmbeddingModel implements EmbeddingModel {
   private setEmbeddingSize(): void {
     const model = this.config.model.toLowerCase();
     
-    if (model.includes('embedding-001')) {
+    if (this.config.dimensions) {
+      this.embeddingSize = this.config.dimensions;
+    } else if (model.includes('gemini-embedding')) {
+      this.embeddingSize = 3072;
+    } else if (model.includes('embedding-001')) {
       this.embeddingSize = 768;
     } else if (model.includes('embedding-002')) {
       this.embeddingSize = 768;
@@ -131,7 +136,7 @@ export class GeminiEmbeddingModel implements EmbeddingModel {
       const embeddings = [];
       
       for (const text of texts) {
-        const requestBody = {
+        const requestBody: any = {
           content: {
             parts: [
               {
@@ -140,6 +145,9 @@ export class GeminiEmbeddingModel implements EmbeddingModel {
             ]
           }
         };
+        if (this.config.dimensions) {
+          requestBody.outputDimensionality = this.config.dimensions;
+        }
         
         const response = await fetch(`${apiUrl}?key=${this.config.apiKey}`, {
           method: 'POST',
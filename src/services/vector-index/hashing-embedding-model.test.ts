@@ -0,0 +1,29 @@
+import { HashingEmbeddingModel } from './hashing-embedding-model';
+import { cosineSimilarity } from './vector-math';
+
+describe('HashingEmbeddingModel', () => {
+  const model = new HashingEmbeddingModel({ dimensions: 128 });
+
+  it('returns deterministic unit vectors of the configured size', async () => {
+    const [first, second] = await model.embedDocuments(['Solar panels on roofs', 'Solar panels on roofs']);
+
+    expect(first).toHaveLength(128);
+    expect(first).toEqual(second);
+    expect(Math.sqrt(first.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+  });
+
+  it('embeds texts sharing words closer together than unrelated texts', async () => {
+    const query = await model.embedQuery('solar panels on the roof');
+    const [related, unrelated] = await model.embedDocuments(['Solar panels on a roof', 'Bakeries sell fresh bread']);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('ignores case and punctuation', async () => {
+    expect(await model.embedQuery('Heat pumps!')).toEqual(await model.embedQuery('heat PUMPS'));
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    expect((await model.embedQuery('  ...  ')).every(value => value === 0)).toBe(true);
+  });
+});
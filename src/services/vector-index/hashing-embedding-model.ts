@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import { EmbeddingModel } from '../embedding-manager';
+
+export interface HashingEmbeddingConfig {
+  dimensions?: number;
+}
+
+/**
+ * Deterministic offline embedder using the hashing trick over words and word bigrams.
+ * Intended for tests and offline development; similar texts share features but there is no semantics.
+ */
+export class HashingEmbeddingModel implements EmbeddingModel {
+  public embeddingSize: number;
+
+  constructor(config: HashingEmbeddingConfig = {}) {
+    this.embeddingSize = config.dimensions || 256;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.embeddingSize).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features = [...words];
+    for (let i = 0; i < words.length - 1; i++) {
+      features.push(`${words[i]} ${words[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const index = hash.readUInt32LE(0) % this.embeddingSize;
+      // A second hash bit picks the sign so collisions tend to cancel out
+      vector[index] += (hash[4] & 1) === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
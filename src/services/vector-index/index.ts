@@ -11,6 +11,27 @@ export {
   GeminiEmbeddingConfig
 } from './gemini-embedding-model';
 
+// OpenAI-compatible and offline embedding models
+export {
+  OpenAIEmbeddingModel,
+  OpenAIEmbeddingConfig
+} from './openai-embedding-model';
+export {
+  HashingEmbeddingModel,
+  HashingEmbeddingConfig
+} from './hashing-embedding-model';
+
+// Embedding provider registry
+export {
+  registerEmbeddingProvider,
+  getEmbeddingProviderNames,
+  createEmbeddingModel,
+  validateEmbeddingDimension,
+  EmbeddingProviderFactory,
+  EmbeddingProviderOptions,
+  EmbeddingDimensionCheck
+} from './embedding-provider-registry';
+
 // Vector search service
 export { 
   VectorSearchService,
@@ -18,6 +39,14 @@ export {
   SearchOptions
 } from './vector-search';
 
+// Vector index query with cosine scan fallback
+export {
+  queryVectorIndex,
+  VectorIndexQuery,
+  VectorIndexMatch
+} from './vector-index-query';
+export { cosineSimilarity } from './vector-math';
+
 // Smart QA service
 export { 
   QAService,
@@ -0,0 +1,95 @@
+import OpenAI from 'openai';
+import { EmbeddingModel } from '../embedding-manager';
+
+export interface OpenAIEmbeddingConfig {
+  apiKey: string;
+  model: string;
+  baseURL?: string;    // Any OpenAI-compatible server exposing /v1/embeddings
+  dimensions?: number; // Required for models without a known dimension
+  batchSize?: number;
+  maxRetries?: number;
+  timeout?: number;
+}
+
+// Dimensions of the hosted OpenAI embedding models
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbeddingModel implements EmbeddingModel {
+  private config: OpenAIEmbeddingConfig;
+  private client: OpenAI;
+  public embeddingSize: number;
+
+  constructor(config: OpenAIEmbeddingConfig) {
+    this.config = {
+      batchSize: 100,
+      maxRetries: 3,
+      timeout: 30000,
+      ...config
+    };
+
+    const dimensions = this.config.dimensions || KNOWN_DIMENSIONS[this.config.model];
+    if (!dimensions) {
+      throw new Error(`Unknown dimension for embedding model "${this.config.model}", set EMBEDDING_DIMENSIONS`);
+    }
+    this.embeddingSize = dimensions;
+
+    // Local OpenAI-compatible servers usually accept any key
+    this.client = new OpenAI({
+      apiKey: this.config.apiKey || 'not-configured',
+      baseURL: this.config.baseURL,
+      maxRetries: this.config.maxRetries,
+      timeout: this.config.timeout,
+    });
+  }
+
+  /**
+   * Calculate embedding vector for a single text
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+
+  /**
+   * Batch calculate embedding vectors for multiple texts
+   */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0) {
+      throw new Error('Text list cannot be empty');
+    }
+
+    const batchSize = this.config.batchSize || 100;
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      try {
+        const response = await this.client.embeddings.create({
+          model: this.config.model,
+          input: batch,
+          // Only the text-embedding-3 family accepts a reduced dimension
+          ...(this.config.dimensions && this.config.model.startsWith('text-embedding-3')
+            ? { dimensions: this.config.dimensions }
+            : {}),
+        });
+
+        const ordered = [...response.data].sort((a, b) => a.index - b.index);
+        for (const item of ordered) {
+          if (item.embedding.length !== this.embeddingSize) {
+            throw new Error(`Embedding dimension mismatch: expected ${this.embeddingSize}, got ${item.embedding.length}`);
+          }
+          embeddings.push(item.embedding);
+        }
+      } catch (error) {
+        console.error('❌ Failed to batch calculate text embeddings:', error);
+        throw error;
+      }
+    }
+
+    return embeddings;
+  }
+}
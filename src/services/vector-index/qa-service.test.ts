@@ -0,0 +1,97 @@
+import { MockProvider } from '../llm/mock-provider';
+import LLMService from '../llm-service';
+import { AnswerStreamEvent } from '../../models/types';
+import { QAService } from './qa-service';
+import { SearchResult, VectorSearchService } from './vector-search';
+import { EmbeddingModel } from '../embedding-manager';
+
+jest.mock('../../database/neo4j', () => ({
+  neo4jManager: { executeQuery: jest.fn() },
+  CHUNK_VECTOR_INDEX: 'chunk_embeddings',
+}));
+
+const mockProvider = new MockProvider({ defaultResponse: 'Solar panels convert sunlight into electricity [1].' });
+
+jest.mock('../service-manager', () => ({
+  serviceManager: { getLLMService: () => new LLMService(mockProvider) },
+}));
+
+const results: SearchResult[] = [
+  { id: 'c1', text: 'Solar panels convert sunlight into electricity.', score: 0.9, metadata: { fileName: 'solar.txt', chunkIndex: 0 } },
+  { id: 'c2', text: 'Panels work best facing south.', score: 0.7, metadata: { fileName: 'solar.txt', chunkIndex: 1 } },
+];
+
+async function collect(stream: AsyncGenerator<AnswerStreamEvent>): Promise<AnswerStreamEvent[]> {
+  const events: AnswerStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('QAService.streamAnswerFromResults', () => {
+  let service: QAService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockProvider.calls.length = 0;
+    service = new QAService({} as VectorSearchService, {} as EmbeddingModel);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('streams token events before the references trailer', async () => {
+    const events = await collect(service.streamAnswerFromResults('How do solar panels work?', results));
+
+    const types = events.map(event => event.type);
+    expect(types.slice(0, -1).every(type => type === 'token')).toBe(true);
+    expect(types[types.length - 1]).toBe('references');
+
+    const answer = events
+      .map(event => (event.type === 'token' ? event.content : ''))
+      .join('');
+    expect(answer).toBe('Solar panels convert sunlight into electricity [1].');
+
+    const trailer = events[events.length - 1];
+    expect(trailer.type === 'references' && trailer.confidence).toBeGreaterThan(0);
+    expect(trailer.type === 'references' && trailer.references).toEqual(['c1']);
+    expect(trailer.type === 'references' && trailer.citations?.map(citation => citation.chunkId)).toEqual(['c1']);
+  });
+
+  it('sends the question and the retrieved chunks to the model', async () => {
+    await collect(service.streamAnswerFromResults('How do solar panels work?', results));
+
+    expect(mockProvider.calls).toHaveLength(1);
+    expect(mockProvider.calls[0]).toContain('How do solar panels work?');
+    expect(mockProvider.calls[0]).toContain('Panels work best facing south.');
+  });
+
+  it('appends a grounding report when verification is requested', async () => {
+    const events = await collect(service.streamAnswerFromResults(
+      'How do solar panels work?', results, {}, { verify: true, method: 'lexical' }
+    ));
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe('grounding');
+    expect(last.type === 'grounding' && last.grounding.supportedCount).toBe(1);
+  });
+
+  it('inserts the question and chunk text verbatim', async () => {
+    await collect(service.streamAnswerFromResults('Did costs fall by $&?', [
+      { id: 'c3', text: "Costs fell by $& and $' overnight.", score: 0.8, metadata: { fileName: 'costs.txt' } },
+    ]));
+
+    expect(mockProvider.calls[0]).toContain('Did costs fall by $&?');
+    expect(mockProvider.calls[0]).toContain("Costs fell by $& and $' overnight.");
+  });
+
+  it('answers without calling the model when there are no results', async () => {
+    const events = await collect(service.streamAnswerFromResults('Anything about wind?', []));
+
+    expect(mockProvider.calls).toHaveLength(0);
+    expect(events.map(event => event.type)).toEqual(['token', 'references']);
+    expect(events[1]).toEqual({ type: 'references', references: [], confidence: 0 });
+  });
+});
@@ -1,6 +1,12 @@
 import { VectorSearchService, SearchResult } from './vector-search';
 import { EmbeddingModel } from '../embedding-manager';
 import { serviceManager } from '../service-manager';
+import LLMService from '../llm-service';
+import { LLMGenerateOptions } from '../llm/llm-provider';
+import { AnswerStreamEvent, Citation, GroundingReport, SearchResult as AnswerSearchResult } from '../../models/types';
+import { extractCitations, getCitedChunkIds } from '../citations';
+import { GroundingVerifier } from '../grounding-verifier';
+import { getGroundingConfig } from '../../config/unified-config';
 
 export interface QARequest {
   question: string;
@@ -14,6 +20,13 @@ export interface QARequest {
     includeSources?: boolean;
     format?: 'text' | 'structured';
   };
+  verification?: AnswerVerificationOptions;
+}
+
+export interface AnswerVerificationOptions {
+  verify?: boolean;             // Defaults to GROUNDING_VERIFICATION
+  method?: 'llm' | 'lexical';   // Defaults to GROUNDING_METHOD
+  regenerate?: boolean;         // Defaults to GROUNDING_REGENERATE
 }
 
 // Utility function to ensure topK is an integer
@@ -32,6 +45,8 @@ export interface QAAnswer {
     score: number;
     metadata: any;
   }>;
+  citations: Citation[];
+  grounding?: GroundingReport;
   searchResults: SearchResult[];
   processingTime: number;
 }
@@ -39,13 +54,15 @@ export interface QAAnswer {
 export class QAService {
   private searchService: VectorSearchService;
   private embeddingModel: EmbeddingModel;
-  private geminiService: any;
+  private llmService: LLMService;
+  private groundingVerifier: GroundingVerifier;
 
   constructor(searchService: VectorSearchService, embeddingModel: EmbeddingModel) {
     this.searchService = searchService;
     this.embeddingModel = embeddingModel;
-    // Use ServiceManager to get GeminiService instance
-    this.geminiService = serviceManager.getGeminiService();
+    // Use ServiceManager to get the LLMService for the configured provider
+    this.llmService = serviceManager.getLLMService();
+    this.groundingVerifier = new GroundingVerifier();
   }
 
   /**
@@ -68,8 +85,14 @@ export class QAService {
       // 2. Analyze search results
       const analysis = this.analyzeSearchResults(searchResults, request.question);
       
-      // 3. Use Gemini to generate smart answer
-      const answer = await this.generateGeminiAnswer(request.question, searchResults, request.answerOptions);
+      // 3. Use the LLM to generate smart answer, optionally checking it against the search results
+      const { answer, grounding } = await this.generateVerifiedAnswer(
+        request.question,
+        searchResults,
+        request.answerOptions,
+        request.verification
+      );
+      const citations = extractCitations(answer, this.toAnswerResults(searchResults));
       
       // 4. Calculate confidence
       const confidence = this.calculateConfidence(searchResults, analysis);
@@ -86,6 +109,8 @@ export class QAService {
         answer,
         confidence,
         sources,
+        citations,
+        grounding,
         searchResults,
         processingTime
       };
@@ -99,7 +124,11 @@ export class QAService {
   /**
    * Generate answer from existing search results (avoid duplicate search)
    */
-  async generateAnswerFromResults(question: string, searchResults: SearchResult[]): Promise<QAAnswer> {
+  async generateAnswerFromResults(
+    question: string,
+    searchResults: SearchResult[],
+    verification: AnswerVerificationOptions = {}
+  ): Promise<QAAnswer> {
     const startTime = Date.now();
     
     try {
@@ -113,8 +142,9 @@ export class QAService {
       // 1. Analyze search results
       const analysis = this.analyzeSearchResults(searchResults, question);
       
-      // 2. Use Gemini to generate smart answer
-      const answer = await this.generateGeminiAnswer(question, searchResults, {});
+      // 2. Use the LLM to generate smart answer, optionally checking it against the search results
+      const { answer, grounding } = await this.generateVerifiedAnswer(question, searchResults, {}, verification);
+      const citations = extractCitations(answer, this.toAnswerResults(searchResults));
       
       // 3. Calculate confidence
       const confidence = this.calculateConfidence(searchResults, analysis);
@@ -131,6 +161,8 @@ export class QAService {
         answer,
         confidence,
         sources,
+        citations,
+        grounding,
         searchResults,
         processingTime
       };
@@ -141,6 +173,106 @@ export class QAService {
     }
   }
 
+  /**
+   * Stream an answer from existing search results token by token, then emit references and confidence.
+   * With verification on, a grounding report follows; streamed answers are never regenerated.
+   */
+  async *streamAnswerFromResults(
+    question: string,
+    searchResults: SearchResult[],
+    options: LLMGenerateOptions = {},
+    verification: AnswerVerificationOptions = {}
+  ): AsyncGenerator<AnswerStreamEvent> {
+    console.log(`🌊 Stream answer from search results: "${question}" (${searchResults.length} results)`);
+
+    if (searchResults.length === 0) {
+      const noResults = this.generateNoResultsAnswer(question, Date.now());
+      yield { type: 'token', content: noResults.answer };
+      yield { type: 'references', references: [], confidence: 0 };
+      return;
+    }
+
+    const convertedResults = this.toAnswerResults(searchResults);
+
+    let fullAnswer = '';
+    for await (const content of this.llmService.streamAnswer({
+      question,
+      searchResults: convertedResults,
+      responseType: 'qa_answer'
+    }, options)) {
+      fullAnswer += content;
+      yield { type: 'token', content };
+    }
+
+    const analysis = this.analyzeSearchResults(searchResults, question);
+    const cleanAnswer = this.llmService.cleanAnswer(fullAnswer);
+    const citations = extractCitations(cleanAnswer, convertedResults);
+    yield {
+      type: 'references',
+      references: getCitedChunkIds(citations),
+      citations,
+      confidence: this.calculateConfidence(searchResults, analysis)
+    };
+
+    if (!options.signal?.aborted && (verification.verify ?? getGroundingConfig().enabled)) {
+      yield {
+        type: 'grounding',
+        grounding: await this.groundingVerifier.verify(cleanAnswer, convertedResults, { method: verification.method })
+      };
+    }
+  }
+
+  /**
+   * Generate an answer and, when verification is on, check its claims against the search results.
+   * If too many claims are unsupported the answer is regenerated once without them, and the
+   * better-grounded of the two answers is kept.
+   */
+  private async generateVerifiedAnswer(
+    question: string,
+    searchResults: SearchResult[],
+    answerOptions: any = {},
+    verification: AnswerVerificationOptions = {}
+  ): Promise<{ answer: string; grounding?: GroundingReport }> {
+    const config = getGroundingConfig();
+    const answer = await this.generateLLMAnswer(question, searchResults, answerOptions);
+
+    if (!(verification.verify ?? config.enabled)) {
+      return { answer };
+    }
+
+    const answerResults = this.toAnswerResults(searchResults);
+    const grounding = await this.groundingVerifier.verify(answer, answerResults, { method: verification.method });
+    console.log(`   🔎 Grounding: ${grounding.supportedCount}/${grounding.claims.length} claims supported (${grounding.method})`);
+
+    const unsupportedRatio = grounding.claims.length > 0 ? grounding.unsupportedCount / grounding.claims.length : 0;
+    if (unsupportedRatio <= config.maxUnsupportedRatio || !(verification.regenerate ?? config.regenerate)) {
+      return { answer, grounding };
+    }
+
+    console.log(`   🔁 ${(unsupportedRatio * 100).toFixed(0)}% of claims unsupported, regenerating answer once`);
+    const unsupportedClaims = grounding.claims.filter(claim => !claim.supported).map(claim => claim.claim);
+    const retryAnswer = await this.generateLLMAnswer(question, searchResults, answerOptions, unsupportedClaims);
+    const retryGrounding = await this.groundingVerifier.verify(retryAnswer, answerResults, { method: verification.method });
+
+    if (retryGrounding.groundedConfidence < grounding.groundedConfidence) {
+      console.log('   ↩️ Regenerated answer was less grounded, keeping the original');
+      return { answer, grounding };
+    }
+    return { answer: retryAnswer, grounding: { ...retryGrounding, regenerated: true } };
+  }
+
+  /**
+   * Convert search results to the format used for answer generation; the order defines the citation markers
+   */
+  private toAnswerResults(searchResults: SearchResult[]): AnswerSearchResult[] {
+    return searchResults.map(result => ({
+      content: result.text,
+      source: result.metadata.fileName || result.id,
+      score: result.score,
+      metadata: { ...result.metadata, chunkId: result.id }
+    }));
+  }
+
   /**
    * Execute search
    */
@@ -242,39 +374,36 @@ export class QAService {
   }
 
   /**
-   * Use Gemini to generate smart answer
+   * Use the LLM to generate smart answer
    */
-  private async generateGeminiAnswer(
+  private async generateLLMAnswer(
     question: string, 
     searchResults: SearchResult[], 
-    options: any = {}
+    options: any = {},
+    unsupportedClaims?: string[]
   ): Promise<string> {
     try {
-      console.log('🤖 Calling Gemini API to generate answer...');
+      console.log('🤖 Calling LLM to generate answer...');
       
       // Convert search result format
-      const convertedResults = searchResults.map(result => ({
-        content: result.text,
-        source: result.metadata.fileName || result.id,
-        score: result.score,
-        metadata: result.metadata
-      }));
+      const convertedResults = this.toAnswerResults(searchResults);
       
-      // Call Gemini service
-      const geminiResponse = await this.geminiService.generateAnswer({
+      // Call LLM service
+      const llmResponse = await this.llmService.generateAnswer({
         question,
         searchResults: convertedResults,
-        responseType: 'qa_answer'
+        responseType: 'qa_answer',
+        unsupportedClaims
       });
       
-      console.log(`✅ Gemini API call successful, answer length: ${geminiResponse.answer.length}`);
-      console.log(`📊 Processing time: ${geminiResponse.metadata.processingTime}ms`);
-      console.log(`🤖 Model used: ${geminiResponse.metadata.model}`);
+      console.log(`✅ LLM call successful, answer length: ${llmResponse.answer.length}`);
+      console.log(`📊 Processing time: ${llmResponse.metadata.processingTime}ms`);
+      console.log(`🤖 Model used: ${llmResponse.metadata.model}`);
       
-      return geminiResponse.answer;
+      return llmResponse.answer;
       
     } catch (error) {
-      console.error('❌ Gemini API call failed, fallback to simple text generation:', error);
+      console.error('❌ LLM call failed, fallback to simple text generation:', error);
       
       // Fallback to simple text generation
       const analysis = this.analyzeSearchResults(searchResults, question);
@@ -415,6 +544,7 @@ export class QAService {
       answer: 'Sorry, I could not find information related to your question in the existing documents. I recommend trying different keywords or checking other relevant documents.',
       confidence: 0,
       sources: [],
+      citations: [],
       searchResults: [],
       processingTime
     };
@@ -430,6 +560,7 @@ export class QAService {
       answer: 'Sorry, an error occurred while processing your question. Please try again later or contact technical support.',
       confidence: 0,
       sources: [],
+      citations: [],
       searchResults: [],
       processingTime
     };
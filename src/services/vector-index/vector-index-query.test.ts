@@ -0,0 +1,76 @@
+import { neo4jManager } from '../../database/neo4j';
+import { queryVectorIndex } from './vector-index-query';
+
+jest.mock('../../database/neo4j', () => ({
+  neo4jManager: {
+    executeQuery: jest.fn(),
+    hasOnlineVectorIndex: jest.fn(),
+  },
+}));
+
+const executeQuery = neo4jManager.executeQuery as jest.Mock;
+const hasOnlineVectorIndex = neo4jManager.hasOnlineVectorIndex as jest.Mock;
+
+// Index status is cached per name, so every test queries an index of its own
+function query(indexName: string) {
+  return { indexName, label: '__Chunk__', queryVector: [1, 0], topK: 2, threshold: 0.5 };
+}
+
+describe('queryVectorIndex', () => {
+  beforeEach(() => {
+    executeQuery.mockReset();
+    hasOnlineVectorIndex.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queries an online index and returns cosine scores', async () => {
+    hasOnlineVectorIndex.mockResolvedValue(true);
+    executeQuery.mockResolvedValue([{ node: { id: 'a' }, similarity: 0.9 }]);
+
+    const matches = await queryVectorIndex(query('online'));
+
+    expect(matches).toEqual([{ node: { id: 'a' }, score: 0.9 }]);
+    expect(executeQuery.mock.calls[0][0]).toContain('db.index.vector.queryNodes');
+    expect(executeQuery.mock.calls[0][1]).toMatchObject({ indexName: 'online', threshold: 0.5 });
+  });
+
+  it('scans with cosine similarity when the index is missing', async () => {
+    hasOnlineVectorIndex.mockResolvedValue(false);
+    executeQuery.mockResolvedValue([
+      { node: { id: 'same' }, embedding: [2, 0] },
+      { node: { id: 'close' }, embedding: [1, 0.5] },
+      { node: { id: 'orthogonal' }, embedding: [0, 1] },
+      { node: { id: 'near' }, embedding: [1, 0.1] },
+    ]);
+
+    const matches = await queryVectorIndex(query('missing'));
+
+    expect(matches.map(match => match.node.id)).toEqual(['same', 'near']);
+    expect(executeQuery.mock.calls[0][0]).toContain('MATCH (n:__Chunk__)');
+  });
+
+  it('falls back to the scan when the index query fails', async () => {
+    hasOnlineVectorIndex.mockResolvedValue(true);
+    executeQuery
+      .mockRejectedValueOnce(new Error('index dropped'))
+      .mockResolvedValueOnce([{ node: { id: 'a' }, embedding: [1, 0] }]);
+
+    const matches = await queryVectorIndex(query('failing'));
+
+    expect(matches).toEqual([{ node: { id: 'a' }, score: 1 }]);
+  });
+
+  it('caches the index status between queries', async () => {
+    hasOnlineVectorIndex.mockResolvedValue(true);
+    executeQuery.mockResolvedValue([]);
+
+    await queryVectorIndex(query('cached'));
+    await queryVectorIndex(query('cached'));
+
+    expect(hasOnlineVectorIndex).toHaveBeenCalledTimes(1);
+  });
+});
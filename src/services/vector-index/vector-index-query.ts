@@ -0,0 +1,122 @@
+import neo4j from 'neo4j-driver';
+import { neo4jManager } from '../../database/neo4j';
+import { MetadataFilter, metadataFilterCondition } from '../chunk-metadata';
+import { cosineSimilarity } from './vector-math';
+
+export interface VectorIndexQuery {
+  indexName: string;   // Neo4j vector index to query
+  label: string;       // Node label used by the fallback scan
+  queryVector: number[];
+  topK: number;
+  threshold: number;   // Minimum cosine similarity
+  filters?: MetadataFilter[];  // Only nodes whose metadata matches every filter
+}
+
+export interface VectorIndexMatch {
+  node: Record<string, any>; // Node properties without the embedding
+  score: number;             // Cosine similarity
+}
+
+// Index availability is cached briefly so a missing index doesn't cost a SHOW INDEXES per query
+const INDEX_STATUS_TTL = 60 * 1000;
+const FALLBACK_PAGE_SIZE = 1000;
+// The index ranks before filtering, so filtered queries fetch more candidates to still fill topK
+const FILTERED_CANDIDATE_FACTOR = 5;
+const indexStatusCache = new Map<string, { online: boolean; checkedAt: number }>();
+
+/**
+ * Query a Neo4j vector index, falling back to an in-process cosine scan when the index is missing
+ */
+export async function queryVectorIndex(query: VectorIndexQuery): Promise<VectorIndexMatch[]> {
+  if (await isIndexOnline(query.indexName)) {
+    try {
+      return await queryNativeIndex(query);
+    } catch (error) {
+      console.warn(`⚠️ Vector index query failed on ${query.indexName}, falling back to cosine scan:`, error);
+      indexStatusCache.delete(query.indexName);
+    }
+  } else {
+    console.warn(`⚠️ Vector index ${query.indexName} not available, falling back to cosine scan`);
+  }
+
+  return scanWithCosine(query);
+}
+
+async function isIndexOnline(indexName: string): Promise<boolean> {
+  const cached = indexStatusCache.get(indexName);
+  if (cached && Date.now() - cached.checkedAt < INDEX_STATUS_TTL) {
+    return cached.online;
+  }
+
+  let online = false;
+  try {
+    online = await neo4jManager.hasOnlineVectorIndex(indexName);
+  } catch (error) {
+    console.warn(`⚠️ Failed to check vector index ${indexName}:`, error);
+  }
+
+  indexStatusCache.set(indexName, { online, checkedAt: Date.now() });
+  return online;
+}
+
+async function queryNativeIndex(query: VectorIndexQuery): Promise<VectorIndexMatch[]> {
+  const filters = query.filters || [];
+  const candidates = filters.length > 0 ? query.topK * FILTERED_CANDIDATE_FACTOR : query.topK;
+
+  // The cosine index reports (1 + cosine) / 2, so convert the threshold and scores back to cosine
+  const results = await neo4jManager.executeQuery(`
+    CALL db.index.vector.queryNodes($indexName, $candidates, $queryVector)
+    YIELD node, score
+    WITH node, 2 * score - 1 AS similarity
+    WHERE similarity >= $threshold AND ${metadataFilterCondition('node')}
+    RETURN node {.*, embedding: null} AS node, similarity
+    ORDER BY similarity DESC
+    LIMIT $topK
+  `, {
+    indexName: query.indexName,
+    candidates: neo4j.int(Math.floor(candidates)),
+    topK: neo4j.int(Math.floor(query.topK)),
+    queryVector: query.queryVector,
+    threshold: query.threshold,
+    metadataFilters: filters,
+  });
+
+  return results.map((result: any) => ({ node: result.node, score: result.similarity }));
+}
+
+async function scanWithCosine(query: VectorIndexQuery): Promise<VectorIndexMatch[]> {
+  const matches: VectorIndexMatch[] = [];
+  let skip = 0;
+
+  // Labels cannot be parameterized; only internal label constants are passed here
+  while (true) {
+    const page = await neo4jManager.executeQuery(`
+      MATCH (n:${query.label})
+      WHERE n.embedding IS NOT NULL AND ${metadataFilterCondition('n')}
+      RETURN n {.*, embedding: null} AS node, n.embedding AS embedding
+      ORDER BY n.id
+      SKIP $skip
+      LIMIT $limit
+    `, {
+      skip: neo4j.int(skip),
+      limit: neo4j.int(FALLBACK_PAGE_SIZE),
+      metadataFilters: query.filters || [],
+    });
+
+    for (const row of page) {
+      const score = cosineSimilarity(query.queryVector, row.embedding);
+      if (score >= query.threshold) {
+        matches.push({ node: row.node, score });
+      }
+    }
+
+    // Keep only the best candidates between pages
+    matches.sort((a, b) => b.score - a.score);
+    matches.length = Math.min(matches.length, Math.floor(query.topK));
+
+    if (page.length < FALLBACK_PAGE_SIZE) break;
+    skip += FALLBACK_PAGE_SIZE;
+  }
+
+  return matches;
+}
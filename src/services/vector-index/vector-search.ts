@@ -1,6 +1,7 @@
-import neo4j from 'neo4j-driver';
-import { neo4jManager } from '../../database/neo4j';
+import { neo4jManager, CHUNK_VECTOR_INDEX } from '../../database/neo4j';
 import { EmbeddingModel } from '../embedding-manager';
+import { queryVectorIndex } from './vector-index-query';
+import { MetadataFilter, fromMetadataProperties } from '../chunk-metadata';
 
 export interface SearchResult {
   id: string;
@@ -10,6 +11,7 @@ export interface SearchResult {
     fileName?: string;
     documentId?: string;
     chunkIndex?: number;
+    contentOffset?: number;
     [key: string]: any;
   };
 }
@@ -19,6 +21,7 @@ export interface SearchOptions {
   threshold?: number;
   includeAdjacentChunks?: boolean; // Whether to include adjacent chunks
   contextWindow?: number; // Context window size (how many chunks before and after)
+  filters?: MetadataFilter[]; // Only chunks whose metadata matches every filter; adjacent chunks are not filtered
 }
 
 // Utility function to ensure topK is an integer
@@ -66,32 +69,29 @@ export class VectorSearchService {
     const threshold = options.threshold || 0.5;
     
     try {
-      // Ensure topK is integer
-      const cypherQuery = `
-          MATCH (c:__Chunk__)
-          WHERE c.embedding IS NOT NULL
-          WITH c, gds.similarity.cosine(c.embedding, $queryVector) AS similarity
-          WHERE similarity >= $threshold
-        RETURN c.id as id, c.text as text, similarity as score, c.chunk_index as chunkIndex,
-               c.fileName as fileName, c.document_id as documentId
-          ORDER BY similarity DESC
-        LIMIT $topK
-      `;
-
-      const results = await neo4jManager.executeQuery(cypherQuery, {
+      const matches = await queryVectorIndex({
+        indexName: CHUNK_VECTOR_INDEX,
+        label: '__Chunk__',
         queryVector,
+        topK,
         threshold,
-        topK: neo4j.int(topK)
+        filters: options.filters
       });
 
-      return results.map((result: any) => ({
-        id: result.id,
-        text: result.text,
-        score: result.score,
+      return matches.map(({ node, score }) => ({
+        id: node.id,
+        text: node.text,
+        score,
         metadata: {
-          fileName: result.fileName,
-          documentId: result.documentId,
-          chunkIndex: result.chunkIndex
+          fileName: node.fileName,
+          documentId: node.document_id,
+          chunkIndex: node.chunk_index,
+          contentOffset: node.content_offset,
+          language: node.language,
+          page: node.page,
+          section: node.section,
+          locator: node.locator,
+          fields: fromMetadataProperties(node)
         }
       }));
       
@@ -177,11 +177,13 @@ export class VectorSearchService {
       const cypherQuery = `
         MATCH (c:__Chunk__ {id: $chunkId})-[:NEXT_CHUNK*1..${contextWindowInt}]->(adj:__Chunk__)
         RETURN adj.id as id, adj.text as text, 0.8 as score, adj.chunk_index as chunkIndex,
-               adj.fileName as fileName, adj.document_id as documentId
+               adj.fileName as fileName, adj.document_id as documentId, adj.content_offset as contentOffset,
+               adj.language as language, adj.page as page, adj.section as section
         UNION
         MATCH (c:__Chunk__ {id: $chunkId})<-[:NEXT_CHUNK*1..${contextWindowInt}]-(prev:__Chunk__)
         RETURN prev.id as id, prev.text as text, 0.8 as score, prev.chunk_index as chunkIndex,
-               prev.fileName as fileName, prev.document_id as documentId
+               prev.fileName as fileName, prev.document_id as documentId, prev.content_offset as contentOffset,
+               prev.language as language, prev.page as page, prev.section as section
       `;
 
       console.log(`   🔍 Cypher query:`, cypherQuery.replace(/\s+/g, ' ').trim());
@@ -199,7 +201,11 @@ export class VectorSearchService {
         metadata: {
           fileName: result.fileName,
           documentId: result.documentId,
-          chunkIndex: result.chunkIndex
+          chunkIndex: result.chunkIndex,
+          contentOffset: result.contentOffset,
+          language: result.language,
+          page: result.page,
+          section: result.section
         }
       }));
 